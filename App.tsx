@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { 
   BarChart, 
   Bar, 
@@ -8,21 +8,119 @@ import {
   Tooltip, 
   ResponsiveContainer 
 } from 'recharts';
-import { FilePair, AnalysisResult, AggregateMetrics } from './types';
-import { 
-  calculateCER, 
-  calculateWERWithDiff, 
-  calculatePunctuationAccuracy 
-} from './utils/algorithms';
+import { AnalysisResult, AggregateMetrics, AnalysisSettings, AverageKey, AveragingMode, EncodingChoice, EncodingInfo, FilePair, OcrDocument, OcrEngineSet, OcrProviderConfig, PairingState, QualityRule, RunRecord, TextEncoding } from './types';
+import { AnalysisTask, analyzeInWorkers } from './utils/workerPool';
+import { DEFAULT_TOKENIZER } from './utils/tokenizers';
+import { DEFAULT_NORMALIZATION } from './utils/normalization';
+import { DEFAULT_PUNCTUATION } from './utils/punctuation';
+import { DEFAULT_PAIRING_OPTIONS, normalizeStem, PairingOptions, pairByStem } from './utils/pairing';
+import { MANIFEST_HINT, ManifestEntry, manifestLookup, pairByManifest, parseManifest } from './utils/manifest';
+import { hasTag, tagLabel, tagsOf } from './utils/tags';
+import { AVERAGING_MODES, averageOf, computeAggregates } from './utils/aggregates';
+import { hashFile, saveRun } from './utils/history';
+import { ACCEPTED_FILE_TYPES, DEFAULT_FORMAT_OPTIONS, FormatOptions, parseDocument, SUPPORTED_FORMATS_HINT } from './utils/formats';
+import { readTextFile } from './utils/encoding';
+import { PAGE_IMAGE_TYPES } from './utils/pageImages';
+import { recognizeAll } from './utils/ocrProvider';
+import { DEFAULT_RULES, globalLevels } from './utils/rules';
 import { MetricCard } from './components/MetricCard';
 import { ResultsTable } from './components/ResultsTable';
+import { PairingEditor } from './components/PairingEditor';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ExportMenu } from './components/ExportMenu';
+import { EngineUploads } from './components/EngineUploads';
+import { EngineComparison } from './components/EngineComparison';
+import { TagSlices } from './components/TagSlices';
+import { ErrorAnalysisPanel } from './components/ErrorAnalysisPanel';
+import { FormatSettings } from './components/FormatSettings';
+import { RunHistory } from './components/RunHistory';
+import { EncodingSelect } from './components/EncodingSelect';
+import { QualityRules } from './components/QualityRules';
+import { CharClassChart } from './components/CharClassChart';
+import { DistributionCharts } from './components/DistributionCharts';
+import { FieldExtractionPanel } from './components/FieldExtractionPanel';
+
+const parseList = (value: string) => value.split(',').map(s => s.trim()).filter(s => s.length > 0);
+
+const EMPTY_PAIRING: PairingState = { pairs: [], unmatchedTruth: [], unmatchedOcr: [] };
+
+/**
+ * Gives every pair the page image whose stem matches its truth file.
+ * Manual pairs get one too, since they still have a truth file.
+ * Text recognized from a replaced image is dropped.
+ */
+const attachImages = (state: PairingState, images: File[], options: PairingOptions): PairingState => {
+  const byStem = new Map(images.map(f => [normalizeStem(f.name, options), f]));
+  return {
+    ...state,
+    pairs: state.pairs.map(p => {
+      const imageFile = p.truthFile ? byStem.get(normalizeStem(p.truthFile.name, options)) : undefined;
+      return imageFile === p.imageFile ? p : { ...p, imageFile, ocrContent: undefined };
+    })
+  };
+};
+
+/**
+ * Auto-pairs one engine's OCR files with the truth set by filename stem,
+ * or as a manifest says, which also supplies each pair's tags and metadata.
+ * An engine that recognizes page images (no OCR files) gets a pair per
+ * truth file. Pair ids are prefixed with the engine id so they stay unique
+ * across engines.
+ */
+const autoPair = (engineId: string, truthFiles: File[], ocrFiles: File[] | null, options: PairingOptions, manifest: ManifestEntry[] | null): PairingState => {
+  const { pairs, unmatchedTruth, unmatchedOcr }: { pairs: { stem: string; truth: File; ocr: File | null }[]; unmatchedTruth: File[]; unmatchedOcr: File[] } =
+    ocrFiles === null ? { pairs: truthFiles.map(truth => ({ stem: normalizeStem(truth.name, options), truth, ocr: null })), unmatchedTruth: [], unmatchedOcr: [] }
+    : manifest ? pairByManifest(truthFiles, ocrFiles, manifest, options)
+    : pairByStem(truthFiles, ocrFiles, options);
+  const entryOf = manifestLookup(manifest ?? [], options);
+  return {
+    pairs: pairs.map((p, i) => {
+      const entry = entryOf(p.truth.name);
+      return {
+        id: `${engineId}:pair-${i}-${p.stem}`,
+        stem: p.stem,
+        truthFile: p.truth,
+        ocrFile: p.ocr,
+        status: 'pending',
+        ...(entry?.tags.length && { tags: entry.tags }),
+        ...(entry && Object.keys(entry.metadata).length > 0 && { metadata: entry.metadata })
+      };
+    }),
+    unmatchedTruth,
+    unmatchedOcr
+  };
+};
 
 const App: React.FC = () => {
   const [truthFiles, setTruthFiles] = useState<File[]>([]);
-  const [ocrFiles, setOcrFiles] = useState<File[]>([]);
+  const [imageFiles, setImageFiles] = useState<File[]>([]);
+  const [manifest, setManifest] = useState<{ name: string; entries: ManifestEntry[] } | null>(null);
+  const [engines, setEngines] = useState<OcrEngineSet[]>([{ id: 'engine-1', name: 'OCR 引擎 1', files: [] }]);
+  const [activeEngineId, setActiveEngineId] = useState('engine-1');
+  const [pairingOptions, setPairingOptions] = useState<PairingOptions>(DEFAULT_PAIRING_OPTIONS);
+  const [pairings, setPairings] = useState<Record<string, PairingState>>({});
+  const [formatOptions, setFormatOptions] = useState<FormatOptions>(DEFAULT_FORMAT_OPTIONS);
+  const [truthEncoding, setTruthEncoding] = useState<EncodingChoice>('auto');
+  const [fileEncodings, setFileEncodings] = useState<Map<File, TextEncoding>>(new Map());
+  const [encodingInfo, setEncodingInfo] = useState<Map<File, EncodingInfo>>(new Map());
+  const [settings, setSettings] = useState<AnalysisSettings>({
+    tokenizer: DEFAULT_TOKENIZER,
+    normalization: DEFAULT_NORMALIZATION,
+    punctuation: DEFAULT_PUNCTUATION,
+    truthMarkup: true
+  });
   const [results, setResults] = useState<AnalysisResult[]>([]);
+  const [resultSettings, setResultSettings] = useState<AnalysisSettings | null>(null); // What the results were computed with
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<Record<string, number>>({});
   const [error, setError] = useState<string | null>(null);
+  const [averaging, setAveraging] = useState<AveragingMode>('macro');
+  const [rules, setRules] = useState<QualityRule[]>(DEFAULT_RULES);
+  const [focusedPair, setFocusedPair] = useState<{ pairId: string } | null>(null);
+  const [sliceTag, setSliceTag] = useState<string | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const nextEngineNumber = useRef(2);
+  const decodedCache = useRef(new WeakMap<File, Partial<Record<EncodingChoice, EncodingInfo>>>());
 
   const handleTruthUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
@@ -30,102 +128,364 @@ const App: React.FC = () => {
     }
   };
 
-  const handleOcrUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files) {
-      setOcrFiles(Array.from(e.target.files));
+  const handleEngineUpload = (id: string, files: File[]) => {
+    setEngines(prev => prev.map(en => (en.id === id ? { ...en, files } : en)));
+    setPairings(prev => ({ ...prev, [id]: attachImages(autoPair(id, truthFiles, files, pairingOptions, manifest?.entries ?? null), imageFiles, pairingOptions) }));
+  };
+
+  // A manifest re-pairs every engine, like a new truth set does
+  const handleManifestUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { text } = await readTextFile(file, 'auto');
+      setManifest({ name: file.name, entries: parseManifest(text, file.name) });
+      setError(null);
+    } catch (err) {
+      console.error('Could not read manifest:', err);
+      setError(`无法解析数据集清单: ${err instanceof Error ? err.message : String(err)}`);
     }
   };
 
-  // Auto-pair files based on index after sorting filenames
-  const pairedFiles: FilePair[] = useMemo(() => {
-    const sortedTruth = [...truthFiles].sort((a, b) => a.name.localeCompare(b.name));
-    const sortedOcr = [...ocrFiles].sort((a, b) => a.name.localeCompare(b.name));
-    
-    const maxLen = Math.max(sortedTruth.length, sortedOcr.length);
-    const pairs: FilePair[] = [];
-
-    for (let i = 0; i < maxLen; i++) {
-      pairs.push({
-        id: `pair-${i}`,
-        truthFile: sortedTruth[i] || null,
-        ocrFile: sortedOcr[i] || null,
-        status: 'pending'
+  // Images only attach to existing pairs, so uploading them keeps manual edits
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files) return;
+    const images = Array.from(e.target.files);
+    setImageFiles(images);
+    setPairings(prev => Object.fromEntries(
+      Object.entries(prev).map(([id, state]) => [id, attachImages(state, images, pairingOptions)])
+    ));
+  };
+
+  const updatePairing = (id: string, state: PairingState) => {
+    setPairings(prev => ({ ...prev, [id]: attachImages(state, imageFiles, pairingOptions) }));
+  };
+
+  const addEngine = () => {
+    const n = nextEngineNumber.current++;
+    const id = `engine-${n}`;
+    setEngines(prev => [...prev, { id, name: `OCR 引擎 ${n}`, files: [] }]);
+    setActiveEngineId(id);
+  };
+
+  const removeEngine = (id: string) => {
+    const remaining = engines.filter(en => en.id !== id);
+    setEngines(remaining);
+    setPairings(({ [id]: _removed, ...rest }) => rest);
+    if (activeEngineId === id) setActiveEngineId(remaining[0].id);
+  };
+
+  const renameEngine = (id: string, name: string) => {
+    setEngines(prev => prev.map(en => (en.id === id ? { ...en, name } : en)));
+  };
+
+  const setEngineEncoding = (id: string, encoding: EncodingChoice) => {
+    setEngines(prev => prev.map(en => (en.id === id ? { ...en, encoding } : en)));
+  };
+
+  // Switching between uploads and an endpoint re-pairs the engine; editing
+  // the endpoint keeps the pairs but forgets text recognized under the old one
+  const setEngineProvider = (id: string, provider: OcrProviderConfig | undefined) => {
+    const engine = engines.find(en => en.id === id);
+    if (!engine) return;
+    setEngines(prev => prev.map(en => (en.id === id ? { ...en, provider } : en)));
+    if (!!engine.provider !== !!provider) {
+      const state = autoPair(id, truthFiles, provider ? null : engine.files, pairingOptions, manifest?.entries ?? null);
+      setPairings(prev => ({ ...prev, [id]: attachImages(state, imageFiles, pairingOptions) }));
+    } else {
+      setPairings(prev => {
+        const state = prev[id] || EMPTY_PAIRING;
+        return { ...prev, [id]: { ...state, pairs: state.pairs.map(p => ({ ...p, ocrContent: undefined })) } };
       });
     }
-    return pairs;
-  }, [truthFiles, ocrFiles]);
+  };
+
+  const setFileEncoding = (file: File, encoding: TextEncoding | null) => {
+    setFileEncodings(prev => {
+      const next = new Map(prev);
+      if (encoding) next.set(file, encoding);
+      else next.delete(file);
+      return next;
+    });
+  };
+
+  // A per-file choice wins over the choice for its whole set
+  const encodingOf = (file: File, setEncoding: EncodingChoice = 'auto'): EncodingChoice =>
+    fileEncodings.get(file) ?? setEncoding;
+
+  // Decode every uploaded file under its current encoding choice, so the
+  // pairing editor can show what was detected and flag replacement characters
+  useEffect(() => {
+    let cancelled = false;
+    const files: [File, EncodingChoice][] = [
+      ...truthFiles.map(f => [f, encodingOf(f, truthEncoding)] as [File, EncodingChoice]),
+      ...engines.flatMap(en => en.files.map(f => [f, encodingOf(f, en.encoding)] as [File, EncodingChoice])),
+    ];
+    const inspect = async ([file, choice]: [File, EncodingChoice]): Promise<[File, EncodingInfo]> => {
+      const cached = decodedCache.current.get(file) ?? {};
+      if (!cached[choice]) {
+        const { text: _text, ...info } = await readTextFile(file, choice);
+        cached[choice] = info;
+        decodedCache.current.set(file, cached);
+      }
+      return [file, cached[choice]!];
+    };
+    Promise.all(files.map(inspect))
+      .then(entries => { if (!cancelled) setEncodingInfo(new Map(entries)); })
+      .catch(err => console.error('Could not detect file encodings:', err));
+    return () => { cancelled = true; };
+  }, [truthFiles, engines, truthEncoding, fileEncodings]);
+
+  // Re-pair every engine when the truth set, the manifest or the stripping
+  // rules change; this resets manual edits made in the editor.
+  useEffect(() => {
+    setPairings(Object.fromEntries(
+      engines.map(en => [en.id, attachImages(autoPair(en.id, truthFiles, en.provider ? null : en.files, pairingOptions, manifest?.entries ?? null), imageFiles, pairingOptions)])
+    ));
+  }, [truthFiles, pairingOptions, manifest]);
+
+  // Only re-pair when the rules actually change, so a blur doesn't discard manual edits
+  const updatePairingOptions = (next: PairingOptions) => {
+    if (JSON.stringify(next) !== JSON.stringify(pairingOptions)) setPairingOptions(next);
+  };
+
+  const pageImages = useMemo(() => new Map(
+    Object.values(pairings).flatMap(state => state.pairs.flatMap(p => (p.imageFile ? [[p.id, p.imageFile] as [string, File]] : [])))
+  ), [pairings]);
 
-  const runAnalysis = async () => {
-    if (pairedFiles.length === 0) {
-      setError("请先上传文件");
+  const activePairs = engines.flatMap(en => (pairings[en.id] || EMPTY_PAIRING).pairs.filter(p => !p.excluded));
+  const hasUploads = truthFiles.length > 0 || engines.some(en => en.files.length > 0);
+  const overallProgress = activePairs.length > 0
+    ? activePairs.reduce((sum, p) => sum + (progress[p.id] || 0), 0) / activePairs.length
+    : 0;
+
+  const updatePairs = (update: (pair: FilePair) => FilePair) => {
+    setPairings(prev => Object.fromEntries(
+      Object.entries(prev).map(([engineId, state]) => [engineId, { ...state, pairs: state.pairs.map(update) }])
+    ));
+  };
+
+  const setPairStatus = (ids: string[], status: FilePair['status'], error?: string) => {
+    updatePairs(p => (ids.includes(p.id) ? { ...p, status, error: status === 'error' ? error : undefined } : p));
+  };
+
+  /**
+   * Evaluates every active pair, or only the given ones (a retry), whose
+   * results then replace their earlier ones. Pairs of an engine with an
+   * endpoint first have their page image recognized, which counts as the
+   * first half of their progress; recognized text is kept on the pair.
+   * Settings are taken once at the start; a retry reuses those of the
+   * results it patches, so every result shares one set.
+   */
+  const runAnalysis = async (only?: string[]) => {
+    if (activePairs.length === 0) {
+      setError(hasUploads ? "没有可评估的文件配对" : "请先上传文件");
       return;
     }
 
+    const runSettings = (only && resultSettings) || settings;
     setIsProcessing(true);
     setError(null);
-    const newResults: AnalysisResult[] = [];
+    setProgress(prev => (only ? { ...prev, ...Object.fromEntries(only.map(id => [id, 0])) } : {}));
 
     try {
-      for (const pair of pairedFiles) {
-        if (!pair.truthFile || !pair.ocrFile) continue;
+      const runnable = engines.flatMap(engine =>
+        (pairings[engine.id] || EMPTY_PAIRING).pairs
+          .filter(p => !p.excluded && p.truthFile && (engine.provider ? p.imageFile : p.ocrFile))
+          .filter(p => !only || only.includes(p.id))
+          .map(pair => ({ engine, pair }))
+      );
+      setPairStatus(runnable.map(r => r.pair.id), 'loading');
+
+      const recognized = new Map<string, string>();
+      const unrecognized: string[] = [];
+      for (const engine of engines) {
+        const pending = runnable.filter(r => r.engine === engine && r.pair.ocrContent === undefined);
+        if (!engine.provider || pending.length === 0) continue;
+        await recognizeAll(pending.map(({ pair }) => ({ id: pair.id, file: pair.imageFile! })), engine.provider, ({ id, text, error }) => {
+          if (text !== undefined) {
+            recognized.set(id, text);
+            updatePairs(p => (p.id === id ? { ...p, ocrContent: text } : p));
+            setProgress(prev => ({ ...prev, [id]: 0.5 }));
+          } else {
+            console.error(`OCR request failed for ${id}:`, error);
+            unrecognized.push(id);
+            setPairStatus([id], 'error', `OCR 接口: ${error}`);
+          }
+        });
+      }
+
+      const loadDocument = (file: File, setEncoding?: EncodingChoice) =>
+        readFile(file, encodingOf(file, setEncoding)).then(content => parseDocument(content, file.name, formatOptions));
 
-        const truthText = await readFile(pair.truthFile);
-        const ocrText = await readFile(pair.ocrFile);
+      // Each truth file is read once, however many engines it is paired with;
+      // a file that fails to parse only fails its own pairs
+      const truthDocs = new Map<File, Promise<OcrDocument>>();
+      const prepared: { engine: OcrEngineSet; pair: FilePair; truth: OcrDocument; ocr: OcrDocument }[] = [];
+      const unreadable: string[] = [];
+      for (const { engine, pair } of runnable) {
+        if (unrecognized.includes(pair.id)) continue;
+        if (!truthDocs.has(pair.truthFile!)) truthDocs.set(pair.truthFile!, loadDocument(pair.truthFile!, truthEncoding));
+        try {
+          // Endpoint replies are sniffed like uploads, so hOCR or ALTO responses keep their layout
+          const ocr = engine.provider
+            ? parseDocument(pair.ocrContent ?? recognized.get(pair.id)!, `${pair.imageFile!.name}.txt`, formatOptions)
+            : await loadDocument(pair.ocrFile!, engine.encoding);
+          prepared.push({ engine, pair, truth: await truthDocs.get(pair.truthFile!)!, ocr });
+        } catch (err) {
+          console.error(`Could not parse ${pair.id}:`, err);
+          unreadable.push(pair.id);
+        }
+      }
+      setPairStatus(unreadable, 'error', '无法读取或解析文件');
+
+      const tasks: AnalysisTask[] = prepared.map(({ pair, truth, ocr }) => ({
+        id: pair.id,
+        truth: truth.text,
+        ocr: ocr.text,
+        settings: runSettings
+      }));
 
-        const cerData = calculateCER(truthText, ocrText);
-        const werData = calculateWERWithDiff(truthText, ocrText);
-        const puncData = calculatePunctuationAccuracy(truthText, ocrText);
+      const outcomes = await analyzeInWorkers(tasks, {
+        onProgress: (id, fraction) => setProgress(prev => ({ ...prev, [id]: recognized.has(id) ? 0.5 + fraction / 2 : fraction })),
+        onSettled: ({ id, error }) => setPairStatus([id], error ? 'error' : 'analyzed', error)
+      });
 
+      const newResults: AnalysisResult[] = [];
+      outcomes.forEach((outcome, i) => {
+        const { engine, pair, truth, ocr } = prepared[i];
+        if (!outcome.metrics) {
+          console.error(`Analysis failed for ${pair.id}:`, outcome.error);
+          return;
+        }
         newResults.push({
           pairId: pair.id,
-          truthFileName: pair.truthFile.name,
-          ocrFileName: pair.ocrFile.name,
-          cer: cerData,
-          wer: werData,
-          punctuationAccuracy: puncData,
-          truthLength: truthText.length,
-          ocrLength: ocrText.length
+          engineId: engine.id,
+          engineName: engine.name,
+          truthFileName: pair.truthFile!.name,
+          ocrFileName: engine.provider ? pair.imageFile!.name : pair.ocrFile!.name,
+          truthFormat: truth.format,
+          ocrFormat: ocr.format,
+          ...(ocr.format !== 'text' && { ocrLines: ocr.lines }),
+          ...(pair.tags?.length && { tags: pair.tags }),
+          ...(pair.metadata && { metadata: pair.metadata }),
+          ...outcome.metrics
         });
+      });
+
+      const failed = outcomes.length - newResults.length + unreadable.length + unrecognized.length;
+      if (failed > 0) setError(`${failed} 对文件分析失败`);
+      if (only) {
+        // A retry patches the current results in place and isn't saved as a run of its own
+        setResults(prev => {
+          const retried = new Map(newResults.map(r => [r.pairId, r]));
+          const kept = prev.flatMap(r => (retried.has(r.pairId) ? [retried.get(r.pairId)!] : only.includes(r.pairId) ? [] : [r]));
+          return [...kept, ...newResults.filter(r => !prev.some(p => p.pairId === r.pairId))];
+        });
+      } else {
+        setResults(newResults);
+        setResultSettings(runSettings);
+      }
+
+      if (!only && newResults.length > 0) {
+        recordRun(newResults, prepared.map(p => p.pair), runSettings).catch(err => console.error('Could not save run history:', err));
       }
-      setResults(newResults);
     } catch (err) {
       setError("读取文件时发生错误");
+      setPairStatus(only ?? activePairs.map(p => p.id), 'error', String(err));
       console.error(err);
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const readFile = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => resolve(e.target?.result as string || '');
-      reader.onerror = reject;
-      reader.readAsText(file);
+  // Saves a completed run locally, with content hashes of every input file
+  const recordRun = async (runResults: AnalysisResult[], pairs: FilePair[], runSettings: AnalysisSettings) => {
+    const fileHashes = new Map<File, Promise<string>>();
+    const hashOf = (file: File) => {
+      if (!fileHashes.has(file)) fileHashes.set(file, hashFile(file));
+      return fileHashes.get(file)!;
+    };
+    const hashes: RunRecord['hashes'] = {};
+    for (const pair of pairs) {
+      if (runResults.some(r => r.pairId === pair.id)) {
+        hashes[pair.id] = { truth: await hashOf(pair.truthFile!), ocr: await hashOf(pair.ocrFile ?? pair.imageFile!) };
+      }
+    }
+    const createdAt = new Date();
+    await saveRun({
+      id: `run-${createdAt.getTime()}`,
+      name: `评估 ${createdAt.toLocaleString()}`,
+      createdAt: createdAt.toISOString(),
+      settings: runSettings,
+      engines: Array.from(new Map(runResults.map(r => [r.engineId, { id: r.engineId, name: r.engineName }])).values()),
+      results: runResults,
+      hashes
     });
+    setHistoryVersion(v => v + 1);
   };
 
-  const aggregates: AggregateMetrics | null = useMemo(() => {
-    if (results.length === 0) return null;
-    const sum = results.reduce((acc, curr) => ({
-      cer: acc.cer + curr.cer.score,
-      wer: acc.wer + curr.wer.score,
-      punc: acc.punc + curr.punctuationAccuracy.score
-    }), { cer: 0, wer: 0, punc: 0 });
-
-    return {
-      avgCer: sum.cer / results.length,
-      avgWer: sum.wer / results.length,
-      avgPunc: sum.punc / results.length
-    };
+  const loadRun = (run: RunRecord) => {
+    setSettings(run.settings);
+    setResults(run.results);
+    setResultSettings(run.settings);
+  };
+
+  const readFile = async (file: File, encoding: EncodingChoice): Promise<string> => {
+    const { text, encoding: used, replacementCount } = await readTextFile(file, encoding);
+    if (replacementCount > 0) console.warn(`${file.name}: ${replacementCount} undecodable characters as ${used}`);
+    return text;
+  };
+
+  // Engines as they were when the results were produced
+  const resultEngines = useMemo(() => {
+    const seen = new Map<string, OcrEngineSet>();
+    for (const r of results) {
+      if (!seen.has(r.engineId)) seen.set(r.engineId, { id: r.engineId, name: r.engineName, files: [] });
+    }
+    return Array.from(seen.values());
   }, [results]);
 
+  // A selected tag narrows every figure below to its documents; a tag the
+  // current results don't use falls back to all documents
+  const resultTags = useMemo(() => tagsOf(results), [results]);
+  const activeSlice = sliceTag !== null && resultTags.includes(sliceTag) ? sliceTag : null;
+  const slicedResults = useMemo(
+    () => (activeSlice === null ? results : results.filter(r => hasTag(r, activeSlice))),
+    [results, activeSlice]
+  );
+
+  const aggregatesByEngine = useMemo(() => {
+    const byEngine: Record<string, AggregateMetrics> = {};
+    for (const engine of resultEngines) {
+      const agg = computeAggregates(slicedResults.filter(r => r.engineId === engine.id));
+      if (agg) byEngine[engine.id] = agg;
+    }
+    return byEngine;
+  }, [slicedResults, resultEngines]);
+
+  // Engines with documents in the current slice
+  const slicedEngines = resultEngines.filter(en => aggregatesByEngine[en.id]);
+
+  // Detail view follows the engine tab when it has results, else the first engine that does
+  const detailEngineId = aggregatesByEngine[activeEngineId] ? activeEngineId : slicedEngines[0]?.id;
+  const detailResults = slicedResults.filter(r => r.engineId === detailEngineId);
+  const aggregates: AggregateMetrics | null = detailEngineId ? aggregatesByEngine[detailEngineId] : null;
+
   const chartData = aggregates ? [
-    { name: '字符错误率 (CER)', value: parseFloat((aggregates.avgCer * 100).toFixed(2)), fill: '#ef4444' },
-    { name: '词错误率 (WER)', value: parseFloat((aggregates.avgWer * 100).toFixed(2)), fill: '#f97316' },
-    { name: '标点准确率', value: parseFloat((aggregates.avgPunc * 100).toFixed(2)), fill: '#3b82f6' },
+    { name: '字符错误率 (CER)', value: parseFloat((averageOf(aggregates, 'avgCer', averaging) * 100).toFixed(2)), fill: '#ef4444' },
+    { name: '词错误率 (WER)', value: parseFloat((averageOf(aggregates, 'avgWer', averaging) * 100).toFixed(2)), fill: '#f97316' },
+    { name: '标点准确率', value: parseFloat((averageOf(aggregates, 'avgPunc', averaging) * 100).toFixed(2)), fill: '#3b82f6' },
   ] : [];
 
+  // Median and interquartile range under each headline number
+  const spread = (agg: AggregateMetrics, key: AverageKey, hint: string) => {
+    const { median, percentiles } = agg.summaries[key];
+    const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+    return `${hint} · 中位数 ${pct(median)} · P25–P75 ${pct(percentiles.p25)}–${pct(percentiles.p75)}`;
+  };
+
   return (
     <div className="min-h-screen pb-20 font-sans">
       <header className="bg-white border-b sticky top-0 z-10">
@@ -149,55 +509,116 @@ const App: React.FC = () => {
           <h2 className="text-lg font-semibold text-gray-900 mb-4">1. 上传数据集</h2>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
             <div className="space-y-3">
-              <label className="block text-sm font-medium text-gray-700">真值文件 / 正确文本 (.txt)</label>
+              <label className="block text-sm font-medium text-gray-700">真值文件 / 正确文本</label>
               <div className="flex items-center justify-center w-full">
                 <label className="flex flex-col items-center justify-center w-full h-32 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100 transition-colors">
                   <div className="flex flex-col items-center justify-center pt-5 pb-6">
                     <p className="mb-2 text-sm text-gray-500"><span className="font-semibold">点击上传</span> 真值文件</p>
-                    <p className="text-xs text-gray-500">仅支持 .txt 格式</p>
+                    <p className="text-xs text-gray-500">{SUPPORTED_FORMATS_HINT}</p>
                   </div>
-                  <input type="file" className="hidden" multiple accept=".txt" onChange={handleTruthUpload} />
+                  <input type="file" className="hidden" multiple accept={ACCEPTED_FILE_TYPES} onChange={handleTruthUpload} />
                 </label>
               </div>
-              <p className="text-xs text-right text-gray-500">已选择 {truthFiles.length} 个文件</p>
-            </div>
-
-            <div className="space-y-3">
-              <label className="block text-sm font-medium text-gray-700">OCR 识别结果文件 (.txt)</label>
-              <div className="flex items-center justify-center w-full">
-                <label className="flex flex-col items-center justify-center w-full h-32 border-2 border-blue-300 border-dashed rounded-lg cursor-pointer bg-blue-50 hover:bg-blue-100 transition-colors">
-                  <div className="flex flex-col items-center justify-center pt-5 pb-6">
-                    <p className="mb-2 text-sm text-blue-500"><span className="font-semibold">点击上传</span> OCR 结果</p>
-                    <p className="text-xs text-blue-500">仅支持 .txt 格式</p>
-                  </div>
-                  <input type="file" className="hidden" multiple accept=".txt" onChange={handleOcrUpload} />
+              <div className="flex items-center justify-end gap-2 text-xs text-gray-500">
+                <EncodingSelect
+                  value={truthEncoding === 'auto' ? null : truthEncoding}
+                  defaultLabel="自动检测编码"
+                  onChange={(encoding) => setTruthEncoding(encoding ?? 'auto')}
+                />
+                <span>已选择 {truthFiles.length} 个文件</span>
+              </div>
+              <label className="flex items-center justify-between gap-2 px-3 py-2 border border-dashed border-gray-300 rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100 text-xs text-gray-500">
+                <span><span className="font-semibold">上传页面图像</span> (可选，PNG/JPEG/TIFF，按文件名与真值配对)</span>
+                <span>已选择 {imageFiles.length} 张</span>
+                <input type="file" className="hidden" multiple accept={PAGE_IMAGE_TYPES} onChange={handleImageUpload} />
+              </label>
+              <div className="flex items-center gap-2">
+                <label className="flex-1 flex items-center justify-between gap-2 px-3 py-2 border border-dashed border-gray-300 rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100 text-xs text-gray-500" title={MANIFEST_HINT}>
+                  <span><span className="font-semibold">上传数据集清单</span> (可选，CSV/JSON，指定配对、标签与元数据)</span>
+                  <span>{manifest ? `${manifest.name} · ${manifest.entries.length} 条` : '未使用'}</span>
+                  <input type="file" className="hidden" accept=".csv,.json,text/csv,application/json" onChange={handleManifestUpload} />
                 </label>
+                {manifest && (
+                  <button onClick={() => setManifest(null)} className="text-xs text-gray-500 hover:text-red-600">移除</button>
+                )}
               </div>
-              <p className="text-xs text-right text-gray-500">已选择 {ocrFiles.length} 个文件</p>
             </div>
+
+            <EngineUploads
+              engines={engines}
+              onRename={renameEngine}
+              onUpload={handleEngineUpload}
+              onEncodingChange={setEngineEncoding}
+              onProviderChange={setEngineProvider}
+              onRemove={removeEngine}
+              onAdd={addEngine}
+            />
           </div>
 
-          {/* Pairing Preview */}
-          {pairedFiles.length > 0 && (
+          {/* Pairing Editor */}
+          {hasUploads && (
             <div className="mt-6">
-              <h3 className="text-sm font-medium text-gray-700 mb-2">文件配对预览 (按文件名排序)</h3>
-              <div className="bg-gray-50 rounded border max-h-40 overflow-y-auto text-xs p-2">
-                {pairedFiles.map((p, i) => (
-                  <div key={p.id} className={`grid grid-cols-2 gap-4 py-1 px-2 ${i % 2 === 0 ? '' : 'bg-gray-100'} ${(p.truthFile && p.ocrFile) ? 'text-gray-700' : 'text-red-500'}`}>
-                    <span>{i + 1}. {p.truthFile?.name || '(缺少真值文件)'}</span>
-                    <span>{p.ocrFile?.name || '(缺少 OCR 文件)'}</span>
-                  </div>
-                ))}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4 text-xs">
+                <label className="flex flex-col gap-1 text-gray-600">
+                  忽略的文件名后缀 (逗号分隔)
+                  <input
+                    type="text"
+                    defaultValue={pairingOptions.stripSuffixes.join(', ')}
+                    onBlur={(e) => updatePairingOptions({ ...pairingOptions, stripSuffixes: parseList(e.target.value) })}
+                    className="border rounded px-2 py-1 font-mono"
+                    placeholder=".gt, .ocr"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-600">
+                  忽略的文件名前缀 (逗号分隔)
+                  <input
+                    type="text"
+                    defaultValue={pairingOptions.stripPrefixes.join(', ')}
+                    onBlur={(e) => updatePairingOptions({ ...pairingOptions, stripPrefixes: parseList(e.target.value) })}
+                    className="border rounded px-2 py-1 font-mono"
+                    placeholder="gt_, ocr_"
+                  />
+                </label>
+              </div>
+              <div className="mb-4">
+                <FormatSettings options={formatOptions} onChange={setFormatOptions} />
+              </div>
+              {engines.length > 1 && (
+                <div className="mb-2 flex gap-1 border-b border-gray-200">
+                  {engines.map(en => (
+                    <button
+                      key={en.id}
+                      onClick={() => setActiveEngineId(en.id)}
+                      className={`px-3 py-1.5 text-xs font-medium -mb-px border-b-2 ${activeEngineId === en.id ? 'border-blue-600 text-blue-700' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                    >
+                      {en.name || en.id}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <PairingEditor
+                engineId={activeEngineId}
+                state={pairings[activeEngineId] || EMPTY_PAIRING}
+                onChange={(state) => updatePairing(activeEngineId, state)}
+                progress={progress}
+                encodings={encodingInfo}
+                encodingOverrides={fileEncodings}
+                onEncodingChange={setFileEncoding}
+                recognizesImages={!!engines.find(en => en.id === activeEngineId)?.provider}
+                onRetry={isProcessing ? undefined : (pairId) => runAnalysis([pairId])}
+              />
+              <div className="mt-4">
+                <SettingsPanel settings={settings} onChange={setSettings} />
               </div>
               <div className="mt-4 flex justify-end">
                 <button
-                  onClick={runAnalysis}
-                  disabled={isProcessing || pairedFiles.length === 0}
+                  onClick={() => runAnalysis()}
+                  disabled={isProcessing || activePairs.length === 0}
                   className={`px-6 py-2 rounded text-white font-medium shadow-sm transition-colors
                     ${isProcessing ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'}
                   `}
                 >
-                  {isProcessing ? '正在分析...' : '开始评估分析'}
+                  {isProcessing ? `正在分析... ${Math.round(overallProgress * 100)}%` : '开始评估分析'}
                 </button>
               </div>
               {error && <p className="mt-2 text-red-600 text-sm text-right">{error}</p>}
@@ -208,25 +629,82 @@ const App: React.FC = () => {
         {/* Results Section */}
         {aggregates && (
           <div className="space-y-8 animate-fade-in">
-            <h2 className="text-lg font-semibold text-gray-900">2. 分析结果</h2>
-            
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">2. 分析结果</h2>
+              <div className="flex items-center gap-4">
+                {resultTags.length > 0 && (
+                  <label className="flex items-center gap-1 text-xs">
+                    <span className="text-gray-500">标签切片:</span>
+                    <select
+                      value={activeSlice ?? '*'}
+                      onChange={(e) => setSliceTag(e.target.value === '*' ? null : e.target.value)}
+                      className="border border-gray-300 rounded px-2 py-1 bg-white"
+                    >
+                      <option value="*">全部文档</option>
+                      {resultTags.map(tag => <option key={tag} value={tag}>{tagLabel(tag)}</option>)}
+                    </select>
+                  </label>
+                )}
+                <div className="flex items-center gap-1 text-xs">
+                  <span className="text-gray-500">平均方式:</span>
+                  {AVERAGING_MODES.map(m => (
+                    <button
+                      key={m.id}
+                      onClick={() => setAveraging(m.id)}
+                      title={m.description}
+                      className={`px-3 py-1 rounded ${averaging === m.id ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                    >
+                      {m.label}
+                    </button>
+                  ))}
+                </div>
+                {resultSettings && (
+                  <ExportMenu results={slicedResults} aggregates={aggregatesByEngine} engines={slicedEngines} settings={resultSettings} averaging={averaging} />
+                )}
+              </div>
+            </div>
+
+            {slicedEngines.length > 1 && (
+              <>
+                <EngineComparison engines={slicedEngines} results={slicedResults} aggregates={aggregatesByEngine} averaging={averaging} />
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-gray-500">查看引擎详情:</span>
+                  {slicedEngines.map(en => (
+                    <button
+                      key={en.id}
+                      onClick={() => setActiveEngineId(en.id)}
+                      className={`px-3 py-1 rounded-full text-xs font-medium ${detailEngineId === en.id ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                    >
+                      {en.name}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <MetricCard 
                 title="平均字符错误率 (CER)" 
-                value={aggregates.avgCer} 
-                description="越低越好"
-                color={aggregates.avgCer < 0.05 ? 'green' : 'red'}
+                value={averageOf(aggregates, 'avgCer', averaging)} 
+                interval={aggregates.summaries.avgCer.ci95[averaging]}
+                description={spread(aggregates, 'avgCer', '越低越好')}
+                thresholds={globalLevels('cer', rules)}
+                inverse
               />
               <MetricCard 
                 title="平均词错误率 (WER)" 
-                value={aggregates.avgWer} 
-                description="越低越好"
-                color={aggregates.avgWer < 0.1 ? 'green' : 'red'}
+                value={averageOf(aggregates, 'avgWer', averaging)} 
+                interval={aggregates.summaries.avgWer.ci95[averaging]}
+                description={spread(aggregates, 'avgWer', '越低越好')}
+                thresholds={globalLevels('wer', rules)}
+                inverse
               />
               <MetricCard 
                 title="标点符号准确率" 
-                value={aggregates.avgPunc} 
-                description="越高越好"
+                value={averageOf(aggregates, 'avgPunc', averaging)} 
+                interval={aggregates.summaries.avgPunc.ci95[averaging]}
+                description={spread(aggregates, 'avgPunc', '越高越好')}
+                thresholds={globalLevels('punctuation', rules)}
                 color="blue"
               />
             </div>
@@ -235,27 +713,47 @@ const App: React.FC = () => {
               <div className="lg:col-span-2 bg-white p-6 rounded-xl border shadow-sm">
                 <h3 className="text-base font-medium text-gray-900 mb-4">详细数据 (点击行查看差异对比)</h3>
                 <p className="text-xs text-gray-400 mb-2">提示：将鼠标悬停在数值上可查看详细计算过程。</p>
-                <ResultsTable results={results} />
+                <ResultsTable results={detailResults} focus={focusedPair} pageImages={pageImages} rules={rules} />
               </div>
 
-              <div className="bg-white p-6 rounded-xl border shadow-sm">
-                <h3 className="text-base font-medium text-gray-900 mb-4">整体性能概览</h3>
-                {/* Fixed height wrapper for ResponsiveContainer */}
-                <div className="h-[300px] w-full">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={chartData} layout="vertical" margin={{ top: 5, right: 45, left: 40, bottom: 5 }}>
-                      <CartesianGrid strokeDasharray="3 3" horizontal={false} />
-                      <XAxis type="number" domain={[0, 100]} />
-                      <YAxis dataKey="name" type="category" width={110} style={{ fontSize: '11px', fontWeight: 500 }} />
-                      <Tooltip formatter={(val: number) => `${val}%`} />
-                      <Bar dataKey="value" fill="#8884d8" radius={[0, 4, 4, 0]} barSize={30} label={{ position: 'right', fill: '#666', fontSize: 12, formatter: (val:number) => `${val}%` }} />
-                    </BarChart>
-                  </ResponsiveContainer>
+              <div className="space-y-8">
+                <div className="bg-white p-6 rounded-xl border shadow-sm">
+                  <h3 className="text-base font-medium text-gray-900 mb-4">整体性能概览</h3>
+                  {/* Fixed height wrapper for ResponsiveContainer */}
+                  <div className="h-[300px] w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={chartData} layout="vertical" margin={{ top: 5, right: 45, left: 40, bottom: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                        <XAxis type="number" domain={[0, 100]} />
+                        <YAxis dataKey="name" type="category" width={110} style={{ fontSize: '11px', fontWeight: 500 }} />
+                        <Tooltip formatter={(val: number) => `${val}%`} />
+                        <Bar dataKey="value" fill="#8884d8" radius={[0, 4, 4, 0]} barSize={30} label={{ position: 'right', fill: '#666', fontSize: 12, formatter: (val:number) => `${val}%` }} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
                 </div>
+                <CharClassChart results={detailResults} />
               </div>
             </div>
+
+            <DistributionCharts results={detailResults} onSelectPair={(pairId) => setFocusedPair({ pairId })} />
+
+            <TagSlices
+              results={results.filter(r => r.engineId === detailEngineId)}
+              averaging={averaging}
+              selected={activeSlice}
+              onSelect={setSliceTag}
+            />
+
+            <QualityRules rules={rules} onChange={setRules} results={detailResults} />
+
+            <FieldExtractionPanel results={detailResults} onSelectPair={(pairId) => setFocusedPair({ pairId })} />
+
+            <ErrorAnalysisPanel results={detailResults} onSelectPair={(pairId) => setFocusedPair({ pairId })} />
           </div>
         )}
+
+        <RunHistory refreshKey={historyVersion} onLoad={loadRun} />
       </main>
     </div>
   );
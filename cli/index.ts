@@ -0,0 +1,278 @@
+#!/usr/bin/env node
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { AggregateMetrics, AnalysisResult, AnalysisSettings, AveragingMode, EncodingChoice, NormalizationStep, TokenizerId } from '../types';
+import { analyzePair } from '../utils/analysis';
+import { averageOf, computeAggregates } from '../utils/aggregates';
+import { decodeBytes, ENCODINGS } from '../utils/encoding';
+import { resultsToCSV, resultsToJSON } from '../utils/export';
+import { ACCEPTED_FILE_TYPES, parseDocument } from '../utils/formats';
+import { DEFAULT_NORMALIZATION, NORMALIZATION_STEPS } from '../utils/normalization';
+import { DEFAULT_PAIRING_OPTIONS, pairByStem, PairingOptions } from '../utils/pairing';
+import { DEFAULT_PUNCTUATION } from '../utils/punctuation';
+import { DEFAULT_TOKENIZER, TOKENIZERS } from '../utils/tokenizers';
+
+const USAGE = `Usage: ocr-eval --truth <dir> --ocr [name=]<dir> [--ocr …] [options]
+
+Pairs files by name stem exactly like the browser tool and computes the
+same metrics. Exits 1 when a threshold is breached, 2 on bad input.
+
+Input
+  --truth <dir>                 Ground-truth files
+  --ocr [name=]<dir>            OCR outputs of one engine; repeat per engine
+  --strip-suffix <a,b,…>        Stem suffixes to ignore (default: ${DEFAULT_PAIRING_OPTIONS.stripSuffixes.join(',')})
+  --strip-prefix <a,b,…>        Stem prefixes to ignore
+  --case-sensitive              Match stems case-sensitively
+  --encoding <id>               auto | ${ENCODINGS.map(e => e.id).join(' | ')} (default: auto)
+
+Metrics
+  --tokenizer <id>              ${TOKENIZERS.map(t => t.id).join(' | ')} (default: ${DEFAULT_TOKENIZER})
+  --normalize <a,b,…>           ${NORMALIZATION_STEPS.map(s => s.id).join(', ')}
+  --punctuation <marks>         Characters scored by punctuation accuracy
+  --punctuation-width-insensitive
+  --plain-truth                 Score [?], ⟨…⟩, {a|b} and <ignore> in the truth literally
+  --averaging <macro|micro>     Average used by the thresholds (default: macro)
+
+Output
+  --json <file>                 Full results, same format as the browser JSON export
+  --csv <file>                  Per-file metrics, same columns as the browser CSV export
+
+Gates
+  --max-cer <n>  --max-wer <n>  --min-punc <n>       Absolute limits, as fractions (0.05 = 5%)
+  --baseline <file>             JSON export of an earlier run
+  --max-cer-regression <n>  --max-wer-regression <n>  Allowed increase over the baseline
+`;
+
+class UsageError extends Error {}
+
+interface EngineInput {
+  id: string;
+  name: string;
+  dir: string;
+}
+
+interface InputFile {
+  name: string;
+  path: string;
+}
+
+interface Gate {
+  label: string;
+  engineName: string;
+  actual: number;
+  limit: number;
+  passed: boolean;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const list = (value: string | undefined) =>
+  value === undefined ? undefined : value.split(',').map(s => s.trim()).filter(s => s.length > 0);
+
+const fraction = (value: string | undefined, flag: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n)) throw new UsageError(`${flag} expects a number, got "${value}"`);
+  return n;
+};
+
+const readText = async (file: InputFile, encoding: EncodingChoice): Promise<string> => {
+  const { text, encoding: used, replacementCount } = decodeBytes(await readFile(file.path), encoding);
+  if (replacementCount > 0) console.warn(`${file.name}: ${replacementCount} undecodable characters as ${used}`);
+  return text;
+};
+
+const listFiles = async (dir: string): Promise<InputFile[]> => {
+  const extensions = ACCEPTED_FILE_TYPES.split(',');
+  const entries = await readdir(dir, { withFileTypes: true });
+  return entries
+    .filter(e => e.isFile() && extensions.some(ext => e.name.toLowerCase().endsWith(ext)))
+    .map(e => ({ name: e.name, path: join(dir, e.name) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const parseEngines = (values: string[]): EngineInput[] =>
+  values.map((value, i) => {
+    const eq = value.indexOf('=');
+    const dir = eq > 0 ? value.slice(eq + 1) : value;
+    return { id: `engine-${i + 1}`, name: eq > 0 ? value.slice(0, eq) : basename(resolve(dir)), dir };
+  });
+
+/**
+ * Baseline averages per engine name. A single-engine baseline also
+ * matches a single-engine run under a different name.
+ */
+const loadBaseline = async (file: string): Promise<{ name: string; aggregates: AggregateMetrics }[]> => {
+  const data = JSON.parse(await readFile(file, 'utf8'));
+  if (!Array.isArray(data?.engines)) throw new UsageError(`${file} is not a JSON export of this tool`);
+  return data.engines.filter((e: { aggregates?: AggregateMetrics }) => e.aggregates);
+};
+
+const evaluate = async (
+  truthFiles: InputFile[],
+  engine: EngineInput,
+  pairing: PairingOptions,
+  settings: AnalysisSettings,
+  encoding: EncodingChoice
+): Promise<AnalysisResult[]> => {
+  const { pairs, unmatchedTruth, unmatchedOcr } = pairByStem(truthFiles, await listFiles(engine.dir), pairing);
+  if (unmatchedTruth.length > 0) console.warn(`[${engine.name}] no OCR output for: ${unmatchedTruth.map(f => f.name).join(', ')}`);
+  if (unmatchedOcr.length > 0) console.warn(`[${engine.name}] no truth file for: ${unmatchedOcr.map(f => f.name).join(', ')}`);
+
+  const results: AnalysisResult[] = [];
+  for (const [i, pair] of pairs.entries()) {
+    const truth = parseDocument(await readText(pair.truth, encoding), pair.truth.name);
+    const ocr = parseDocument(await readText(pair.ocr, encoding), pair.ocr.name);
+    results.push({
+      pairId: `${engine.id}:pair-${i}-${pair.stem}`,
+      engineId: engine.id,
+      engineName: engine.name,
+      truthFileName: pair.truth.name,
+      ocrFileName: pair.ocr.name,
+      truthFormat: truth.format,
+      ocrFormat: ocr.format,
+      ...(ocr.format !== 'text' && { ocrLines: ocr.lines }),
+      ...analyzePair(truth.text, ocr.text, settings)
+    });
+  }
+  return results;
+};
+
+const OPTIONS = {
+  truth: { type: 'string' },
+  ocr: { type: 'string', multiple: true },
+  'strip-suffix': { type: 'string' },
+  'strip-prefix': { type: 'string' },
+  'case-sensitive': { type: 'boolean' },
+  encoding: { type: 'string' },
+  tokenizer: { type: 'string' },
+  normalize: { type: 'string' },
+  punctuation: { type: 'string' },
+  'punctuation-width-insensitive': { type: 'boolean' },
+  'plain-truth': { type: 'boolean' },
+  averaging: { type: 'string' },
+  json: { type: 'string' },
+  csv: { type: 'string' },
+  'max-cer': { type: 'string' },
+  'max-wer': { type: 'string' },
+  'min-punc': { type: 'string' },
+  baseline: { type: 'string' },
+  'max-cer-regression': { type: 'string' },
+  'max-wer-regression': { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+// Unknown or malformed flags are bad input like any other, not a crash
+const readArgs = () => {
+  try {
+    return parseArgs({ options: OPTIONS }).values;
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+};
+
+const main = async (): Promise<number> => {
+  const values = readArgs();
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!values.truth || !values.ocr?.length) throw new UsageError('--truth and at least one --ocr are required');
+
+  const tokenizer = (values.tokenizer ?? DEFAULT_TOKENIZER) as TokenizerId;
+  if (!TOKENIZERS.some(t => t.id === tokenizer)) throw new UsageError(`Unknown tokenizer "${tokenizer}"`);
+  const normalization = (list(values.normalize) ?? DEFAULT_NORMALIZATION) as NormalizationStep[];
+  const unknownStep = normalization.find(step => !NORMALIZATION_STEPS.some(s => s.id === step));
+  if (unknownStep) throw new UsageError(`Unknown normalization step "${unknownStep}"`);
+  const averaging = (values.averaging ?? 'macro') as AveragingMode;
+  if (averaging !== 'macro' && averaging !== 'micro') throw new UsageError('--averaging must be macro or micro');
+  const encoding = (values.encoding ?? 'auto') as EncodingChoice;
+  if (encoding !== 'auto' && !ENCODINGS.some(e => e.id === encoding)) throw new UsageError(`Unknown encoding "${encoding}"`);
+
+  const settings: AnalysisSettings = {
+    tokenizer,
+    normalization,
+    punctuation: {
+      marks: values.punctuation ?? DEFAULT_PUNCTUATION.marks,
+      widthInsensitive: values['punctuation-width-insensitive'] ?? DEFAULT_PUNCTUATION.widthInsensitive
+    },
+    truthMarkup: !values['plain-truth']
+  };
+  const pairing: PairingOptions = {
+    stripSuffixes: list(values['strip-suffix']) ?? DEFAULT_PAIRING_OPTIONS.stripSuffixes,
+    stripPrefixes: list(values['strip-prefix']) ?? DEFAULT_PAIRING_OPTIONS.stripPrefixes,
+    caseSensitive: values['case-sensitive'] ?? DEFAULT_PAIRING_OPTIONS.caseSensitive
+  };
+
+  // Thresholds and the baseline are checked up front, so a typo fails before any file is analyzed
+  const limits = [
+    { flag: 'max-cer', key: 'avgCer', label: 'CER', max: true },
+    { flag: 'max-wer', key: 'avgWer', label: 'WER', max: true },
+    { flag: 'min-punc', key: 'avgPunc', label: 'Punctuation accuracy', max: false },
+  ] as const;
+  const regressions = [
+    { flag: 'max-cer-regression', key: 'avgCer', label: 'CER regression' },
+    { flag: 'max-wer-regression', key: 'avgWer', label: 'WER regression' },
+  ] as const;
+  const absolute = limits.flatMap(l => {
+    const limit = fraction(values[l.flag], `--${l.flag}`);
+    return limit === undefined ? [] : [{ ...l, limit }];
+  });
+  const relative = regressions.flatMap(r => {
+    const limit = fraction(values[r.flag], `--${r.flag}`);
+    return limit === undefined ? [] : [{ ...r, limit }];
+  });
+  const baseline = values.baseline ? await loadBaseline(values.baseline) : [];
+
+  const engines = parseEngines(values.ocr);
+  const truthFiles = await listFiles(values.truth);
+  const results: AnalysisResult[] = [];
+  for (const engine of engines) results.push(...await evaluate(truthFiles, engine, pairing, settings, encoding));
+  if (results.length === 0) throw new UsageError('No truth/OCR file pairs found');
+
+  const aggregates: Record<string, AggregateMetrics> = {};
+  for (const engine of engines) {
+    const agg = computeAggregates(results.filter(r => r.engineId === engine.id));
+    if (agg) aggregates[engine.id] = agg;
+  }
+  const context = { results, aggregates, engines, settings, averaging };
+  if (values.json) await writeFile(values.json, resultsToJSON(context));
+  if (values.csv) await writeFile(values.csv, resultsToCSV(results));
+
+  const gates: Gate[] = [];
+
+  for (const engine of engines) {
+    const agg = aggregates[engine.id];
+    if (!agg) continue;
+    console.log(`${engine.name}: ${agg.fileCount} files · CER ${percent(averageOf(agg, 'avgCer', averaging))}`
+      + ` · WER ${percent(averageOf(agg, 'avgWer', averaging))} · Punctuation ${percent(averageOf(agg, 'avgPunc', averaging))} (${averaging})`);
+
+    for (const { key, label, max, limit } of absolute) {
+      const actual = averageOf(agg, key, averaging);
+      gates.push({ label, engineName: engine.name, actual, limit, passed: max ? actual <= limit : actual >= limit });
+    }
+
+    const base = baseline.find(b => b.name === engine.name) ?? (baseline.length === 1 && engines.length === 1 ? baseline[0] : undefined);
+    if (values.baseline && !base) console.warn(`[${engine.name}] not found in the baseline`);
+    for (const { key, label, limit } of relative) {
+      if (!base) continue;
+      const previous = base.aggregates.summaries ? averageOf(base.aggregates, key, averaging) : base.aggregates[key];
+      const actual = averageOf(agg, key, averaging) - previous;
+      gates.push({ label, engineName: engine.name, actual, limit, passed: actual <= limit });
+    }
+  }
+
+  for (const gate of gates) {
+    console.log(`${gate.passed ? 'PASS' : 'FAIL'}  ${gate.engineName} ${gate.label}: ${percent(gate.actual)} (limit ${percent(gate.limit)})`);
+  }
+  return gates.every(g => g.passed) ? 0 : 1;
+};
+
+main()
+  .then(code => { process.exitCode = code; })
+  .catch(err => {
+    console.error(err instanceof UsageError ? `${err.message}\n\n${USAGE}` : err);
+    process.exitCode = 2;
+  });
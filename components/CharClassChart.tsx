@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { AnalysisResult, CharClassMetrics } from '../types';
+import { CHAR_CLASSES, classEdits, SPACE_ADJACENT_LABEL, sumCharClasses } from '../utils/charClasses';
+
+interface CharClassChartProps {
+  results: AnalysisResult[]; // One engine's documents
+}
+
+// Worst documents shown under the overall bar
+const MAX_DOCUMENTS = 10;
+
+interface Row {
+  name: string;
+  metrics: CharClassMetrics;
+  [classId: string]: number | string | CharClassMetrics;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+// Each segment is the class's share of the overall CER, so a bar adds up to the CER
+const toRow = (name: string, metrics: CharClassMetrics): Row => {
+  const truthTotal = CHAR_CLASSES.reduce((sum, c) => sum + metrics.classes[c.id].truthCount, 0);
+  const row: Row = { name, metrics };
+  for (const c of CHAR_CLASSES) {
+    const edits = classEdits(metrics.classes[c.id]);
+    row[c.id] = truthTotal === 0 ? 0 : parseFloat(((edits / truthTotal) * 100).toFixed(3));
+  }
+  return row;
+};
+
+const ClassTooltip: React.FC<{ active?: boolean; payload?: { payload: Row }[] }> = ({ active, payload }) => {
+  if (!active || !payload?.length) return null;
+  const { name, metrics } = payload[0].payload;
+  const lines = [
+    ...CHAR_CLASSES.map(c => ({ label: c.label, color: c.color, stats: metrics.classes[c.id] })),
+    { label: SPACE_ADJACENT_LABEL, color: undefined, stats: metrics.spaceAdjacent },
+  ].filter(l => l.stats.truthCount > 0 || classEdits(l.stats) > 0);
+
+  return (
+    <div className="p-3 bg-slate-800 text-white text-xs rounded-lg shadow-xl">
+      <div className="font-bold mb-1 border-b border-slate-600 pb-1 max-w-xs truncate">{name}</div>
+      <div className="grid grid-cols-[auto_auto_auto] gap-x-3 gap-y-0.5 tabular-nums">
+        {lines.map(l => (
+          <React.Fragment key={l.label}>
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: l.color ?? 'transparent', border: l.color ? undefined : '1px solid #94a3b8' }} />
+              {l.label}
+            </span>
+            <span className="text-right text-amber-300">CER {percent(l.stats.cer)}</span>
+            <span className="text-right text-slate-400">{classEdits(l.stats)} / {l.stats.truthCount}</span>
+          </React.Fragment>
+        ))}
+      </div>
+      <div className="mt-1 text-slate-400">{SPACE_ADJACENT_LABEL}与其他类别重叠，不计入堆叠。</div>
+    </div>
+  );
+};
+
+export const CharClassChart: React.FC<CharClassChartProps> = ({ results }) => {
+  const rows = useMemo(() => {
+    const withClasses = results.filter((r): r is AnalysisResult & { charClasses: CharClassMetrics } => !!r.charClasses);
+    if (withClasses.length === 0) return [];
+    const worst = [...withClasses].sort((a, b) => b.cer.score - a.cer.score).slice(0, MAX_DOCUMENTS);
+    return [
+      toRow('总体 (微平均)', sumCharClasses(withClasses.map(r => r.charClasses))),
+      ...worst.map(r => toRow(r.truthFileName, r.charClasses)),
+    ];
+  }, [results]);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-xl border shadow-sm">
+      <h3 className="text-base font-medium text-gray-900 mb-1">字符类别错误构成</h3>
+      <p className="text-xs text-gray-400 mb-4">各段为该类字符的编辑数占真值总字符数的比例，合计即为 CER；下方为 CER 最高的文档。</p>
+      <div className="w-full" style={{ height: 80 + rows.length * 32 }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={rows} layout="vertical" margin={{ top: 5, right: 20, left: 40, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+            <XAxis type="number" unit="%" />
+            <YAxis dataKey="name" type="category" width={110} style={{ fontSize: '11px' }} />
+            <Tooltip content={<ClassTooltip />} />
+            <Legend wrapperStyle={{ fontSize: '11px' }} />
+            {CHAR_CLASSES.map(c => (
+              <Bar key={c.id} dataKey={c.id} name={c.label} stackId="cer" fill={c.color} barSize={18} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useRef } from 'react';
+import { DiffItem, DiffType, MarkupKind, TokenizerId } from '../types';
+
+interface DiffRun {
+  type: DiffType;
+  truth: string;
+  ocr: string;
+  markup?: MarkupKind;
+  alternatives?: string[];
+}
+
+/**
+ * Merges consecutive diff items of the same type so long character
+ * diffs render as a few hundred spans instead of one per character.
+ * Markup spans are kept apart so each keeps its own label.
+ */
+const groupRuns = (diffs: DiffItem[]): DiffRun[] => {
+  const runs: DiffRun[] = [];
+  for (const item of diffs) {
+    const last = runs[runs.length - 1];
+    if (last && last.type === item.type && last.type !== 'excluded' && last.alternatives === item.alternatives) {
+      last.truth += item.truth || '';
+      last.ocr += item.ocr || '';
+    } else {
+      runs.push({ type: item.type, truth: item.truth || '', ocr: item.ocr || '', markup: item.markup, alternatives: item.alternatives });
+    }
+  }
+  return runs;
+};
+
+// Spans ground-truth markup took out of the scoring
+const EXCLUDED_CLASS = 'bg-slate-100 text-slate-500 border border-dashed border-slate-300 rounded';
+
+const ALTERNATIVE_CLASS = 'underline decoration-dotted decoration-violet-500 decoration-2';
+
+const markupTitle = ({ markup, truth, ocr, alternatives }: Pick<DiffItem, 'markup' | 'truth' | 'ocr' | 'alternatives'>): string | undefined => {
+  switch (markup) {
+    case 'wildcard': return `无法辨认 ${truth} (不计分)${ocr ? `，OCR 识别为: ${ocr}` : ''}`;
+    case 'ignore': return `忽略区域 (不计分): ${truth}${ocr ? `，OCR 识别为: ${ocr}` : ''}`;
+    case 'alternative': return `可接受的写法: ${alternatives?.join(' | ')}`;
+    default: return undefined;
+  }
+};
+
+export const DiffLegend: React.FC = () => (
+  <div className="mb-2 text-xs text-gray-500 flex gap-4">
+     <span className="flex items-center gap-1"><span className="w-2 h-2 bg-green-500 rounded-full"></span>匹配</span>
+     <span className="flex items-center gap-1"><span className="w-2 h-2 bg-red-500 rounded-full"></span>漏读 (Deletion)</span>
+     <span className="flex items-center gap-1"><span className="w-2 h-2 bg-red-700 rounded-full"></span>多读 (Insertion)</span>
+     <span className="flex items-center gap-1"><span className="w-2 h-2 bg-orange-500 rounded-full"></span>错误替换 (Substitution)</span>
+     <span className="flex items-center gap-1"><span className="w-2 h-2 bg-slate-300 rounded-full"></span>标记不计分</span>
+     <span className="flex items-center gap-1"><span className={ALTERNATIVE_CLASS}>abc</span>可选写法</span>
+  </div>
+);
+
+interface WordDiffProps {
+  diffs: DiffItem[];
+  tokenizer: TokenizerId;
+  onSelect?: (index: number) => void; // Makes tokens clickable, e.g. to locate them on the page image
+  selected?: number | null;
+  highlighted?: Set<number>; // Items hit by a search
+}
+
+export const WordDiff: React.FC<WordDiffProps> = ({ diffs, tokenizer, onSelect, selected, highlighted }) => {
+  // Space-separated words need visible gaps; CJK tokens read better packed together
+  const gap = tokenizer === 'whitespace' ? 'gap-1.5' : 'gap-0.5';
+  const pick = (idx: number) => ({ onClick: onSelect && (() => onSelect(idx)) });
+  const pickClass = (idx: number) =>
+    `${onSelect ? 'cursor-pointer hover:ring-1 hover:ring-blue-300' : ''} ${selected === idx ? 'ring-2 ring-blue-500' : ''} ${highlighted?.has(idx) ? 'outline outline-2 outline-yellow-400' : ''}`;
+  return (
+    <div className={`flex flex-wrap ${gap} text-sm leading-relaxed p-4 bg-gray-50 rounded border border-gray-200 font-mono`}>
+      {diffs.map((item, idx) => {
+        const alternative = item.alternatives ? ALTERNATIVE_CLASS : '';
+        if (item.type === 'excluded') {
+          return (
+            <span key={idx} {...pick(idx)} className={`${EXCLUDED_CLASS} px-1 flex flex-col items-center justify-center leading-none py-1 mx-1 ${pickClass(idx)}`} title={markupTitle(item)}>
+              <span className="text-[10px] opacity-70 mb-0.5 max-w-[12rem] truncate">{item.truth}</span>
+              <span>{item.ocr || '∅'}</span>
+            </span>
+          );
+        }
+        if (item.type === 'match') {
+          return <span key={idx} {...pick(idx)} className={`text-gray-600 rounded ${alternative} ${pickClass(idx)}`} title={markupTitle(item)}>{item.truth}</span>;
+        }
+        if (item.type === 'deletion') {
+          return (
+            <span key={idx} {...pick(idx)} className={`bg-red-100 text-red-700 px-1 rounded line-through decoration-red-500 ${pickClass(idx)}`} title={markupTitle(item) ?? '漏读'}>
+              {item.truth}
+            </span>
+          );
+        }
+        if (item.type === 'insertion') {
+          return (
+            <span key={idx} {...pick(idx)} className={`bg-red-100 text-red-700 px-1 rounded font-bold border border-red-200 ${pickClass(idx)}`} title="多读">
+              {item.ocr}
+            </span>
+          );
+        }
+        if (item.type === 'substitution') {
+          return (
+            <span key={idx} {...pick(idx)} className={`bg-orange-100 text-orange-800 px-1 rounded border border-orange-200 flex flex-col items-center justify-center leading-none py-1 mx-1 ${pickClass(idx)}`} title={markupTitle(item) ?? '错误替换'}>
+               <span className={`line-through text-[10px] opacity-60 mb-0.5 ${alternative}`}>{item.truth}</span>
+               <span className="font-bold">{item.ocr}</span>
+            </span>
+          );
+        }
+        return null;
+      })}
+    </div>
+  );
+};
+
+/**
+ * Inline character diff: errors are highlighted in place within the running text.
+ */
+export const CharDiff: React.FC<{ diffs: DiffItem[] }> = ({ diffs }) => (
+  <div className="text-sm leading-loose p-4 bg-gray-50 rounded border border-gray-200 font-mono whitespace-pre-wrap break-all max-h-96 overflow-y-auto">
+    {groupRuns(diffs).map((run, idx) => {
+      if (run.type === 'excluded') {
+        return <span key={idx} className={`${EXCLUDED_CLASS} px-0.5`} title={markupTitle(run)}>{run.ocr || run.truth}</span>;
+      }
+      if (run.type === 'match') {
+        return <span key={idx} className={`text-gray-600 ${run.alternatives ? ALTERNATIVE_CLASS : ''}`} title={markupTitle(run)}>{run.truth}</span>;
+      }
+      if (run.type === 'deletion') {
+        return <span key={idx} className="bg-red-100 text-red-700 line-through decoration-red-500" title="漏读">{run.truth}</span>;
+      }
+      if (run.type === 'insertion') {
+        return <span key={idx} className="bg-red-200 text-red-800 font-bold underline" title="多读">{run.ocr}</span>;
+      }
+      return (
+        <span key={idx} title={`错误替换: ${run.truth} → ${run.ocr}`}>
+          <span className="bg-orange-50 text-orange-400 line-through">{run.truth}</span>
+          <span className="bg-orange-100 text-orange-800 font-bold">{run.ocr}</span>
+        </span>
+      );
+    })}
+  </div>
+);
+
+/**
+ * Truth and OCR side by side, each marking its own half of the edit script.
+ * The panes scroll together.
+ */
+export const SideBySideDiff: React.FC<{ diffs: DiffItem[] }> = ({ diffs }) => {
+  const truthRef = useRef<HTMLDivElement>(null);
+  const ocrRef = useRef<HTMLDivElement>(null);
+  // Set while we move the other pane, so its scroll event doesn't echo back
+  const syncing = useRef(false);
+
+  const syncScroll = (source: HTMLDivElement | null, target: HTMLDivElement | null) => {
+    if (!source || !target) return;
+    if (syncing.current) {
+      syncing.current = false;
+      return;
+    }
+    const sourceRange = source.scrollHeight - source.clientHeight;
+    const ratio = sourceRange > 0 ? source.scrollTop / sourceRange : 0;
+    const next = Math.round(ratio * (target.scrollHeight - target.clientHeight));
+    if (next === Math.round(target.scrollTop)) return;
+    syncing.current = true;
+    target.scrollTop = next;
+  };
+
+  const runs = groupRuns(diffs);
+  const paneClass = 'text-sm leading-loose p-4 bg-gray-50 rounded border border-gray-200 font-mono whitespace-pre-wrap break-all h-80 overflow-y-auto';
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <div className="mb-1 text-xs text-gray-500">真值文本</div>
+        <div ref={truthRef} className={paneClass} onScroll={() => syncScroll(truthRef.current, ocrRef.current)}>
+          {runs.map((run, idx) => {
+            if (run.type === 'insertion') return null;
+            if (run.type === 'excluded') return <span key={idx} className={EXCLUDED_CLASS} title={markupTitle(run)}>{run.truth}</span>;
+            if (run.type === 'match') return <span key={idx} className={`text-gray-600 ${run.alternatives ? ALTERNATIVE_CLASS : ''}`} title={markupTitle(run)}>{run.truth}</span>;
+            if (run.type === 'deletion') return <span key={idx} className="bg-red-100 text-red-700" title="漏读">{run.truth}</span>;
+            return <span key={idx} className="bg-orange-100 text-orange-800" title={`被识别为: ${run.ocr}`}>{run.truth}</span>;
+          })}
+        </div>
+      </div>
+      <div>
+        <div className="mb-1 text-xs text-gray-500">OCR 识别文本</div>
+        <div ref={ocrRef} className={paneClass} onScroll={() => syncScroll(ocrRef.current, truthRef.current)}>
+          {runs.map((run, idx) => {
+            if (run.type === 'deletion') return null;
+            if (run.type === 'excluded') return run.ocr ? <span key={idx} className={EXCLUDED_CLASS} title={markupTitle(run)}>{run.ocr}</span> : null;
+            if (run.type === 'match') return <span key={idx} className="text-gray-600">{run.ocr}</span>;
+            if (run.type === 'insertion') return <span key={idx} className="bg-red-200 text-red-800 font-bold" title="多读">{run.ocr}</span>;
+            return <span key={idx} className="bg-orange-100 text-orange-800 font-bold" title={`真值为: ${run.truth}`}>{run.ocr}</span>;
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  LineChart,
+  Line,
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { AnalysisResult } from '../types';
+import { DISTRIBUTION_METRICS, DistributionMetric, DocumentPoint, documentPoints, histogram } from '../utils/distribution';
+
+interface DistributionChartsProps {
+  results: AnalysisResult[]; // One engine's documents
+  onSelectPair: (pairId: string) => void;
+}
+
+const WORST_COUNTS = [10, 20, 50];
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+// Chart rows carry the document plus its score as a percentage for the axes
+type PointRow = DocumentPoint & { pct: number; cumulative: number };
+
+const DocumentTooltip: React.FC<{ active?: boolean; payload?: { payload: PointRow }[]; metricLabel: string }> = ({ active, payload, metricLabel }) => {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload;
+  return (
+    <div className="p-2 bg-slate-800 text-white text-xs rounded-lg shadow-xl">
+      <div className="font-bold mb-1 max-w-xs truncate">{point.name}</div>
+      <div className="tabular-nums">{metricLabel} <span className="text-amber-300">{percent(point.value)}</span> · 真值 {point.length} 字符</div>
+      <div className="tabular-nums text-slate-400">{(point.fraction * 100).toFixed(1)}% 的文档不高于此值 · 点击查看差异</div>
+    </div>
+  );
+};
+
+/**
+ * Per-document spread of the error rate: histogram, cumulative curve,
+ * length scatter and the worst documents. Clicking a document opens its
+ * diff in the results table; a histogram bar lists the documents in it.
+ */
+export const DistributionCharts: React.FC<DistributionChartsProps> = ({ results, onSelectPair }) => {
+  const [metric, setMetric] = useState<DistributionMetric>('cer');
+  const [selectedBin, setSelectedBin] = useState<number | null>(null);
+  const [worstCount, setWorstCount] = useState(WORST_COUNTS[0]);
+
+  const bins = useMemo(() => histogram(results, metric), [results, metric]);
+  const points: PointRow[] = useMemo(
+    () => documentPoints(results, metric).map(p => ({ ...p, pct: parseFloat((p.value * 100).toFixed(2)), cumulative: p.fraction * 100 })),
+    [results, metric]
+  );
+  const worst = useMemo(() => [...points].reverse().slice(0, worstCount), [points, worstCount]);
+  const byId = useMemo(() => new Map(points.map(p => [p.pairId, p])), [points]);
+
+  if (results.length === 0) return null;
+
+  const metricLabel = DISTRIBUTION_METRICS.find(m => m.id === metric)!.label;
+  const bin = selectedBin !== null ? bins[selectedBin] : undefined;
+  const tooltip = <DocumentTooltip metricLabel={metricLabel} />;
+  const openPoint = (row?: { payload?: PointRow }) => row?.payload && onSelectPair(row.payload.pairId);
+
+  return (
+    <div className="bg-white p-6 rounded-xl border shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-base font-medium text-gray-900">逐文档分布</h3>
+          <p className="text-xs text-gray-400">平均值会掩盖长尾；点击图中的文档可在详细数据中打开其差异对比。</p>
+        </div>
+        <div className="flex items-center gap-1 text-xs">
+          {DISTRIBUTION_METRICS.map(m => (
+            <button
+              key={m.id}
+              onClick={() => { setMetric(m.id); setSelectedBin(null); }}
+              className={`px-3 py-1 rounded ${metric === m.id ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-xs font-semibold text-gray-500 uppercase mb-2">{metricLabel} 直方图 (文档数)</h4>
+          <div className="h-[220px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={bins} margin={{ top: 5, right: 10, left: -10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="label" style={{ fontSize: '10px' }} interval="preserveStartEnd" />
+                <YAxis allowDecimals={false} style={{ fontSize: '11px' }} />
+                <Tooltip formatter={(val: number) => [`${val} 个文档`, metricLabel]} />
+                <Bar dataKey="count" cursor="pointer" onClick={(_, index) => setSelectedBin(index === selectedBin ? null : index)}>
+                  {bins.map((b, i) => <Cell key={b.label} fill={i === selectedBin ? '#1d4ed8' : '#60a5fa'} />)}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          {bin && (
+            <div className="mt-2 flex flex-wrap gap-1 max-h-24 overflow-y-auto">
+              <span className="text-xs text-gray-500">{metricLabel} {bin.label}:</span>
+              {bin.pairIds.length === 0 && <span className="text-xs text-gray-400">无文档</span>}
+              {bin.pairIds.map(id => (
+                <button
+                  key={id}
+                  onClick={() => onSelectPair(id)}
+                  className="px-2 py-0.5 rounded bg-white border border-blue-200 text-xs text-blue-700 hover:bg-blue-100"
+                >
+                  {byId.get(id)?.name ?? id} · {percent(byId.get(id)?.value ?? 0)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-xs font-semibold text-gray-500 uppercase mb-2">累积分布 (不高于该 {metricLabel} 的文档比例)</h4>
+          <div className="h-[220px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                data={points}
+                margin={{ top: 5, right: 10, left: -10, bottom: 5 }}
+                onClick={(state) => state?.activePayload?.[0] && openPoint(state.activePayload[0])}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="pct" type="number" unit="%" domain={[0, 'auto']} style={{ fontSize: '11px' }} />
+                <YAxis dataKey="cumulative" unit="%" domain={[0, 100]} style={{ fontSize: '11px' }} />
+                <Tooltip content={tooltip} />
+                <Line type="stepAfter" dataKey="cumulative" stroke="#ef4444" dot={false} activeDot={{ r: 5, cursor: 'pointer' }} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-xs font-semibold text-gray-500 uppercase mb-2">文档长度与 {metricLabel}</h4>
+          <div className="h-[220px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 5, right: 10, left: -10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="length" type="number" name="真值长度" style={{ fontSize: '11px' }} />
+                <YAxis dataKey="pct" type="number" unit="%" style={{ fontSize: '11px' }} />
+                <Tooltip content={tooltip} cursor={{ strokeDasharray: '3 3' }} />
+                <Scatter data={points} fill="#f97316" cursor="pointer" onClick={openPoint} isAnimationActive={false} />
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-xs font-semibold text-gray-500 uppercase">{metricLabel} 最高的文档</h4>
+            <select value={worstCount} onChange={(e) => setWorstCount(Number(e.target.value))} className="border rounded px-1 py-0.5 text-xs bg-white">
+              {WORST_COUNTS.map(n => <option key={n} value={n}>前 {n} 个</option>)}
+            </select>
+          </div>
+          <div className="max-h-[420px] overflow-y-auto">
+            <div className="w-full" style={{ height: 30 + worst.length * 22 }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={worst} layout="vertical" margin={{ top: 5, right: 40, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                  <XAxis type="number" unit="%" style={{ fontSize: '11px' }} />
+                  <YAxis dataKey="name" type="category" width={120} style={{ fontSize: '10px' }} interval={0} />
+                  <Tooltip content={tooltip} />
+                  <Bar
+                    dataKey="pct"
+                    fill="#ef4444"
+                    barSize={14}
+                    cursor="pointer"
+                    onClick={openPoint}
+                    label={{ position: 'right', fill: '#666', fontSize: 10, formatter: (val: number) => `${val}%` }}
+                  />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+import { TextEncoding } from '../types';
+import { ENCODINGS } from '../utils/encoding';
+
+interface EncodingSelectProps {
+  value: TextEncoding | null; // null = the default option
+  defaultLabel: string;
+  onChange: (value: TextEncoding | null) => void;
+  warning?: string; // Highlights the select, e.g. when decoding produced replacement characters
+  className?: string;
+}
+
+export const EncodingSelect: React.FC<EncodingSelectProps> = ({ value, defaultLabel, onChange, warning, className = '' }) => (
+  <select
+    value={value ?? ''}
+    onChange={(e) => onChange((e.target.value || null) as TextEncoding | null)}
+    title={warning ?? '文本编码'}
+    className={`border rounded px-1 py-0.5 text-xs ${warning ? 'border-amber-400 bg-amber-50 text-amber-800' : 'bg-white text-gray-600'} ${className}`}
+  >
+    <option value="">{defaultLabel}</option>
+    {ENCODINGS.map(e => (
+      <option key={e.id} value={e.id}>{e.label}</option>
+    ))}
+  </select>
+);
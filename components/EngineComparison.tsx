@@ -0,0 +1,155 @@
+import React from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { AggregateMetrics, AnalysisResult, AverageKey, AveragingMode, OcrEngineSet } from '../types';
+import { compareEngines, DISAGREEMENT_THRESHOLD } from '../utils/comparison';
+import { averageOf } from '../utils/aggregates';
+import { MetricCard } from './MetricCard';
+
+const ENGINE_COLORS = ['#3b82f6', '#f97316', '#10b981', '#8b5cf6', '#ef4444', '#eab308'];
+
+interface EngineComparisonProps {
+  engines: OcrEngineSet[];
+  results: AnalysisResult[];
+  aggregates: Record<string, AggregateMetrics>;
+  averaging: AveragingMode;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+export const EngineComparison: React.FC<EngineComparisonProps> = ({ engines, results, aggregates, averaging }) => {
+  const rows = compareEngines(results, engines);
+
+  const value = (engineId: string, key: AverageKey) => averageOf(aggregates[engineId], key, averaging);
+
+  const metrics: { key: AverageKey; title: string; description: string; higherIsBetter: boolean }[] = [
+    { key: 'avgCer', title: '平均字符错误率 (CER)', description: '越低越好', higherIsBetter: false },
+    { key: 'avgWer', title: '平均词错误率 (WER)', description: '越低越好', higherIsBetter: false },
+    { key: 'avgPunc', title: '标点符号准确率', description: '越高越好', higherIsBetter: true },
+  ];
+
+  const bestEngineFor = (key: AverageKey, higherIsBetter: boolean) => {
+    const values = engines.map(e => value(e.id, key));
+    const best = higherIsBetter ? Math.max(...values) : Math.min(...values);
+    return engines.find(e => value(e.id, key) === best)?.id;
+  };
+
+  const chartData = metrics.map(m => {
+    const entry: Record<string, string | number> = { name: m.title };
+    for (const e of engines) entry[e.id] = parseFloat((value(e.id, m.key) * 100).toFixed(2));
+    return entry;
+  });
+
+  const disagreements = rows.filter(r => r.disagreement).length;
+
+  return (
+    <div className="space-y-8">
+      <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${engines.length}, minmax(0, 1fr))` }}>
+        {engines.map(engine => (
+          <div key={engine.id} className="space-y-3">
+            <h3 className="text-sm font-semibold text-gray-900 text-center">{engine.name}</h3>
+            {metrics.map(m => (
+              <MetricCard
+                key={m.key}
+                title={m.title}
+                value={value(engine.id, m.key)}
+                interval={aggregates[engine.id].summaries[m.key].ci95[averaging]}
+                description={bestEngineFor(m.key, m.higherIsBetter) === engine.id ? `${m.description} · 最佳` : m.description}
+                color={bestEngineFor(m.key, m.higherIsBetter) === engine.id ? 'green' : 'blue'}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white p-6 rounded-xl border shadow-sm">
+        <h3 className="text-base font-medium text-gray-900 mb-4">引擎对比概览</h3>
+        <div className="h-[300px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="name" style={{ fontSize: '11px', fontWeight: 500 }} />
+              <YAxis domain={[0, 100]} unit="%" />
+              <Tooltip formatter={(val: number) => `${val}%`} />
+              <Legend />
+              {engines.map((engine, i) => (
+                <Bar
+                  key={engine.id}
+                  dataKey={engine.id}
+                  name={engine.name}
+                  fill={ENGINE_COLORS[i % ENGINE_COLORS.length]}
+                  radius={[4, 4, 0, 0]}
+                />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl border shadow-sm">
+        <h3 className="text-base font-medium text-gray-900 mb-1">逐文档对比</h3>
+        <p className="text-xs text-gray-400 mb-3">
+          绿色为该文档 CER 最低的引擎；各引擎 CER 相差超过 {percent(DISAGREEMENT_THRESHOLD)} 的文档标记为“差异大” (共 {disagreements} 个)。
+        </p>
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200 bg-white text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th rowSpan={2} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">真值文件</th>
+                {engines.map(e => (
+                  <th key={e.id} colSpan={3} className="px-4 py-2 text-center text-xs font-medium text-gray-700 border-l">{e.name}</th>
+                ))}
+              </tr>
+              <tr>
+                {engines.map(e => (
+                  <React.Fragment key={e.id}>
+                    <th className="px-3 py-1 text-right text-xs font-medium text-gray-500 border-l">CER</th>
+                    <th className="px-3 py-1 text-right text-xs font-medium text-gray-500">WER</th>
+                    <th className="px-3 py-1 text-right text-xs font-medium text-gray-500">标点</th>
+                  </React.Fragment>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map(row => (
+                <tr key={row.truthFileName} className={row.disagreement ? 'bg-amber-50' : ''}>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-900">
+                    {row.truthFileName}
+                    {row.disagreement && (
+                      <span className="ml-2 px-1.5 py-0.5 rounded bg-amber-200 text-amber-800 text-[10px]" title={`CER 相差 ${percent(row.cerSpread)}`}>
+                        差异大
+                      </span>
+                    )}
+                  </td>
+                  {engines.map(e => {
+                    const res = row.byEngine[e.id];
+                    const best = row.bestEngineId === e.id;
+                    const cellClass = `px-3 py-2 text-right tabular-nums ${best ? 'bg-green-50 text-green-800 font-semibold' : 'text-gray-700'}`;
+                    if (!res) {
+                      return <td key={e.id} colSpan={3} className="px-3 py-2 text-center text-gray-400 border-l">—</td>;
+                    }
+                    return (
+                      <React.Fragment key={e.id}>
+                        <td className={`${cellClass} border-l`}>{percent(res.cer.score)}</td>
+                        <td className={cellClass}>{percent(res.wer.score)}</td>
+                        <td className={cellClass}>{percent(res.punctuationAccuracy.score)}</td>
+                      </React.Fragment>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
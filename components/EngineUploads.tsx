@@ -0,0 +1,72 @@
+import React from 'react';
+import { EncodingChoice, OcrEngineSet, OcrProviderConfig } from '../types';
+import { ACCEPTED_FILE_TYPES, SUPPORTED_FORMATS_HINT } from '../utils/formats';
+import { DEFAULT_PROVIDER } from '../utils/ocrProvider';
+import { EncodingSelect } from './EncodingSelect';
+import { OcrProviderSettings } from './OcrProviderSettings';
+
+interface EngineUploadsProps {
+  engines: OcrEngineSet[];
+  onRename: (id: string, name: string) => void;
+  onUpload: (id: string, files: File[]) => void;
+  onEncodingChange: (id: string, encoding: EncodingChoice) => void;
+  onProviderChange: (id: string, provider: OcrProviderConfig | undefined) => void;
+  onRemove: (id: string) => void;
+  onAdd: () => void;
+}
+
+export const EngineUploads: React.FC<EngineUploadsProps> = ({ engines, onRename, onUpload, onEncodingChange, onProviderChange, onRemove, onAdd }) => (
+  <div className="space-y-3">
+    <div className="flex items-center justify-between">
+      <label className="block text-sm font-medium text-gray-700">OCR 识别结果文件</label>
+      <button onClick={onAdd} className="text-xs text-blue-600 hover:underline">+ 添加 OCR 引擎</button>
+    </div>
+    {engines.map(engine => (
+      <div key={engine.id} className="space-y-1">
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={engine.name}
+            onChange={(e) => onRename(engine.id, e.target.value)}
+            className="flex-1 border rounded px-2 py-1 text-xs"
+            placeholder="引擎名称，如 Tesseract"
+          />
+          <select
+            value={engine.provider ? 'provider' : 'files'}
+            onChange={(e) => onProviderChange(engine.id, e.target.value === 'provider' ? DEFAULT_PROVIDER : undefined)}
+            className="border rounded px-2 py-1 text-xs bg-white"
+            title="上传已有的识别结果，或把页面图像发送到 OCR 接口识别"
+          >
+            <option value="files">上传结果文件</option>
+            <option value="provider">调用 OCR 接口</option>
+          </select>
+          {!engine.provider && (
+            <EncodingSelect
+              value={engine.encoding && engine.encoding !== 'auto' ? engine.encoding : null}
+              defaultLabel="自动检测编码"
+              onChange={(encoding) => onEncodingChange(engine.id, encoding ?? 'auto')}
+            />
+          )}
+          {engines.length > 1 && (
+            <button onClick={() => onRemove(engine.id)} className="text-xs text-red-600 hover:underline">移除</button>
+          )}
+        </div>
+        {engine.provider ? (
+          <OcrProviderSettings config={engine.provider} onChange={(provider) => onProviderChange(engine.id, provider)} />
+        ) : (
+          <label className={`flex flex-col items-center justify-center w-full ${engines.length > 1 ? 'h-16' : 'h-32'} border-2 border-blue-300 border-dashed rounded-lg cursor-pointer bg-blue-50 hover:bg-blue-100 transition-colors`}>
+            <p className="text-sm text-blue-500"><span className="font-semibold">点击上传</span> {engine.name || 'OCR'} 结果</p>
+            <p className="text-xs text-blue-500">{SUPPORTED_FORMATS_HINT} · 已选择 {engine.files.length} 个文件</p>
+            <input
+              type="file"
+              className="hidden"
+              multiple
+              accept={ACCEPTED_FILE_TYPES}
+              onChange={(e) => e.target.files && onUpload(engine.id, Array.from(e.target.files))}
+            />
+          </label>
+        )}
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { AnalysisResult } from '../types';
+import { analyzeErrors, ErrorEntry, ErrorLevel, pairKey } from '../utils/errorAnalysis';
+
+interface ErrorAnalysisPanelProps {
+  results: AnalysisResult[];
+  onSelectPair: (pairId: string) => void;
+}
+
+const TOP_N = 15;
+
+const EMPTY_LABEL = '∅';
+
+export const ErrorAnalysisPanel: React.FC<ErrorAnalysisPanelProps> = ({ results, onSelectPair }) => {
+  const [level, setLevel] = useState<ErrorLevel>('char');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const analysis = useMemo(() => analyzeErrors(results, level), [results, level]);
+  const fileNames = useMemo(() => new Map(results.map(r => [r.pairId, r.truthFileName])), [results]);
+
+  // Same shape as a confusion-matrix cell, so cells and list entries select the same thing
+  const entryId = (e: ErrorEntry) => pairKey(e.truth ?? '', e.ocr ?? '');
+
+  const allEntries = [...analysis.substitutions, ...analysis.deletions, ...analysis.insertions];
+  const selected = allEntries.find(e => entryId(e) === selectedKey) || null;
+
+  const renderList = (title: string, entries: ErrorEntry[], render: (e: ErrorEntry) => React.ReactNode) => (
+    <div>
+      <h4 className="text-xs font-semibold text-gray-500 uppercase mb-2">{title}</h4>
+      {entries.length === 0 && <p className="text-xs text-gray-400">无</p>}
+      <ol className="space-y-1">
+        {entries.slice(0, TOP_N).map((e, i) => (
+          <li key={e.key}>
+            <button
+              onClick={() => setSelectedKey(selectedKey === entryId(e) ? null : entryId(e))}
+              className={`w-full flex items-center justify-between gap-2 px-2 py-1 rounded text-sm text-left ${selectedKey === entryId(e) ? 'bg-blue-100 ring-1 ring-blue-300' : 'hover:bg-gray-50'}`}
+            >
+              <span className="flex items-center gap-2 min-w-0">
+                <span className="text-xs text-gray-400 w-5 text-right">{i + 1}.</span>
+                <span className="font-mono truncate">{render(e)}</span>
+              </span>
+              <span className="text-xs text-gray-500 tabular-nums">×{e.count}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+
+  const { confusion } = analysis;
+  const cellColor = (count: number) => {
+    if (count === 0 || confusion.max === 0) return undefined;
+    const alpha = 0.15 + 0.85 * (count / confusion.max);
+    return `rgba(239, 68, 68, ${alpha.toFixed(2)})`;
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl border shadow-sm space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-medium text-gray-900">错误分析 (全数据集)</h3>
+        <div className="flex gap-1 text-xs">
+          {(['char', 'word'] as ErrorLevel[]).map(l => (
+            <button
+              key={l}
+              onClick={() => { setLevel(l); setSelectedKey(null); }}
+              className={`px-3 py-1 rounded ${level === l ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            >
+              {l === 'char' ? '字符级' : '词级'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {renderList('最常见替换', analysis.substitutions, e => (
+          <>
+            <span className="text-gray-700">{e.truth}</span>
+            <span className="text-gray-400 mx-1">→</span>
+            <span className="text-orange-700 font-bold">{e.ocr}</span>
+          </>
+        ))}
+        {renderList('最常漏读', analysis.deletions, e => <span className="text-red-700 line-through">{e.truth}</span>)}
+        {renderList('最常多读 (幻觉)', analysis.insertions, e => <span className="text-red-800 font-bold">{e.ocr}</span>)}
+      </div>
+
+      {selected && (
+        <div className="bg-blue-50 border border-blue-200 rounded p-3">
+          <p className="text-xs text-blue-800 mb-2">
+            出现于 {selected.occurrences.length} 个文档 (点击跳转到差异对比):
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {selected.occurrences.map(o => (
+              <button
+                key={o.pairId}
+                onClick={() => onSelectPair(o.pairId)}
+                className="px-2 py-0.5 rounded bg-white border border-blue-200 text-xs text-blue-700 hover:bg-blue-100"
+              >
+                {fileNames.get(o.pairId) || o.pairId} ×{o.count}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {confusion.truthLabels.length > 1 && (
+        <div>
+          <h4 className="text-xs font-semibold text-gray-500 uppercase mb-2">混淆矩阵 (行: 真值, 列: OCR, {EMPTY_LABEL}: 无)</h4>
+          <div className="overflow-x-auto">
+            <table className="text-xs font-mono border-collapse">
+              <thead>
+                <tr>
+                  <th className="p-1"></th>
+                  {confusion.ocrLabels.map(label => (
+                    <th key={label} className="p-1 font-normal text-gray-600 max-w-[4rem] truncate">{label || EMPTY_LABEL}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {confusion.truthLabels.map((truth, row) => (
+                  <tr key={truth}>
+                    <th className="p-1 font-normal text-gray-600 text-right max-w-[4rem] truncate">{truth || EMPTY_LABEL}</th>
+                    {confusion.ocrLabels.map((ocr, col) => {
+                      const count = confusion.counts[row][col];
+                      const key = pairKey(truth, ocr);
+                      return (
+                        <td
+                          key={ocr}
+                          onClick={() => count > 0 && setSelectedKey(key)}
+                          className={`w-8 h-8 text-center border border-gray-100 ${count > 0 ? 'cursor-pointer hover:ring-2 hover:ring-blue-400' : 'text-gray-300'}`}
+                          style={{ backgroundColor: cellColor(count) }}
+                          title={`${truth || EMPTY_LABEL} → ${ocr || EMPTY_LABEL}: ${count}`}
+                        >
+                          {count > 0 ? count : ''}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
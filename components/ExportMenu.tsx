@@ -0,0 +1,42 @@
+import React from 'react';
+import { AggregateMetrics, AnalysisResult, AnalysisSettings, AveragingMode, OcrEngineSet } from '../types';
+import { downloadFile, resultsToCSV, resultsToHTML, resultsToJSON } from '../utils/export';
+
+interface ExportMenuProps {
+  results: AnalysisResult[];
+  aggregates: Record<string, AggregateMetrics>; // Keyed by engine id
+  engines: OcrEngineSet[];
+  settings: AnalysisSettings;
+  averaging: AveragingMode;
+}
+
+const timestamp = () => new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ results, aggregates, engines, settings, averaging }) => {
+  const context = { results, aggregates, engines, settings, averaging };
+  const buttonClass = 'px-3 py-1.5 rounded border text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 shadow-sm';
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs text-gray-500">导出:</span>
+      <button
+        className={buttonClass}
+        onClick={() => downloadFile(resultsToCSV(results), `ocr-metrics-${timestamp()}.csv`, 'text/csv')}
+      >
+        CSV
+      </button>
+      <button
+        className={buttonClass}
+        onClick={() => downloadFile(resultsToJSON(context), `ocr-metrics-${timestamp()}.json`, 'application/json')}
+      >
+        JSON
+      </button>
+      <button
+        className={buttonClass}
+        onClick={() => downloadFile(resultsToHTML(context), `ocr-report-${timestamp()}.html`, 'text/html')}
+      >
+        HTML 报告
+      </button>
+    </div>
+  );
+};
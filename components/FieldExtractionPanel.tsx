@@ -0,0 +1,96 @@
+import React, { useMemo, useState } from 'react';
+import { AnalysisResult } from '../types';
+import { summarizeFields } from '../utils/fields';
+
+interface FieldExtractionPanelProps {
+  results: AnalysisResult[];
+  onSelectPair: (pairId: string) => void;
+}
+
+const EMPTY_LABEL = '∅';
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const accuracyColor = (value: number) => {
+  if (value >= 0.95) return 'text-green-600';
+  if (value >= 0.8) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+export const FieldExtractionPanel: React.FC<FieldExtractionPanelProps> = ({ results, onSelectPair }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const summaries = useMemo(() => summarizeFields(results), [results]);
+  const fileNames = useMemo(() => new Map(results.map(r => [r.pairId, r.truthFileName])), [results]);
+
+  if (summaries.length === 0) return null;
+
+  const selected = summaries.find(s => s.fieldId === selectedId) || null;
+  // Worst values first; spurious extractions after the misreads
+  const mismatches = selected
+    ? selected.matches
+        .filter(({ match }) => !match.exact)
+        .sort((a, b) => Number(a.match.truth === undefined) - Number(b.match.truth === undefined) || b.match.distance - a.match.distance)
+    : [];
+
+  return (
+    <div className="bg-white p-6 rounded-xl border shadow-sm">
+      <h3 className="text-base font-medium text-gray-900 mb-1">关键字段提取</h3>
+      <p className="text-xs text-gray-400 mb-4">只统计真值中含有该字段的文档；OCR 未提取到的字段按编辑距离 1 计。点击字段查看不一致的文档。</p>
+      <table className="min-w-full text-sm">
+        <thead className="text-xs text-gray-500">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium">字段</th>
+            <th className="px-3 py-2 text-right font-medium">文档数</th>
+            <th className="px-3 py-2 text-right font-medium">完全匹配率</th>
+            <th className="px-3 py-2 text-right font-medium">平均归一化编辑距离</th>
+            <th className="px-3 py-2 text-right font-medium">未提取</th>
+            <th className="px-3 py-2 text-right font-medium">误提取</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {summaries.map(s => (
+            <tr
+              key={s.fieldId}
+              onClick={() => setSelectedId(selectedId === s.fieldId ? null : s.fieldId)}
+              className={`cursor-pointer ${selectedId === s.fieldId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+            >
+              <td className="px-3 py-2 font-medium text-gray-900">{s.name || s.fieldId}</td>
+              <td className="px-3 py-2 text-right tabular-nums text-gray-600">{s.documents}</td>
+              <td className={`px-3 py-2 text-right tabular-nums font-medium ${s.documents > 0 ? accuracyColor(s.accuracy) : 'text-gray-400'}`}>
+                {s.documents > 0 ? `${percent(s.accuracy)} (${s.exact}/${s.documents})` : '-'}
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums text-gray-600">{s.documents > 0 ? s.meanDistance.toFixed(3) : '-'}</td>
+              <td className={`px-3 py-2 text-right tabular-nums ${s.missed > 0 ? 'text-red-600' : 'text-gray-400'}`}>{s.missed}</td>
+              <td className={`px-3 py-2 text-right tabular-nums ${s.spurious > 0 ? 'text-yellow-700' : 'text-gray-400'}`}>{s.spurious}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {selected && (
+        <div className="mt-4 border-t pt-4">
+          <h4 className="text-xs font-semibold text-gray-500 uppercase mb-2">
+            「{selected.name || selected.fieldId}」不一致的文档 ({mismatches.length})
+          </h4>
+          {mismatches.length === 0 && <p className="text-xs text-gray-400">所有文档均完全匹配。</p>}
+          <ul className="space-y-1 max-h-72 overflow-y-auto">
+            {mismatches.map(({ pairId, match }) => (
+              <li key={pairId}>
+                <button
+                  onClick={() => onSelectPair(pairId)}
+                  className="w-full grid grid-cols-[minmax(0,1fr)_minmax(0,1fr)_minmax(0,1fr)_auto] gap-3 px-2 py-1 rounded text-sm text-left hover:bg-gray-50"
+                >
+                  <span className="truncate text-blue-600">{fileNames.get(pairId) ?? pairId}</span>
+                  <span className="font-mono truncate text-green-700" title={match.truth}>{match.truth ?? EMPTY_LABEL}</span>
+                  <span className="font-mono truncate text-red-600" title={match.ocr}>{match.ocr ?? EMPTY_LABEL}</span>
+                  <span className="text-xs text-gray-500 tabular-nums">{match.distance.toFixed(2)}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { FieldDefinition, FieldKind } from '../types';
+import { compileField, FIELD_KINDS, FIELD_PRESETS } from '../utils/fields';
+
+interface FieldSettingsProps {
+  fields: FieldDefinition[];
+  onChange: (fields: FieldDefinition[]) => void;
+}
+
+export const FieldSettings: React.FC<FieldSettingsProps> = ({ fields, onChange }) => {
+  const update = (id: string, patch: Partial<FieldDefinition>) =>
+    onChange(fields.map(f => (f.id === id ? { ...f, ...patch } : f)));
+
+  const addField = (field: Omit<FieldDefinition, 'id'>) =>
+    onChange([...fields, { ...field, id: `field-${Date.now()}-${fields.length}` }]);
+
+  const inputClass = 'border rounded px-2 py-1 bg-white';
+
+  return (
+    <div className="flex gap-2">
+      <span className="font-medium text-gray-700 w-24 shrink-0">关键字段</span>
+      <div className="flex-1 space-y-2">
+        {fields.map(field => {
+          const invalid = field.pattern.trim().length > 0 && !compileField(field);
+          return (
+            <div key={field.id} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={field.name}
+                onChange={(e) => update(field.id, { name: e.target.value })}
+                placeholder="字段名"
+                className={`${inputClass} w-24`}
+              />
+              <select
+                value={field.kind}
+                onChange={(e) => update(field.id, { kind: e.target.value as FieldKind })}
+                className={inputClass}
+              >
+                {FIELD_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+              </select>
+              <input
+                type="text"
+                value={field.pattern}
+                onChange={(e) => update(field.id, { pattern: e.target.value })}
+                placeholder={FIELD_KINDS.find(k => k.id === field.kind)?.placeholder}
+                title={invalid ? '正则表达式无效' : undefined}
+                className={`${inputClass} flex-1 font-mono ${invalid ? 'border-red-400 text-red-700' : ''}`}
+              />
+              <button onClick={() => onChange(fields.filter(f => f.id !== field.id))} className="text-red-600 hover:underline">删除</button>
+            </div>
+          );
+        })}
+        <div className="flex flex-wrap items-center gap-3">
+          <button onClick={() => addField({ name: '', kind: 'regex', pattern: '' })} className="text-blue-600 hover:underline">+ 添加字段</button>
+          <span className="text-gray-400">常用:</span>
+          {FIELD_PRESETS.map(p => (
+            <button key={p.name} onClick={() => addField(p)} className="text-blue-600 hover:underline">{p.name}</button>
+          ))}
+        </div>
+        <p className="text-gray-400">
+          从真值与 OCR 文本中各取第一个匹配；正则有捕获组时取第一组，标签锚点取标签后 (冒号之后) 的同行内容。匹配在原始文本上进行，取出的值再经归一化后比较。
+        </p>
+      </div>
+    </div>
+  );
+};
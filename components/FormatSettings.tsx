@@ -0,0 +1,45 @@
+import React from 'react';
+import { JsonFormatConfig } from '../types';
+import { DEFAULT_JSON_FORMAT, FormatOptions } from '../utils/formats';
+
+interface FormatSettingsProps {
+  options: FormatOptions;
+  onChange: (options: FormatOptions) => void;
+}
+
+const JSON_FIELDS: { key: keyof JsonFormatConfig; label: string }[] = [
+  { key: 'linesPath', label: '文本行' },
+  { key: 'lineTextPath', label: '行文本 (相对行)' },
+  { key: 'wordsPath', label: '词列表 (相对行)' },
+  { key: 'wordTextPath', label: '词文本 (相对词)' },
+  { key: 'confidencePath', label: '置信度 (相对行/词)' },
+  { key: 'bboxPath', label: '坐标框 (相对行/词)' },
+];
+
+export const FormatSettings: React.FC<FormatSettingsProps> = ({ options, onChange }) => {
+  const setField = (key: keyof JsonFormatConfig, value: string) =>
+    onChange({ ...options, json: { ...options.json, [key]: value } });
+
+  return (
+    <details className="bg-gray-50 rounded border p-3 text-xs">
+      <summary className="cursor-pointer font-medium text-gray-700">JSON 结果字段路径 (JSONPath)</summary>
+      <p className="mt-2 text-gray-400">
+        用于云端 OCR 返回的 JSON 文件。默认值适配 Azure Read 格式；支持 $、.key、['key']、[n]、[*] 与 .. 语法。
+      </p>
+      <div className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-3">
+        {JSON_FIELDS.map(f => (
+          <label key={f.key} className="flex flex-col gap-1 text-gray-600">
+            {f.label}
+            <input
+              type="text"
+              value={options.json[f.key]}
+              onChange={(e) => setField(f.key, e.target.value)}
+              className="border rounded px-2 py-1 font-mono bg-white"
+              placeholder={DEFAULT_JSON_FORMAT[f.key]}
+            />
+          </label>
+        ))}
+      </div>
+    </details>
+  );
+};
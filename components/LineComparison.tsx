@@ -0,0 +1,80 @@
+import React from 'react';
+import { LineMetrics } from '../types';
+
+interface LineComparisonProps {
+  lines: LineMetrics;
+  wer: number; // Ordered WER of the same pair, for the reading-order comparison
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export const LineComparison: React.FC<LineComparisonProps> = ({ lines, wer }) => {
+  const { readingOrder } = lines;
+  const orderGap = wer - readingOrder.bagOfWordsWer;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+        <div className="bg-white border rounded p-2">
+          <div className="text-gray-500">行准确率 (完全一致)</div>
+          <div className="text-sm font-semibold text-gray-900">{percent(lines.accuracy)} <span className="text-xs font-normal text-gray-500">({lines.exactLines} / {lines.truthLines})</span></div>
+        </div>
+        <div className="bg-white border rounded p-2">
+          <div className="text-gray-500">平均行 CER</div>
+          <div className="text-sm font-semibold text-gray-900">{percent(lines.meanCer)}</div>
+        </div>
+        <div className="bg-white border rounded p-2" title="匹配行中，不在最长顺序子序列内的行数；文本块为连续按序读取的行组">
+          <div className="text-gray-500">阅读顺序</div>
+          <div className={`text-sm font-semibold ${readingOrder.outOfOrderLines > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {readingOrder.outOfOrderLines} 行乱序 · {readingOrder.blocks} 个文本块
+          </div>
+        </div>
+        <div className="bg-white border rounded p-2" title="顺序无关 WER 把词当作集合比较；与有序 WER 的差距来自阅读顺序错误">
+          <div className="text-gray-500">有序 WER / 顺序无关 WER</div>
+          <div className="text-sm font-semibold text-gray-900">
+            {percent(wer)} / {percent(readingOrder.bagOfWordsWer)}
+            {orderGap > 0.01 && <span className="ml-1 text-xs font-normal text-red-600">顺序导致 +{percent(orderGap)}</span>}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto border rounded bg-white">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-50 text-gray-500 sticky top-0">
+            <tr>
+              <th className="px-2 py-1.5 text-right font-medium w-10">#</th>
+              <th className="px-2 py-1.5 text-left font-medium">真值行</th>
+              <th className="px-2 py-1.5 text-right font-medium w-14">OCR #</th>
+              <th className="px-2 py-1.5 text-left font-medium">OCR 行</th>
+              <th className="px-2 py-1.5 text-right font-medium w-16">CER</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 font-mono">
+            {lines.alignments.map(a => (
+              <tr key={a.truthIndex} className={a.exact ? 'bg-green-50' : a.ocr === undefined ? 'bg-red-50' : ''}>
+                <td className="px-2 py-1 text-right text-gray-400">{a.truthIndex + 1}</td>
+                <td className="px-2 py-1 text-gray-800 whitespace-pre-wrap break-all">{a.truth}</td>
+                <td className={`px-2 py-1 text-right ${a.ocrIndex !== undefined && !a.inOrder ? 'text-red-600 font-bold' : 'text-gray-400'}`} title={a.ocrIndex !== undefined && !a.inOrder ? '乱序' : undefined}>
+                  {a.ocrIndex !== undefined ? a.ocrIndex + 1 : '—'}
+                </td>
+                <td className="px-2 py-1 text-gray-800 whitespace-pre-wrap break-all">
+                  {a.ocr ?? <span className="text-red-600 font-sans">未找到对应行</span>}
+                </td>
+                <td className={`px-2 py-1 text-right tabular-nums ${a.exact ? 'text-green-700' : 'text-red-600'}`}>{percent(a.cer)}</td>
+              </tr>
+            ))}
+            {lines.extraOcrLines.map(o => (
+              <tr key={`extra-${o.index}`} className="bg-red-50">
+                <td className="px-2 py-1 text-right text-gray-400">—</td>
+                <td className="px-2 py-1 text-red-600 font-sans">多出的行</td>
+                <td className="px-2 py-1 text-right text-gray-400">{o.index + 1}</td>
+                <td className="px-2 py-1 text-gray-800 whitespace-pre-wrap break-all">{o.text}</td>
+                <td className="px-2 py-1"></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,6 @@
 import React from 'react';
+import { RuleStatus } from '../types';
+import { thresholdStatus } from '../utils/rules';
 
 interface MetricCardProps {
   title: string;
@@ -7,8 +9,16 @@ interface MetricCardProps {
   color?: 'blue' | 'green' | 'red' | 'yellow';
   description?: string;
   inverse?: boolean; // If true, lower is better (like error rates)
+  interval?: [number, number]; // 95% confidence interval, same scale as value
+  thresholds?: { warn?: number; fail?: number }; // When set, the colour follows the value instead of `color`
 }
 
+const STATUS_COLORS: Record<RuleStatus, NonNullable<MetricCardProps['color']>> = {
+  pass: 'green',
+  warn: 'yellow',
+  fail: 'red',
+};
+
 export const MetricCard: React.FC<MetricCardProps> = ({
   title,
   value,
@@ -16,10 +26,11 @@ export const MetricCard: React.FC<MetricCardProps> = ({
   color = 'blue',
   description,
   inverse = false,
+  interval,
+  thresholds,
 }) => {
-  const formattedValue = format === 'percent' 
-    ? `${(value * 100).toFixed(2)}%` 
-    : value.toFixed(3);
+  const formatValue = (v: number) => (format === 'percent' ? `${(v * 100).toFixed(2)}%` : v.toFixed(3));
+  const formattedValue = formatValue(value);
 
   const colorClasses = {
     blue: 'bg-blue-50 border-blue-200 text-blue-700',
@@ -28,10 +39,17 @@ export const MetricCard: React.FC<MetricCardProps> = ({
     yellow: 'bg-yellow-50 border-yellow-200 text-yellow-700',
   };
 
+  const shownColor = thresholds ? STATUS_COLORS[thresholdStatus(value, thresholds, inverse)] : color;
+
   return (
-    <div className={`p-4 rounded-lg border ${colorClasses[color]} flex flex-col items-center justify-center shadow-sm`}>
+    <div className={`p-4 rounded-lg border ${colorClasses[shownColor]} flex flex-col items-center justify-center shadow-sm`}>
       <h3 className="text-sm font-semibold uppercase tracking-wider opacity-80 mb-1">{title}</h3>
       <span className="text-3xl font-bold">{formattedValue}</span>
+      {interval && (
+        <span className="text-xs mt-1 opacity-80 tabular-nums" title="自助法 (bootstrap) 95% 置信区间">
+          95% CI {formatValue(interval[0])} – {formatValue(interval[1])}
+        </span>
+      )}
       {description && <span className="text-xs mt-2 opacity-70 text-center">{description}</span>}
     </div>
   );
@@ -0,0 +1,115 @@
+import React from 'react';
+import { OcrProviderConfig, ProviderBody } from '../types';
+import { PROVIDER_BODIES, PROVIDER_HINT, PROVIDER_PRESETS } from '../utils/ocrProvider';
+
+interface OcrProviderSettingsProps {
+  config: OcrProviderConfig;
+  onChange: (config: OcrProviderConfig) => void;
+}
+
+export const OcrProviderSettings: React.FC<OcrProviderSettingsProps> = ({ config, onChange }) => {
+  const update = (patch: Partial<OcrProviderConfig>) => onChange({ ...config, ...patch });
+
+  const inputClass = 'border rounded px-2 py-1 bg-white';
+  const templateInvalid = (() => {
+    if (!config.template.trim() || config.body === 'binary') return false;
+    try {
+      JSON.parse(config.template.replace(/\{\{\s*\w+\s*\}\}/g, ''));
+      return false;
+    } catch {
+      return true;
+    }
+  })();
+
+  return (
+    <div className="space-y-2 p-3 border border-blue-200 rounded-lg bg-blue-50 text-xs text-gray-600">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-gray-400">预设:</span>
+        {PROVIDER_PRESETS.map(p => (
+          <button key={p.name} onClick={() => onChange(p.config)} className="text-blue-600 hover:underline">{p.name}</button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <select
+          value={config.body}
+          onChange={(e) => update({ body: e.target.value as ProviderBody })}
+          className={inputClass}
+        >
+          {PROVIDER_BODIES.map(b => <option key={b.id} value={b.id}>POST · {b.label}</option>)}
+        </select>
+        <input
+          type="text"
+          value={config.url}
+          onChange={(e) => update({ url: e.target.value })}
+          placeholder="http://127.0.0.1:8866/predict/ch_pp-ocrv3"
+          className={`${inputClass} flex-1 font-mono`}
+        />
+      </div>
+      {config.body !== 'binary' && (
+        <label className="flex flex-col gap-1">
+          <span>
+            {config.body === 'json' ? '请求体模板' : '附加表单字段 (JSON 对象，可选)'}
+            <span className="text-gray-400"> · 可用 {'{{image_base64}}'} {'{{file_name}}'} {'{{mime_type}}'}</span>
+          </span>
+          <textarea
+            value={config.template}
+            onChange={(e) => update({ template: e.target.value })}
+            rows={2}
+            title={templateInvalid ? '模板不是有效的 JSON' : undefined}
+            className={`${inputClass} font-mono ${templateInvalid ? 'border-red-400 text-red-700' : ''}`}
+          />
+        </label>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        {config.body === 'multipart' && (
+          <label className="flex flex-col gap-1">
+            图像字段名
+            <input type="text" value={config.fileField} onChange={(e) => update({ fileField: e.target.value })} className={`${inputClass} font-mono`} />
+          </label>
+        )}
+        <label className="flex flex-col gap-1">
+          响应路径
+          <input
+            type="text"
+            value={config.responsePath}
+            onChange={(e) => update({ responsePath: e.target.value })}
+            placeholder="留空表示纯文本响应"
+            className={`${inputClass} font-mono`}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          并发请求数
+          <input
+            type="number"
+            min={1}
+            max={16}
+            value={config.concurrency}
+            onChange={(e) => update({ concurrency: Math.max(1, Math.min(16, Number(e.target.value) || 1)) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          超时 (秒)
+          <input
+            type="number"
+            min={1}
+            value={config.timeoutSeconds}
+            onChange={(e) => update({ timeoutSeconds: Math.max(1, Number(e.target.value) || 1) })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      <label className="flex flex-col gap-1">
+        请求头 (每行一个 "名称: 值"，可选)
+        <textarea
+          value={config.headers}
+          onChange={(e) => update({ headers: e.target.value })}
+          rows={1}
+          placeholder="Authorization: Bearer …"
+          className={`${inputClass} font-mono`}
+        />
+      </label>
+      <p className="text-gray-400">{PROVIDER_HINT}</p>
+    </div>
+  );
+};
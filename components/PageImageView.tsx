@@ -0,0 +1,160 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BoundingBox, DiffItem, NormalizationStep, OcrLine, TokenizerId } from '../types';
+import { ErrorBox, locateDiffs } from '../utils/overlay';
+import { pageImageUrl } from '../utils/pageImages';
+import { WordDiff } from './DiffViews';
+
+interface PageImageViewProps {
+  image: File;
+  diffs: DiffItem[]; // Word diff
+  tokenizer: TokenizerId;
+  normalization: NormalizationStep[];
+  lines?: OcrLine[]; // OCR layout; without word boxes only the image is shown
+}
+
+const BOX_STYLES: Record<ErrorBox['type'], { stroke: string; fill: string }> = {
+  substitution: { stroke: '#f97316', fill: 'rgba(249, 115, 22, 0.2)' },
+  deletion: { stroke: '#ef4444', fill: 'rgba(239, 68, 68, 0.35)' },
+};
+
+export const PageImageView: React.FC<PageImageViewProps> = ({ image, diffs, tokenizer, normalization, lines }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [fitWidth, setFitWidth] = useState(true);
+  const [hovered, setHovered] = useState<ErrorBox | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+
+  useEffect(() => {
+    let revoked = false;
+    let current: string | null = null;
+    setUrl(null);
+    setSize(null);
+    pageImageUrl(image).then(next => {
+      if (revoked) {
+        URL.revokeObjectURL(next);
+        return;
+      }
+      current = next;
+      setUrl(next);
+    });
+    return () => {
+      revoked = true;
+      if (current) URL.revokeObjectURL(current);
+    };
+  }, [image]);
+
+  const overlay = useMemo(
+    () => (lines ? locateDiffs(diffs, lines, normalization) : null),
+    [diffs, lines, normalization]
+  );
+  const hasBoxes = !!overlay && overlay.tokenBoxes.some(b => b !== undefined);
+  const selectedBox = selected !== null ? overlay?.tokenBoxes[selected] : undefined;
+
+  // Centre the token's box in the scroll area, at whatever scale the image is drawn
+  const scrollToBox = (box: BoundingBox) => {
+    const container = scrollRef.current;
+    const img = imageRef.current;
+    if (!container || !img || !size) return;
+    const scale = img.clientWidth / size.width;
+    container.scrollTo({
+      left: ((box.x0 + box.x1) / 2) * scale - container.clientWidth / 2,
+      top: ((box.y0 + box.y1) / 2) * scale - container.clientHeight / 2,
+      behavior: 'smooth',
+    });
+  };
+
+  const selectToken = (index: number) => {
+    setSelected(index);
+    const box = overlay?.tokenBoxes[index];
+    if (box) scrollToBox(box);
+  };
+
+  const percentOf = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <div>
+        <div className="mb-1 flex items-center justify-between text-xs text-gray-500">
+          <span>
+            {image.name}
+            {!lines && ' · OCR 输出为纯文本，没有坐标框'}
+            {lines && !hasBoxes && ' · OCR 输出不含坐标框'}
+          </span>
+          <button onClick={() => setFitWidth(!fitWidth)} className="text-blue-600 hover:underline">
+            {fitWidth ? '原始大小' : '适应宽度'}
+          </button>
+        </div>
+        <div ref={scrollRef} className="h-[32rem] overflow-auto border rounded bg-gray-100">
+          {!url && <p className="p-4 text-xs text-gray-400">正在加载图像…</p>}
+          {url && (
+            <div className="relative inline-block" style={{ width: fitWidth ? '100%' : size?.width }}>
+              <img
+                ref={imageRef}
+                src={url}
+                alt={image.name}
+                onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                onError={() => setSize(null)}
+                className="block w-full h-auto"
+              />
+              {size && overlay && (
+                <svg
+                  viewBox={`0 0 ${size.width} ${size.height}`}
+                  preserveAspectRatio="none"
+                  className="absolute inset-0 w-full h-full"
+                >
+                  {overlay.errors.map((err, i) => (
+                    <rect
+                      key={i}
+                      x={err.bbox.x0}
+                      y={err.bbox.y0}
+                      width={err.bbox.x1 - err.bbox.x0}
+                      height={err.bbox.y1 - err.bbox.y0}
+                      stroke={BOX_STYLES[err.type].stroke}
+                      fill={BOX_STYLES[err.type].fill}
+                      strokeWidth={2}
+                      vectorEffect="non-scaling-stroke"
+                      className="cursor-pointer"
+                      onMouseEnter={() => setHovered(err)}
+                      onMouseLeave={() => setHovered(null)}
+                      onClick={() => setSelected(err.diffIndexes[0])}
+                    />
+                  ))}
+                  {selectedBox && (
+                    <rect
+                      x={selectedBox.x0}
+                      y={selectedBox.y0}
+                      width={selectedBox.x1 - selectedBox.x0}
+                      height={selectedBox.y1 - selectedBox.y0}
+                      stroke="#2563eb"
+                      fill="none"
+                      strokeWidth={3}
+                      vectorEffect="non-scaling-stroke"
+                      pointerEvents="none"
+                    />
+                  )}
+                </svg>
+              )}
+              {size && hovered && (
+                <div
+                  className="absolute z-10 mt-1 px-2 py-1 bg-slate-800 text-white text-xs rounded shadow-lg pointer-events-none whitespace-nowrap"
+                  style={{ left: percentOf(hovered.bbox.x0, size.width), top: percentOf(hovered.bbox.y1, size.height) }}
+                >
+                  <span className="text-slate-400">{hovered.type === 'deletion' ? '漏读' : '错误替换'} · 真值:</span> {hovered.truth}
+                  {hovered.type === 'substitution' && <><span className="ml-2 text-slate-400">OCR:</span> {hovered.ocr}</>}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+      <div>
+        <div className="mb-1 text-xs text-gray-500">词级差异 (点击词语定位到图像)</div>
+        <div className="h-[32rem] overflow-y-auto">
+          <WordDiff diffs={diffs} tokenizer={tokenizer} onSelect={selectToken} selected={selected} />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,343 @@
+import React, { useState } from 'react';
+import { EncodingInfo, FilePair, PairingState, TextEncoding } from '../types';
+import { encodingLabel } from '../utils/encoding';
+import { parseTagList } from '../utils/tags';
+import { EncodingSelect } from './EncodingSelect';
+
+type Side = 'truth' | 'ocr';
+
+interface DragPayload {
+  side: Side;
+  pairId?: string; // Set when dragged out of an existing pair
+  fileKey: string;
+}
+
+interface PairingEditorProps {
+  engineId: string; // Prefixes manual pair ids, like autoPair does, so they stay unique across engines
+  state: PairingState;
+  onChange: (state: PairingState) => void;
+  progress?: Record<string, number>; // Per-pair analysis progress, 0..1
+  encodings?: Map<File, EncodingInfo>; // How each file decodes under its current setting
+  encodingOverrides?: Map<File, TextEncoding>;
+  onEncodingChange?: (file: File, encoding: TextEncoding | null) => void;
+  recognizesImages?: boolean; // The engine sends page images to an OCR endpoint instead of using OCR files
+  onRetry?: (pairId: string) => void;
+}
+
+// Uploads from different folders can share a name, so files are told apart by identity
+const fileKeys = new WeakMap<File, string>();
+let nextFileKey = 0;
+const fileKey = (file: File): string => {
+  if (!fileKeys.has(file)) fileKeys.set(file, `file-${nextFileKey++}`);
+  return fileKeys.get(file)!;
+};
+
+const fileOf = (pair: FilePair, side: Side) => (side === 'truth' ? pair.truthFile : pair.ocrFile);
+
+const withFile = (pair: FilePair, side: Side, file: File | null): FilePair =>
+  side === 'truth' ? { ...pair, truthFile: file } : { ...pair, ocrFile: file };
+
+const unmatchedOf = (state: PairingState, side: Side) =>
+  side === 'truth' ? state.unmatchedTruth : state.unmatchedOcr;
+
+const withUnmatched = (state: PairingState, side: Side, files: File[]): PairingState =>
+  side === 'truth' ? { ...state, unmatchedTruth: files } : { ...state, unmatchedOcr: files };
+
+const sortFiles = (files: File[]) => [...files].sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Dissolves a pair, returning both of its files to the unmatched lists.
+ */
+const unpair = (state: PairingState, pairId: string): PairingState => {
+  const pair = state.pairs.find(p => p.id === pairId);
+  if (!pair) return state;
+  return {
+    pairs: state.pairs.filter(p => p.id !== pairId),
+    unmatchedTruth: pair.truthFile ? sortFiles([...state.unmatchedTruth, pair.truthFile]) : state.unmatchedTruth,
+    unmatchedOcr: pair.ocrFile ? sortFiles([...state.unmatchedOcr, pair.ocrFile]) : state.unmatchedOcr,
+  };
+};
+
+/**
+ * Places a dragged file into one slot of a pair.
+ * From the unmatched list the displaced file goes back to the list;
+ * from another pair the two files swap places.
+ */
+const dropOnPair = (state: PairingState, payload: DragPayload, targetId: string): PairingState => {
+  const { side, pairId: sourceId, fileKey: key } = payload;
+  const target = state.pairs.find(p => p.id === targetId);
+  if (!target || sourceId === targetId) return state;
+  const displaced = fileOf(target, side);
+
+  if (sourceId) {
+    const source = state.pairs.find(p => p.id === sourceId);
+    const moved = source && fileOf(source, side);
+    if (!source || !moved) return state;
+    return {
+      ...state,
+      pairs: state.pairs.map(p => {
+        if (p.id === targetId) return withFile(p, side, moved);
+        if (p.id === sourceId) return withFile(p, side, displaced);
+        return p;
+      }),
+    };
+  }
+
+  const unmatched = unmatchedOf(state, side);
+  const moved = unmatched.find(f => fileKey(f) === key);
+  if (!moved) return state;
+  const rest = unmatched.filter(f => f !== moved);
+  return withUnmatched(
+    { ...state, pairs: state.pairs.map(p => (p.id === targetId ? withFile(p, side, moved) : p)) },
+    side,
+    sortFiles(displaced ? [...rest, displaced] : rest)
+  );
+};
+
+export const PairingEditor: React.FC<PairingEditorProps> = ({ engineId, state, onChange, progress = {}, encodings, encodingOverrides, onEncodingChange, recognizesImages, onRetry }) => {
+  const [selectedTruth, setSelectedTruth] = useState<string | null>(null);
+  const [selectedOcr, setSelectedOcr] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const activeCount = state.pairs.filter(p => !p.excluded).length;
+  const garbledCount = [
+    ...state.pairs.flatMap(p => [p.truthFile, p.ocrFile]),
+    ...state.unmatchedTruth,
+    ...state.unmatchedOcr,
+  ].filter(f => f && (encodings?.get(f)?.replacementCount ?? 0) > 0).length;
+
+  const startDrag = (e: React.DragEvent, payload: DragPayload) => {
+    e.dataTransfer.setData('application/json', JSON.stringify(payload));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const readPayload = (e: React.DragEvent): DragPayload | null => {
+    try {
+      return JSON.parse(e.dataTransfer.getData('application/json')) as DragPayload;
+    } catch {
+      return null;
+    }
+  };
+
+  const handleDropOnPair = (e: React.DragEvent, pairId: string, side: Side) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const payload = readPayload(e);
+    if (payload && payload.side === side) onChange(dropOnPair(state, payload, pairId));
+  };
+
+  const handleDropOnUnmatched = (e: React.DragEvent, side: Side) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const payload = readPayload(e);
+    if (payload?.pairId && payload.side === side) onChange(unpair(state, payload.pairId));
+  };
+
+  const toggleExcluded = (pairId: string) => {
+    onChange({
+      ...state,
+      pairs: state.pairs.map(p => (p.id === pairId ? { ...p, excluded: !p.excluded } : p)),
+    });
+  };
+
+  const setTags = (pairId: string, text: string) => {
+    const tags = parseTagList(text);
+    onChange({
+      ...state,
+      pairs: state.pairs.map(p => (p.id === pairId ? { ...p, tags: tags.length > 0 ? tags : undefined } : p)),
+    });
+  };
+
+  const pairSelected = () => {
+    const truth = state.unmatchedTruth.find(f => fileKey(f) === selectedTruth);
+    const ocr = state.unmatchedOcr.find(f => fileKey(f) === selectedOcr);
+    if (!truth || !ocr) return;
+    onChange({
+      pairs: [
+        ...state.pairs,
+        { id: `${engineId}:manual-${fileKey(truth)}\u0000${fileKey(ocr)}`, truthFile: truth, ocrFile: ocr, status: 'pending' },
+      ],
+      unmatchedTruth: state.unmatchedTruth.filter(f => f !== truth),
+      unmatchedOcr: state.unmatchedOcr.filter(f => f !== ocr),
+    });
+    setSelectedTruth(null);
+    setSelectedOcr(null);
+  };
+
+  const renderEncoding = (file: File) => {
+    const info = encodings?.get(file);
+    if (!info || !onEncodingChange) return null;
+    const override = encodingOverrides?.get(file) ?? null;
+    return (
+      <EncodingSelect
+        value={override}
+        defaultLabel={override ? '默认' : `${info.source === 'override' ? '统一' : '自动'}: ${encodingLabel(info.encoding)}`}
+        onChange={(encoding) => onEncodingChange(file, encoding)}
+        warning={info.replacementCount > 0 ? `按 ${encodingLabel(info.encoding)} 解码后有 ${info.replacementCount} 个无法识别的字符 (\uFFFD)，请检查编码` : undefined}
+        className="shrink-0"
+      />
+    );
+  };
+
+  const renderSlot = (pair: FilePair, side: Side) => {
+    if (side === 'ocr' && recognizesImages) {
+      return pair.imageFile
+        ? <span className="truncate px-1" title={pair.ocrContent !== undefined ? '已识别，再次分析不会重复请求' : '分析时发送到 OCR 接口'}>
+            {pair.ocrContent !== undefined ? '✓ ' : '→ '}{pair.imageFile.name}
+          </span>
+        : <span className="truncate px-1 text-red-600">(缺少页面图像)</span>;
+    }
+    const file = fileOf(pair, side);
+    const slotKey = `${pair.id}:${side}`;
+    return (
+      <span className="flex items-center gap-1 min-w-0">
+        <span
+          draggable={!!file}
+          onDragStart={(e) => file && startDrag(e, { side, pairId: pair.id, fileKey: fileKey(file) })}
+          onDragOver={(e) => { e.preventDefault(); setDropTarget(slotKey); }}
+          onDragLeave={() => setDropTarget(null)}
+          onDrop={(e) => handleDropOnPair(e, pair.id, side)}
+          className={`truncate px-1 rounded cursor-move ${dropTarget === slotKey ? 'bg-blue-100 ring-1 ring-blue-400' : ''}`}
+          title="拖拽以调整配对"
+        >
+          {file?.name || (side === 'truth' ? '(缺少真值文件)' : '(缺少 OCR 文件)')}
+        </span>
+        {file && renderEncoding(file)}
+      </span>
+    );
+  };
+
+  // Committed on blur, so typing a separator doesn't reshuffle the field
+  const renderTags = (pair: FilePair) => {
+    const text = pair.tags?.join(', ') ?? '';
+    const metadata = Object.entries(pair.metadata ?? {}).map(([k, v]) => `${k}: ${v}`).join('\n');
+    return (
+      <input
+        key={text}
+        defaultValue={text}
+        onBlur={(e) => { if (e.target.value !== text) setTags(pair.id, e.target.value); }}
+        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        placeholder="标签"
+        title={metadata ? `清单元数据:\n${metadata}` : '以逗号分隔多个标签'}
+        className="w-full min-w-0 px-1 py-0.5 border border-gray-200 rounded bg-white text-gray-700"
+      />
+    );
+  };
+
+  const renderStatus = (pair: FilePair) => {
+    if (pair.status === 'loading') {
+      const percent = Math.round((progress[pair.id] || 0) * 100);
+      const recognizing = recognizesImages && pair.ocrContent === undefined;
+      return (
+        <span className="flex items-center gap-1 w-20" title={recognizing ? '等待 OCR 接口返回' : `分析中 ${percent}%`}>
+          <span className="flex-1 h-1.5 bg-gray-200 rounded overflow-hidden">
+            <span className="block h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+          </span>
+          <span className="text-gray-500 tabular-nums">{recognizing ? '识别中' : `${percent}%`}</span>
+        </span>
+      );
+    }
+    if (pair.status === 'analyzed') return <span className="w-20 text-green-600">已完成</span>;
+    if (pair.status === 'error') {
+      return (
+        <span className="flex items-center gap-1 w-20 text-red-600" title={pair.error}>
+          失败
+          {onRetry && <button onClick={() => onRetry(pair.id)} className="text-blue-600 hover:underline">重试</button>}
+        </span>
+      );
+    }
+    return <span className="w-20" />;
+  };
+
+  const renderUnmatched = (side: Side, selected: string | null, setSelected: (key: string | null) => void) => {
+    const files = unmatchedOf(state, side);
+    const zoneKey = `unmatched:${side}`;
+    return (
+      <div
+        onDragOver={(e) => { e.preventDefault(); setDropTarget(zoneKey); }}
+        onDragLeave={() => setDropTarget(null)}
+        onDrop={(e) => handleDropOnUnmatched(e, side)}
+        className={`bg-red-50 rounded border border-red-200 max-h-32 overflow-y-auto text-xs p-2 min-h-[3rem] ${dropTarget === zoneKey ? 'ring-1 ring-red-400' : ''}`}
+      >
+        {files.length === 0 && <p className="text-gray-400">无</p>}
+        {files.map(f => (
+          <div
+            key={fileKey(f)}
+            draggable
+            onDragStart={(e) => startDrag(e, { side, fileKey: fileKey(f) })}
+            onClick={() => setSelected(selected === fileKey(f) ? null : fileKey(f))}
+            className={`flex items-center justify-between gap-1 py-0.5 px-1 rounded cursor-pointer ${selected === fileKey(f) ? 'bg-red-200 text-red-900' : 'text-red-600 hover:bg-red-100'}`}
+          >
+            <span className="truncate">{f.name}</span>
+            <span onClick={(e) => e.stopPropagation()}>{renderEncoding(f)}</span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-700">
+          文件配对编辑 (按文件名主干匹配，拖拽或选择以调整)
+        </h3>
+        <span className="text-xs text-gray-500">
+          {garbledCount > 0 && (
+            <span className="mr-3 text-amber-700" title={'这些文件按当前编码解码后含有无法识别的字符 (\uFFFD)，请在文件旁选择正确的编码'}>
+              {garbledCount} 个文件可能编码有误
+            </span>
+          )}
+          将评估 {activeCount} 对
+        </span>
+      </div>
+      <div className="bg-gray-50 rounded border max-h-60 overflow-y-auto text-xs p-2">
+        {state.pairs.length === 0 && <p className="text-gray-400 p-1">没有匹配成功的文件</p>}
+        {state.pairs.map((p, i) => (
+          <div
+            key={p.id}
+            className={`grid grid-cols-[1fr_1fr_8rem_auto_auto] gap-4 py-1 px-2 items-center ${i % 2 === 0 ? '' : 'bg-gray-100'} ${p.excluded ? 'text-gray-400 line-through' : 'text-gray-700'}`}
+          >
+            <span className="flex gap-1 min-w-0">
+              <span>{i + 1}.</span>
+              {renderSlot(p, 'truth')}
+              {p.imageFile && <span className="shrink-0 text-gray-400" title={`页面图像: ${p.imageFile.name}`}>[图]</span>}
+            </span>
+            {renderSlot(p, 'ocr')}
+            {renderTags(p)}
+            {renderStatus(p)}
+            <span className="flex gap-2">
+              <button onClick={() => toggleExcluded(p.id)} className="text-blue-600 hover:underline">
+                {p.excluded ? '恢复' : '排除'}
+              </button>
+              <button onClick={() => onChange(unpair(state, p.id))} className="text-red-600 hover:underline">
+                解除配对
+              </button>
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {(state.unmatchedTruth.length > 0 || state.unmatchedOcr.length > 0) && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-xs font-medium text-red-600">
+              未匹配文件 (各选一个后点击“配对所选”，或拖到上方对应位置)
+            </h4>
+            <button
+              onClick={pairSelected}
+              disabled={!selectedTruth || !selectedOcr}
+              className="px-3 py-1 rounded text-xs text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              配对所选
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {renderUnmatched('truth', selectedTruth, setSelectedTruth)}
+            {renderUnmatched('ocr', selectedOcr, setSelectedOcr)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { PunctuationMarkStats } from '../types';
+
+interface PunctuationBreakdownProps {
+  marks: PunctuationMarkStats[];
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export const PunctuationBreakdown: React.FC<PunctuationBreakdownProps> = ({ marks }) => {
+  if (marks.length === 0) {
+    return <p className="text-xs text-gray-400">两份文本中都没有所选标点。</p>;
+  }
+
+  return (
+    <table className="text-xs border rounded bg-white">
+      <thead className="bg-gray-50 text-gray-500">
+        <tr>
+          <th className="px-3 py-1.5 text-left font-medium">标点</th>
+          <th className="px-3 py-1.5 text-right font-medium">真值</th>
+          <th className="px-3 py-1.5 text-right font-medium">OCR</th>
+          <th className="px-3 py-1.5 text-right font-medium">匹配</th>
+          <th className="px-3 py-1.5 text-right font-medium">精确率</th>
+          <th className="px-3 py-1.5 text-right font-medium">召回率</th>
+          <th className="px-3 py-1.5 text-right font-medium">F1</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100 tabular-nums">
+        {marks.map(m => (
+          <tr key={m.mark}>
+            <td className="px-3 py-1 font-mono text-sm">{m.mark}</td>
+            <td className="px-3 py-1 text-right">{m.truthCount}</td>
+            <td className="px-3 py-1 text-right">{m.ocrCount}</td>
+            <td className="px-3 py-1 text-right">{m.matched}</td>
+            <td className="px-3 py-1 text-right">{m.ocrCount > 0 ? percent(m.precision) : '—'}</td>
+            <td className="px-3 py-1 text-right">{m.truthCount > 0 ? percent(m.recall) : '—'}</td>
+            <td className={`px-3 py-1 text-right font-medium ${m.f1 < 0.8 ? 'text-red-600' : 'text-gray-900'}`}>{percent(m.f1)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useMemo } from 'react';
+import { AnalysisResult, QualityRule, RuleMetric } from '../types';
+import { DEFAULT_RULES, RULE_METRICS, ruleMetric, summarizeRules } from '../utils/rules';
+
+interface QualityRulesProps {
+  rules: QualityRule[];
+  onChange: (rules: QualityRule[]) => void;
+  results: AnalysisResult[]; // Documents the summary counts are taken over
+}
+
+// Levels are edited as percentages and stored as fractions
+const toPercentInput = (value: number | undefined) => (value === undefined ? '' : String(+(value * 100).toFixed(4)));
+
+const fromPercentInput = (value: string) => {
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n / 100 : undefined;
+};
+
+export const QualityRules: React.FC<QualityRulesProps> = ({ rules, onChange, results }) => {
+  const summaries = useMemo(() => summarizeRules(results, rules), [results, rules]);
+
+  const update = (id: string, patch: Partial<QualityRule>) =>
+    onChange(rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+
+  const addRule = () =>
+    onChange([...rules, { id: `rule-${Date.now()}`, metric: 'cer' }]);
+
+  const inputClass = 'border rounded px-2 py-1 bg-white';
+
+  return (
+    <div className="bg-white p-6 rounded-xl border shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-base font-medium text-gray-900">质量规则</h3>
+        <div className="flex gap-3 text-xs">
+          <button onClick={() => onChange(DEFAULT_RULES)} className="text-gray-500 hover:underline">恢复默认</button>
+          <button onClick={addRule} className="text-blue-600 hover:underline">+ 添加规则</button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-400 mb-3">
+        错误率超过阈值 (准确率低于阈值) 即判定为警告或不合格。文件名模式支持 * 与 ?，留空则适用于所有文档；未限定范围的规则同时决定上方平均值卡片的颜色。
+      </p>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead className="text-gray-500">
+            <tr>
+              <th className="px-2 py-1 text-left font-medium">指标</th>
+              <th className="px-2 py-1 text-left font-medium">警告阈值 (%)</th>
+              <th className="px-2 py-1 text-left font-medium">不合格阈值 (%)</th>
+              <th className="px-2 py-1 text-left font-medium">文件名模式</th>
+              <th className="px-2 py-1 text-left font-medium">标签</th>
+              <th className="px-2 py-1 text-right font-medium">适用</th>
+              <th className="px-2 py-1 text-right font-medium">警告</th>
+              <th className="px-2 py-1 text-right font-medium">不合格</th>
+              <th className="px-2 py-1" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {summaries.map(({ rule, applicable, warned, failed }) => (
+              <tr key={rule.id}>
+                <td className="px-2 py-1">
+                  <select
+                    value={rule.metric}
+                    onChange={(e) => update(rule.id, { metric: e.target.value as RuleMetric })}
+                    className={inputClass}
+                  >
+                    {RULE_METRICS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                  </select>
+                  <span className="ml-1 text-gray-400">{ruleMetric(rule.metric).lowerIsBetter ? '≤' : '≥'}</span>
+                </td>
+                <td className="px-2 py-1">
+                  <input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    max="100"
+                    value={toPercentInput(rule.warn)}
+                    onChange={(e) => update(rule.id, { warn: fromPercentInput(e.target.value) })}
+                    className={`${inputClass} w-20`}
+                  />
+                </td>
+                <td className="px-2 py-1">
+                  <input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    max="100"
+                    value={toPercentInput(rule.fail)}
+                    onChange={(e) => update(rule.id, { fail: fromPercentInput(e.target.value) })}
+                    className={`${inputClass} w-20`}
+                  />
+                </td>
+                <td className="px-2 py-1">
+                  <input
+                    type="text"
+                    value={rule.pattern ?? ''}
+                    onChange={(e) => update(rule.id, { pattern: e.target.value })}
+                    placeholder="如 invoice_*"
+                    className={`${inputClass} w-32 font-mono`}
+                  />
+                </td>
+                <td className="px-2 py-1">
+                  <input
+                    type="text"
+                    value={rule.tag ?? ''}
+                    onChange={(e) => update(rule.id, { tag: e.target.value })}
+                    placeholder="任意"
+                    className={`${inputClass} w-24`}
+                  />
+                </td>
+                <td className="px-2 py-1 text-right tabular-nums text-gray-600">{applicable}</td>
+                <td className={`px-2 py-1 text-right tabular-nums ${warned > 0 ? 'text-yellow-700 font-medium' : 'text-gray-400'}`}>{warned}</td>
+                <td className={`px-2 py-1 text-right tabular-nums ${failed > 0 ? 'text-red-600 font-medium' : 'text-gray-400'}`}>{failed}</td>
+                <td className="px-2 py-1 text-right">
+                  <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="text-red-600 hover:underline">删除</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rules.length === 0 && <p className="text-xs text-gray-400 p-2">没有规则，所有文档均视为合格。</p>}
+      </div>
+    </div>
+  );
+};
@@ -1,56 +1,147 @@
-import React, { useState } from 'react';
-import { AnalysisResult, DiffItem } from '../types';
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { AnalysisResult, QualityRule, RuleStatus } from '../types';
+import { CharDiff, DiffLegend, SideBySideDiff, WordDiff } from './DiffViews';
+import { PunctuationBreakdown } from './PunctuationBreakdown';
+import { LineComparison } from './LineComparison';
+import { TableComparison } from './TableComparison';
+import { MAX_TABLE_NODES } from '../utils/teds';
+import { PageImageView } from './PageImageView';
+import { tokenizerLabel } from '../utils/tokenizers';
+import { normalizationLabel } from '../utils/normalization';
+import { formatLabel, meanConfidence } from '../utils/formats';
+import { CHAR_CLASSES, classEdits, SPACE_ADJACENT_LABEL } from '../utils/charClasses';
+import { checkResult, DEFAULT_RULES, metricStatus, RULE_STATUSES, ruleMetric, worstStatus } from '../utils/rules';
+import { EMPTY_FILTERS, ERROR_FILTERS, ErrorFilter, filterResults, ResultFilters, searchDiffs, sortResults, SortDirection, SortKey } from '../utils/resultQuery';
+
+type DetailTab = 'word' | 'char' | 'side' | 'lines' | 'table' | 'image';
+
+const DETAIL_TABS: { id: DetailTab; label: string }[] = [
+  { id: 'word', label: '词级差异 (WER Diff)' },
+  { id: 'char', label: '字符级差异 (CER Diff)' },
+  { id: 'side', label: '左右对照' },
+  { id: 'lines', label: '逐行对照' },
+  { id: 'table', label: '表格结构' },
+  { id: 'image', label: '页面图像' },
+];
 
 interface ResultsTableProps {
   results: AnalysisResult[];
+  // A new object each time another panel asks to open a row, so repeated requests re-scroll
+  focus?: { pairId: string } | null;
+  pageImages?: Map<string, File>; // Scans by pair id
+  rules?: QualityRule[];
 }
 
-export const ResultsTable: React.FC<ResultsTableProps> = ({ results }) => {
-  const [expandedId, setExpandedId] = useState<string | null>(null);
+const STATUS_TEXT: Record<RuleStatus, string> = {
+  pass: 'text-gray-900',
+  warn: 'text-yellow-700',
+  fail: 'text-red-600',
+};
+
+const PAGE_SIZE = 50;
+
+// Error rates are most useful worst-first, accuracy lowest-first
+const DEFAULT_DIRECTION: Record<SortKey, SortDirection> = {
+  name: 'asc',
+  cer: 'desc',
+  wer: 'desc',
+  punctuation: 'asc',
+  teds: 'asc',
+  status: 'desc',
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+// Range bounds are typed as percentages and kept as fractions
+const fromPercentInput = (value: string) => {
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n / 100 : undefined;
+};
+
+export const ResultsTable: React.FC<ResultsTableProps> = ({ results, focus, pageImages, rules = DEFAULT_RULES }) => {
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [detailTab, setDetailTab] = useState<DetailTab>('word');
+  const [sort, setSort] = useState<{ key: SortKey; direction: SortDirection } | null>(null);
+  const [filters, setFilters] = useState<ResultFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(0);
+  const [scrollTarget, setScrollTarget] = useState<{ pairId: string } | null>(null);
+  const rowRefs = useRef<Record<string, HTMLTableRowElement | null>>({});
+
+  // Searching every diff on each keystroke would make typing lag on large sets
+  const query = useDeferredValue(filters.query.trim());
+  const searchHits = useMemo(
+    () => new Map(query ? results.map(r => [r.pairId, searchDiffs(r, query)]) : []),
+    [results, query]
+  );
+  const sorted = useMemo(
+    () => (sort ? sortResults(results, sort.key, sort.direction, rules) : results),
+    [results, sort, rules]
+  );
+  const visible = useMemo(
+    () => filterResults(sorted, { ...filters, query }, rules, searchHits),
+    [sorted, filters, query, rules, searchHits]
+  );
+
+  const pageCount = Math.max(1, Math.ceil(visible.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = visible.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  // A row asked for by another panel is shown even if the filters hid it
+  useEffect(() => {
+    if (!focus) return;
+    let index = visible.findIndex(r => r.pairId === focus.pairId);
+    if (index === -1) {
+      setFilters(EMPTY_FILTERS);
+      index = sorted.findIndex(r => r.pairId === focus.pairId);
+    }
+    if (index === -1) return;
+    setPage(Math.floor(index / PAGE_SIZE));
+    setExpandedIds(prev => new Set(prev).add(focus.pairId));
+    setScrollTarget({ pairId: focus.pairId });
+  }, [focus]);
+
+  useEffect(() => {
+    if (scrollTarget) rowRefs.current[scrollTarget.pairId]?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [scrollTarget]);
 
   if (results.length === 0) return null;
 
+  const hasTables = results.some(r => r.tables);
+  const columnCount = hasTables ? 7 : 6;
+
   const toggleRow = (id: string) => {
-    setExpandedId(expandedId === id ? null : id);
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
   };
 
-  const renderDiff = (diffs: DiffItem[]) => {
-    return (
-      <div className="flex flex-wrap gap-1.5 text-sm leading-relaxed p-4 bg-gray-50 rounded border border-gray-200 font-mono">
-        {diffs.map((item, idx) => {
-          if (item.type === 'match') {
-            return <span key={idx} className="text-gray-600">{item.truth}</span>;
-          }
-          if (item.type === 'deletion') {
-            return (
-              <span key={idx} className="bg-red-100 text-red-700 px-1 rounded line-through decoration-red-500" title="漏读">
-                {item.truth}
-              </span>
-            );
-          }
-          if (item.type === 'insertion') {
-            return (
-              <span key={idx} className="bg-red-100 text-red-700 px-1 rounded font-bold border border-red-200" title="多读">
-                {item.ocr}
-              </span>
-            );
-          }
-          if (item.type === 'substitution') {
-            return (
-              <span key={idx} className="bg-orange-100 text-orange-800 px-1 rounded border border-orange-200 flex flex-col items-center justify-center leading-none py-1 mx-1" title="错误替换">
-                 <span className="line-through text-[10px] opacity-60 mb-0.5">{item.truth}</span>
-                 <span className="font-bold">{item.ocr}</span>
-              </span>
-            );
-          }
-          return null;
-        })}
-      </div>
-    );
+  const updateFilters = (patch: Partial<ResultFilters>) => {
+    setFilters(prev => ({ ...prev, ...patch }));
+    setPage(0);
   };
 
+  // Clicking the sorted column flips it; a third click restores the input order
+  const toggleSort = (key: SortKey) => {
+    setPage(0);
+    if (sort?.key !== key) setSort({ key, direction: DEFAULT_DIRECTION[key] });
+    else if (sort.direction === DEFAULT_DIRECTION[key]) setSort({ key, direction: sort.direction === 'asc' ? 'desc' : 'asc' });
+    else setSort(null);
+  };
+
+  const renderHeader = (label: string, key: SortKey, align: 'text-left' | 'text-right' | 'text-center') => (
+    <th
+      onClick={() => toggleSort(key)}
+      className={`px-6 py-3 ${align} text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer select-none hover:text-gray-700`}
+    >
+      {label}
+      <span className="ml-1 text-gray-400">{sort?.key === key ? (sort.direction === 'asc' ? '▲' : '▼') : ''}</span>
+    </th>
+  );
+
   // Helper component for tooltips
-  const TableTooltip = ({ title, formula, values }: { title: string, formula: string, values: string }) => (
+  const TableTooltip = ({ title, formula, values, details = [] }: { title: string, formula: string, values: string, details?: { label: string, value: string }[] }) => (
     <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-64 p-3 bg-slate-800 text-white text-xs rounded-lg shadow-xl opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-20">
       <div className="font-bold text-slate-100 mb-1 border-b border-slate-600 pb-1">{title}</div>
       <div className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-1 my-1">
@@ -58,95 +149,317 @@ export const ResultsTable: React.FC<ResultsTableProps> = ({ results }) => {
         <span className="font-mono text-amber-300">{formula}</span>
         <span className="text-slate-400 text-right">计算:</span>
         <span className="font-mono">{values}</span>
+        {details.map(d => (
+          <React.Fragment key={d.label}>
+            <span className="text-slate-400 text-right">{d.label}:</span>
+            <span>{d.value}</span>
+          </React.Fragment>
+        ))}
       </div>
       <div className="absolute top-full left-1/2 -translate-x-1/2 -mt-1 border-4 border-transparent border-t-slate-800"></div>
     </div>
   );
 
-  return (
-    <div className="overflow-x-auto border rounded-lg shadow-sm">
-      <table className="min-w-full divide-y divide-gray-200 bg-white">
-        <thead className="bg-gray-50">
-          <tr>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">文件配对</th>
-            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">字符错误率 (CER)</th>
-            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">词错误率 (WER)</th>
-            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">标点准确率</th>
-            <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">操作</th>
-          </tr>
-        </thead>
-        <tbody className="divide-y divide-gray-200">
-          {results.map((res) => (
-            <React.Fragment key={res.pairId}>
-              <tr 
-                className={`hover:bg-gray-50 cursor-pointer transition-colors ${expandedId === res.pairId ? 'bg-blue-50' : ''}`}
-                onClick={() => toggleRow(res.pairId)}
+  // Per-class CER lines for the tooltip, skipping classes the document doesn't have
+  const charClassDetails = (res: AnalysisResult) => {
+    if (!res.charClasses) return [];
+    const { classes, spaceAdjacent } = res.charClasses;
+    return [
+      ...CHAR_CLASSES.map(c => ({ label: c.label, stats: classes[c.id] })),
+      { label: SPACE_ADJACENT_LABEL, stats: spaceAdjacent },
+    ]
+      .filter(({ stats }) => stats.truthCount > 0 || classEdits(stats) > 0)
+      .map(({ label, stats }) => ({ label, value: `${percent(stats.cer)} (${classEdits(stats)}/${stats.truthCount})` }));
+  };
+
+  // Only runs that parsed ground-truth markup report exclusions
+  const markupDetails = (excluded: number | undefined, unit: string) =>
+    excluded === undefined ? [] : [{ label: '标记排除', value: `${excluded} ${unit} (未计入分母)` }];
+
+  // Overall verdict; the tooltip lists the rules that were not met
+  const renderStatus = (res: AnalysisResult) => {
+    const checks = checkResult(res, rules);
+    if (checks.length === 0) return <td className="px-6 py-4 text-center text-xs text-gray-400">—</td>;
+    const status = worstStatus(checks.map(c => c.status));
+    const breached = checks.filter(c => c.status !== 'pass');
+    const title = breached.length === 0
+      ? `满足全部 ${checks.length} 条规则`
+      : breached.map(c => {
+          const metric = ruleMetric(c.rule.metric);
+          const limit = c.status === 'fail' ? c.rule.fail! : c.rule.warn!;
+          return `${RULE_STATUSES[c.status].label}: ${metric.label} ${percent(c.value)} ${metric.lowerIsBetter ? '>' : '<'} ${percent(limit)}`;
+        }).join('\n');
+    return (
+      <td className="px-6 py-4 whitespace-nowrap text-center text-xs">
+        <span className={`px-2 py-0.5 rounded ${RULE_STATUSES[status].className}`} title={title}>{RULE_STATUSES[status].label}</span>
+      </td>
+    );
+  };
+
+  // Table scores only for documents whose truth has a table
+  const renderTeds = (res: AnalysisResult) => {
+    if (!res.tables) return <td className="px-6 py-4 text-right text-xs text-gray-400">—</td>;
+    const { structure, full, truthCells, ocrCells } = res.tables;
+    if (structure === undefined || full === undefined) {
+      return (
+        <td className="px-6 py-4 whitespace-nowrap text-right text-xs text-gray-400" title={`表格过大 (超过 ${MAX_TABLE_NODES} 个节点)，未计算 TEDS；单元格对照仍可查看`}>
+          表格过大
+        </td>
+      );
+    }
+    return (
+      <td className="px-6 py-4 whitespace-nowrap text-right text-sm relative group">
+        <span className="border-b border-dotted border-gray-300 cursor-help">{percent(full)}</span>
+        <div className="text-[10px] text-gray-400">结构 {percent(structure)}</div>
+        <TableTooltip
+          title="表格结构相似度 (TEDS)"
+          formula="1 - 树编辑距离 / 较大表格树的节点数"
+          values={`结构 + 内容 ${percent(full)}`}
+          details={[
+            { label: '仅结构', value: percent(structure) },
+            { label: '单元格', value: `真值 ${truthCells} / OCR ${ocrCells}` }
+          ]}
+        />
+      </td>
+    );
+  };
+
+  const renderDetails = (res: AnalysisResult) => {
+    const image = pageImages?.get(res.pairId);
+    // Rows without a scan or a table fall back to the word diff
+    const tab = (detailTab === 'image' && !image) || (detailTab === 'table' && !res.tables) ? 'word' : detailTab;
+    return (
+      <tr>
+        <td colSpan={columnCount} className="px-6 py-4 bg-gray-50">
+          <div className="mb-3 flex gap-1 border-b border-gray-200">
+            {DETAIL_TABS.filter(t => (t.id !== 'image' || image) && (t.id !== 'table' || res.tables)).map(t => (
+              <button
+                key={t.id}
+                onClick={() => setDetailTab(t.id)}
+                className={`px-3 py-1.5 text-xs font-semibold uppercase -mb-px border-b-2 transition-colors ${tab === t.id ? 'border-blue-600 text-blue-700' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
               >
-                <td className="px-6 py-4 whitespace-nowrap">
-                  <div className="flex flex-col">
-                    <span className="text-sm font-medium text-gray-900">{res.truthFileName}</span>
-                    <span className="text-xs text-gray-500">对比 {res.ocrFileName}</span>
-                  </div>
-                </td>
-                
-                {/* CER */}
-                <td className={`px-6 py-4 whitespace-nowrap text-right text-sm font-medium relative group ${res.cer.score > 0.05 ? 'text-red-600' : 'text-gray-900'}`}>
-                  <span className="border-b border-dotted border-gray-300 cursor-help">
-                    {(res.cer.score * 100).toFixed(2)}%
-                  </span>
-                  <TableTooltip 
-                    title="字符错误率 (CER)"
-                    formula="编辑距离 / 真值总长度"
-                    values={`${res.cer.numerator} / ${res.cer.denominator}`}
-                  />
-                </td>
-
-                {/* WER */}
-                <td className={`px-6 py-4 whitespace-nowrap text-right text-sm font-medium relative group ${res.wer.score > 0.1 ? 'text-red-600' : 'text-gray-900'}`}>
-                  <span className="border-b border-dotted border-gray-300 cursor-help">
-                    {(res.wer.score * 100).toFixed(2)}%
-                  </span>
-                  <TableTooltip 
-                    title="词错误率 (WER)"
-                    formula="(替换+插入+删除) / 真值总词数"
-                    values={`(${res.wer.breakdown?.s} + ${res.wer.breakdown?.i} + ${res.wer.breakdown?.d}) / ${res.wer.denominator}`}
-                  />
-                </td>
-
-                {/* Punctuation */}
-                <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900 relative group">
-                  <span className="border-b border-dotted border-gray-300 cursor-help">
-                    {(res.punctuationAccuracy.score * 100).toFixed(2)}%
-                  </span>
-                  <TableTooltip 
-                    title="标点符号准确率"
-                    formula="1 - (编辑距离 / 标点总数)"
-                    values={`1 - (${res.punctuationAccuracy.numerator} / ${res.punctuationAccuracy.denominator})`}
-                  />
-                </td>
-
-                <td className="px-6 py-4 whitespace-nowrap text-center text-sm text-gray-500">
-                   <span className="text-blue-600 hover:underline">{expandedId === res.pairId ? '收起' : '查看差异'}</span>
-                </td>
-              </tr>
-              {expandedId === res.pairId && (
-                <tr>
-                  <td colSpan={5} className="px-6 py-4 bg-gray-50">
-                    <div className="mb-2 text-xs font-semibold text-gray-500 uppercase">词错误差异可视化 (WER Diff)</div>
-                    <div className="mb-2 text-xs text-gray-500 flex gap-4">
-                       <span className="flex items-center gap-1"><span className="w-2 h-2 bg-green-500 rounded-full"></span>匹配</span>
-                       <span className="flex items-center gap-1"><span className="w-2 h-2 bg-red-500 rounded-full"></span>漏读 (Deletion)</span>
-                       <span className="flex items-center gap-1"><span className="w-2 h-2 bg-red-700 rounded-full"></span>多读 (Insertion)</span>
-                       <span className="flex items-center gap-1"><span className="w-2 h-2 bg-orange-500 rounded-full"></span>错误替换 (Substitution)</span>
+                {t.label}
+              </button>
+            ))}
+          </div>
+          {tab !== 'lines' && tab !== 'table' && <DiffLegend />}
+          {tab === 'word' && <WordDiff diffs={res.wer.diffs} tokenizer={res.wer.tokenizer} highlighted={searchHits.get(res.pairId)} />}
+          {tab === 'char' && <CharDiff diffs={res.cer.diffs} />}
+          {tab === 'side' && <SideBySideDiff diffs={res.cer.diffs} />}
+          {tab === 'lines' && <LineComparison lines={res.lines} wer={res.wer.score} />}
+          {tab === 'table' && res.tables && <TableComparison tables={res.tables} />}
+          {tab === 'image' && image && (
+            <PageImageView
+              image={image}
+              diffs={res.wer.diffs}
+              tokenizer={res.wer.tokenizer}
+              normalization={res.normalization}
+              lines={res.ocrLines}
+            />
+          )}
+          <h4 className="mt-4 mb-2 text-xs font-semibold text-gray-500 uppercase">标点明细 (逐符号精确率 / 召回率 / F1)</h4>
+          <PunctuationBreakdown marks={res.punctuationAccuracy.marks} />
+        </td>
+      </tr>
+    );
+  };
+
+  const inputClass = 'border rounded px-2 py-1 bg-white';
+  const matchedCount = query ? visible.filter(r => searchHits.get(r.pairId)?.size).length : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => updateFilters({ query: e.target.value })}
+          placeholder="在所有差异中搜索文字…"
+          className={`${inputClass} w-48`}
+        />
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={filters.matchesOnly} onChange={(e) => updateFilters({ matchesOnly: e.target.checked })} />
+          仅显示命中
+        </label>
+        <span className="flex items-center gap-1">
+          CER
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={filters.cerMin === undefined ? '' : +(filters.cerMin * 100).toFixed(4)}
+            onChange={(e) => updateFilters({ cerMin: fromPercentInput(e.target.value) })}
+            placeholder="0"
+            className={`${inputClass} w-16`}
+          />
+          –
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={filters.cerMax === undefined ? '' : +(filters.cerMax * 100).toFixed(4)}
+            onChange={(e) => updateFilters({ cerMax: fromPercentInput(e.target.value) })}
+            placeholder="100"
+            className={`${inputClass} w-16`}
+          />
+          %
+        </span>
+        <select value={filters.errors} onChange={(e) => updateFilters({ errors: e.target.value as ErrorFilter })} className={inputClass}>
+          {ERROR_FILTERS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+        </select>
+        <select value={filters.status} onChange={(e) => updateFilters({ status: e.target.value as ResultFilters['status'] })} className={inputClass}>
+          <option value="all">状态: 全部</option>
+          {(Object.keys(RULE_STATUSES) as RuleStatus[]).map(s => <option key={s} value={s}>{RULE_STATUSES[s].label}</option>)}
+        </select>
+        <span className="ml-auto flex items-center gap-3">
+          <span>
+            显示 {visible.length} / {results.length}
+            {query && ` · 命中 ${matchedCount} 个文档`}
+          </span>
+          {expandedIds.size > 0 && (
+            <button onClick={() => setExpandedIds(new Set())} className="text-blue-600 hover:underline">全部收起 ({expandedIds.size})</button>
+          )}
+          <button onClick={() => { setFilters(EMPTY_FILTERS); setPage(0); }} className="text-gray-500 hover:underline">重置筛选</button>
+        </span>
+      </div>
+
+      <div className="overflow-x-auto border rounded-lg shadow-sm">
+        <table className="min-w-full divide-y divide-gray-200 bg-white">
+          <thead className="bg-gray-50">
+            <tr>
+              {renderHeader('文件配对', 'name', 'text-left')}
+              {renderHeader('字符错误率 (CER)', 'cer', 'text-right')}
+              {renderHeader('词错误率 (WER)', 'wer', 'text-right')}
+              {renderHeader('标点准确率', 'punctuation', 'text-right')}
+              {hasTables && renderHeader('表格 TEDS', 'teds', 'text-right')}
+              {renderHeader('状态', 'status', 'text-center')}
+              <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">操作</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {pageRows.length === 0 && (
+              <tr><td colSpan={columnCount} className="px-6 py-8 text-center text-sm text-gray-400">没有符合筛选条件的文档</td></tr>
+            )}
+            {pageRows.map((res) => (
+              <React.Fragment key={res.pairId}>
+                <tr 
+                  ref={(el) => { rowRefs.current[res.pairId] = el; }}
+                  className={`hover:bg-gray-50 cursor-pointer transition-colors ${expandedIds.has(res.pairId) ? 'bg-blue-50' : ''} ${searchHits.get(res.pairId)?.size ? 'shadow-[inset_3px_0_0_#facc15]' : ''}`}
+                  onClick={() => toggleRow(res.pairId)}
+                >
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="flex flex-col">
+                      <span className="text-sm font-medium text-gray-900">
+                        {res.truthFileName}
+                        {!!searchHits.get(res.pairId)?.size && (
+                          <span className="ml-2 px-1.5 py-0.5 rounded bg-yellow-100 text-yellow-800 text-[10px]">命中 {searchHits.get(res.pairId)!.size}</span>
+                        )}
+                      </span>
+                      <span className="text-xs text-gray-500">对比 {res.ocrFileName}</span>
+                      {(res.truthFormat !== 'text' || res.ocrFormat !== 'text') && (
+                        <span className="text-[10px] text-gray-400 mt-0.5">
+                          {formatLabel(res.truthFormat)} / {formatLabel(res.ocrFormat)}
+                          {res.ocrLines && meanConfidence(res.ocrLines) !== undefined && ` · 平均置信度 ${(meanConfidence(res.ocrLines)! * 100).toFixed(1)}%`}
+                        </span>
+                      )}
+                      {!!res.tags?.length && (
+                        <span
+                          className="flex flex-wrap gap-1 mt-1"
+                          title={Object.entries(res.metadata ?? {}).map(([k, v]) => `${k}: ${v}`).join('\n') || undefined}
+                        >
+                          {res.tags.map(tag => (
+                            <span key={tag} className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-600 text-[10px]">{tag}</span>
+                          ))}
+                        </span>
+                      )}
                     </div>
-                    {renderDiff(res.wer.diffs)}
+                  </td>
+                  
+                  {/* CER */}
+                  <td className={`px-6 py-4 whitespace-nowrap text-right text-sm font-medium relative group ${STATUS_TEXT[metricStatus(res, 'cer', rules) ?? 'pass']}`}>
+                    <span className="border-b border-dotted border-gray-300 cursor-help">
+                      {(res.cer.score * 100).toFixed(2)}%
+                    </span>
+                    <TableTooltip 
+                      title="字符错误率 (CER)"
+                      formula="编辑距离 / 真值总长度"
+                      values={`${res.cer.numerator} / ${res.cer.denominator}`}
+                      details={[
+                        { label: '替/插/删', value: `${res.cer.breakdown?.s} / ${res.cer.breakdown?.i} / ${res.cer.breakdown?.d}` },
+                        ...charClassDetails(res),
+                        ...markupDetails(res.cer.excluded, '字符'),
+                        { label: '归一化', value: normalizationLabel(res.normalization) }
+                      ]}
+                    />
+                  </td>
+
+                  {/* WER */}
+                  <td className={`px-6 py-4 whitespace-nowrap text-right text-sm font-medium relative group ${STATUS_TEXT[metricStatus(res, 'wer', rules) ?? 'pass']}`}>
+                    <span className="border-b border-dotted border-gray-300 cursor-help">
+                      {(res.wer.score * 100).toFixed(2)}%
+                    </span>
+                    <TableTooltip 
+                      title="词错误率 (WER)"
+                      formula="(替换+插入+删除) / 真值总词数"
+                      values={`(${res.wer.breakdown?.s} + ${res.wer.breakdown?.i} + ${res.wer.breakdown?.d}) / ${res.wer.denominator}`}
+                      details={[
+                        { label: '分词', value: tokenizerLabel(res.wer.tokenizer) },
+                        ...markupDetails(res.wer.excluded, '词'),
+                        { label: '归一化', value: normalizationLabel(res.normalization) }
+                      ]}
+                    />
+                  </td>
+
+                  {/* Punctuation */}
+                  <td className={`px-6 py-4 whitespace-nowrap text-right text-sm relative group ${STATUS_TEXT[metricStatus(res, 'punctuation', rules) ?? 'pass']}`}>
+                    <span className="border-b border-dotted border-gray-300 cursor-help">
+                      {(res.punctuationAccuracy.score * 100).toFixed(2)}%
+                    </span>
+                    <TableTooltip 
+                      title="标点符号准确率"
+                      formula="1 - (编辑距离 / 标点总数)"
+                      values={`1 - (${res.punctuationAccuracy.numerator} / ${res.punctuationAccuracy.denominator})`}
+                      details={[
+                        { label: '替/插/删', value: `${res.punctuationAccuracy.breakdown?.s ?? 0} / ${res.punctuationAccuracy.breakdown?.i ?? 0} / ${res.punctuationAccuracy.breakdown?.d ?? 0}` },
+                        { label: '归一化', value: normalizationLabel(res.normalization.filter(s => s !== 'strip-punctuation')) }
+                      ]}
+                    />
+                  </td>
+
+                  {hasTables && renderTeds(res)}
+
+                  {renderStatus(res)}
+
+                  <td className="px-6 py-4 whitespace-nowrap text-center text-sm text-gray-500">
+                     <span className="text-blue-600 hover:underline">{expandedIds.has(res.pairId) ? '收起' : '查看差异'}</span>
                   </td>
                 </tr>
-              )}
-            </React.Fragment>
-          ))}
-        </tbody>
-      </table>
+                {expandedIds.has(res.pairId) && renderDetails(res)}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-2 text-xs text-gray-600">
+          <button
+            onClick={() => setPage(currentPage - 1)}
+            disabled={currentPage === 0}
+            className="px-2 py-1 rounded border bg-white disabled:opacity-40"
+          >
+            上一页
+          </button>
+          <span className="tabular-nums">第 {currentPage + 1} / {pageCount} 页</span>
+          <button
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage >= pageCount - 1}
+            className="px-2 py-1 rounded border bg-white disabled:opacity-40"
+          >
+            下一页
+          </button>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
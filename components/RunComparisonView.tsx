@@ -0,0 +1,108 @@
+import React, { useMemo } from 'react';
+import { AverageKey, RunRecord } from '../types';
+import { compareRuns, DocumentChange, scoreOf, SIGNIFICANCE_LEVEL } from '../utils/runDiff';
+
+interface RunComparisonViewProps {
+  base: RunRecord;
+  target: RunRecord;
+}
+
+const METRICS: { key: AverageKey; label: string; higherIsBetter: boolean }[] = [
+  { key: 'avgCer', label: 'CER', higherIsBetter: false },
+  { key: 'avgWer', label: 'WER', higherIsBetter: false },
+  { key: 'avgPunc', label: '标点准确率', higherIsBetter: true },
+];
+
+const CHANGE_LABELS: Record<DocumentChange, { label: string; className: string }> = {
+  improved: { label: '改进', className: 'bg-green-100 text-green-800' },
+  regressed: { label: '退化', className: 'bg-red-100 text-red-800' },
+  unchanged: { label: '持平', className: 'bg-gray-100 text-gray-600' },
+  added: { label: '新增', className: 'bg-blue-100 text-blue-800' },
+  removed: { label: '移除', className: 'bg-gray-200 text-gray-600' },
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
+// Green when the change is an improvement for that metric, red when it is a regression
+const deltaClass = (delta: number, higherIsBetter: boolean) => {
+  if (Math.abs(delta) < 1e-9) return 'text-gray-500';
+  return (delta > 0) === higherIsBetter ? 'text-green-700' : 'text-red-600';
+};
+
+export const RunComparisonView: React.FC<RunComparisonViewProps> = ({ base, target }) => {
+  // The permutation tests are not free, so only rerun them when the pair of runs changes
+  const { documents, aggregates, counts } = useMemo(() => compareRuns(base, target), [base, target]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {aggregates.map(agg => {
+          const metric = METRICS.find(m => m.key === agg.key)!;
+          return (
+            <div key={agg.key} className="border rounded-lg p-3 bg-white text-sm">
+              <div className="text-xs text-gray-500 mb-1">{metric.label} (宏平均，共同文档)</div>
+              <div className="flex items-baseline gap-2">
+                <span className="text-gray-500 tabular-nums">{percent(agg.base)}</span>
+                <span className="text-gray-400">→</span>
+                <span className="font-semibold tabular-nums">{percent(agg.target)}</span>
+                <span className={`font-semibold tabular-nums ${deltaClass(agg.delta, metric.higherIsBetter)}`}>{signed(agg.delta)}</span>
+              </div>
+              <div className="text-xs text-gray-500 mt-1 tabular-nums">
+                95% CI {signed(agg.ci95[0])} – {signed(agg.ci95[1])} · p = {agg.pValue.toFixed(3)}
+                <span className={`ml-2 px-1.5 py-0.5 rounded ${agg.significant ? 'bg-amber-100 text-amber-800' : 'bg-gray-100 text-gray-500'}`}>
+                  {agg.significant ? '显著' : '不显著'}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {(Object.keys(CHANGE_LABELS) as DocumentChange[]).map(c => `${CHANGE_LABELS[c].label} ${counts[c]}`).join(' · ')}
+        <span className="ml-2 text-gray-400">显著性: 配对置换检验，p &lt; {SIGNIFICANCE_LEVEL}</span>
+      </p>
+
+      <div className="max-h-96 overflow-y-auto border rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200 bg-white text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">文档</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">变化</th>
+              {METRICS.map(m => (
+                <th key={m.key} className="px-4 py-2 text-right text-xs font-medium text-gray-500">{m.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {documents.map(doc => (
+              <tr key={doc.key}>
+                <td className="px-4 py-2 whitespace-nowrap">
+                  <div className="text-gray-900">{doc.truthFileName}</div>
+                  <div className="text-xs text-gray-400">
+                    {doc.engineName}
+                    {doc.inputChanged && <span className="ml-2 text-amber-700" title="两次运行的输入文件内容哈希不同">输入已变化</span>}
+                  </div>
+                </td>
+                <td className="px-4 py-2">
+                  <span className={`px-1.5 py-0.5 rounded text-xs ${CHANGE_LABELS[doc.change].className}`}>{CHANGE_LABELS[doc.change].label}</span>
+                </td>
+                {METRICS.map(m => {
+                  const delta = doc.deltas?.[m.key];
+                  return (
+                    <td key={m.key} className="px-4 py-2 text-right tabular-nums whitespace-nowrap">
+                      <div className="text-gray-900">{doc.target ? percent(scoreOf(doc.target, m.key)) : '—'}</div>
+                      {delta !== undefined && <div className={`text-xs ${deltaClass(delta, m.higherIsBetter)}`}>{signed(delta)}</div>}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { RunRecord } from '../types';
+import { deleteRun, listRuns, renameRun } from '../utils/history';
+import { mean } from '../utils/statistics';
+import { RunComparisonView } from './RunComparisonView';
+
+interface RunHistoryProps {
+  refreshKey: number; // Bumped by the parent after saving a run
+  onLoad: (run: RunRecord) => void;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+export const RunHistory: React.FC<RunHistoryProps> = ({ refreshKey, onLoad }) => {
+  const [runs, setRuns] = useState<RunRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<string>('');
+  const [targetId, setTargetId] = useState<string>('');
+
+  const reload = () =>
+    listRuns()
+      .then(list => {
+        setRuns(list);
+        setError(null);
+      })
+      .catch(err => {
+        console.error(err);
+        setError('无法读取本地历史记录 (浏览器可能禁用了 IndexedDB)');
+      });
+
+  useEffect(() => { reload(); }, [refreshKey]);
+
+  const rename = (run: RunRecord, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === run.name) return;
+    renameRun(run.id, trimmed).then(reload).catch(err => console.error(err));
+  };
+
+  const remove = (run: RunRecord) => {
+    if (!window.confirm(`删除运行记录“${run.name}”？`)) return;
+    if (baseId === run.id) setBaseId('');
+    if (targetId === run.id) setTargetId('');
+    deleteRun(run.id).then(reload).catch(err => console.error(err));
+  };
+
+  const base = runs.find(r => r.id === baseId);
+  const target = runs.find(r => r.id === targetId);
+
+  return (
+    <section className="bg-white p-6 rounded-xl border shadow-sm space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">历史运行记录</h2>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {!error && runs.length === 0 && <p className="text-sm text-gray-400">暂无记录，完成一次评估后会自动保存在本地浏览器中。</p>}
+
+      {runs.length > 0 && (
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-center text-xs font-medium text-gray-500" title="对比基线">基线</th>
+                <th className="px-3 py-2 text-center text-xs font-medium text-gray-500" title="对比目标">目标</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">名称</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">时间</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">引擎</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">文件对</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">平均 CER</th>
+                <th className="px-3 py-2 text-center text-xs font-medium text-gray-500">操作</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {runs.map(run => {
+                return (
+                  <tr key={run.id} className={run.id === baseId || run.id === targetId ? 'bg-blue-50' : ''}>
+                    <td className="px-3 py-2 text-center">
+                      <input type="radio" name="run-base" checked={baseId === run.id} onChange={() => setBaseId(run.id)} />
+                    </td>
+                    <td className="px-3 py-2 text-center">
+                      <input type="radio" name="run-target" checked={targetId === run.id} onChange={() => setTargetId(run.id)} />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        defaultValue={run.name}
+                        onBlur={(e) => rename(run, e.target.value)}
+                        className="border border-transparent hover:border-gray-300 focus:border-blue-400 rounded px-1 py-0.5 w-48"
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-gray-600 whitespace-nowrap">{new Date(run.createdAt).toLocaleString()}</td>
+                    <td className="px-3 py-2 text-gray-600">{run.engines.map(e => e.name).join('、')}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">{run.results.length}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">{run.results.length > 0 ? percent(mean(run.results.map(r => r.cer.score))) : '—'}</td>
+                    <td className="px-3 py-2 text-center whitespace-nowrap text-xs">
+                      <button onClick={() => onLoad(run)} className="text-blue-600 hover:underline mr-3">查看</button>
+                      <button onClick={() => remove(run)} className="text-red-600 hover:underline">删除</button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {base && target && base.id !== target.id && (
+        <div>
+          <h3 className="text-base font-medium text-gray-900 mb-3">
+            对比: {base.name} → {target.name}
+          </h3>
+          <RunComparisonView base={base} target={target} />
+        </div>
+      )}
+      {runs.length > 1 && (!base || !target || base.id === target.id) && (
+        <p className="text-xs text-gray-400">选择一条基线记录和一条不同的目标记录以查看逐文档变化。</p>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,96 @@
+import React from 'react';
+import { AnalysisSettings, NormalizationStep, TokenizerId } from '../types';
+import { TOKENIZERS } from '../utils/tokenizers';
+import { NORMALIZATION_STEPS } from '../utils/normalization';
+import { DEFAULT_PUNCTUATION_MARKS } from '../utils/punctuation';
+import { MARKUP_HINT } from '../utils/markup';
+import { FieldSettings } from './FieldSettings';
+
+interface SettingsPanelProps {
+  settings: AnalysisSettings;
+  onChange: (settings: AnalysisSettings) => void;
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange }) => {
+  const toggleStep = (step: NormalizationStep) => {
+    const normalization = settings.normalization.includes(step)
+      ? settings.normalization.filter(s => s !== step)
+      : [...settings.normalization, step];
+    onChange({ ...settings, normalization });
+  };
+
+  return (
+    <div className="bg-gray-50 rounded border p-4 text-xs space-y-4">
+      <label className="flex items-center gap-2 text-gray-600">
+        <span className="font-medium text-gray-700 w-24">WER 分词方式</span>
+        <select
+          value={settings.tokenizer}
+          onChange={(e) => onChange({ ...settings, tokenizer: e.target.value as TokenizerId })}
+          className="border rounded px-2 py-1 bg-white"
+        >
+          {TOKENIZERS.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+        </select>
+        <span className="text-gray-400">{TOKENIZERS.find(t => t.id === settings.tokenizer)?.description}</span>
+      </label>
+
+      <div className="flex gap-2">
+        <span className="font-medium text-gray-700 w-24 shrink-0">文本归一化</span>
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {NORMALIZATION_STEPS.map((step, i) => (
+            <label key={step.id} className="flex items-center gap-1 text-gray-600 cursor-pointer" title={step.description}>
+              <input
+                type="checkbox"
+                checked={settings.normalization.includes(step.id)}
+                onChange={() => toggleStep(step.id)}
+              />
+              <span className="text-gray-400">{i + 1}.</span>
+              {step.label}
+            </label>
+          ))}
+        </div>
+      </div>
+      <p className="text-gray-400">归一化按编号顺序执行，同时作用于 CER、WER 与标点准确率。</p>
+
+      <label className="flex items-start gap-2 text-gray-600 cursor-pointer">
+        <span className="font-medium text-gray-700 w-24 shrink-0">真值标记</span>
+        <input
+          type="checkbox"
+          checked={!!settings.truthMarkup}
+          onChange={(e) => onChange({ ...settings, truthMarkup: e.target.checked })}
+          className="mt-0.5"
+        />
+        <span>解析真值中的标记：{MARKUP_HINT}。</span>
+      </label>
+
+      <div className="flex gap-2">
+        <span className="font-medium text-gray-700 w-24 shrink-0">标点符号集合</span>
+        <div className="flex-1 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={settings.punctuation.marks}
+              onChange={(e) => onChange({ ...settings, punctuation: { ...settings.punctuation, marks: e.target.value } })}
+              className="flex-1 border rounded px-2 py-1 font-mono bg-white"
+            />
+            <button
+              onClick={() => onChange({ ...settings, punctuation: { ...settings.punctuation, marks: DEFAULT_PUNCTUATION_MARKS } })}
+              className="text-blue-600 hover:underline"
+            >
+              恢复默认
+            </button>
+          </div>
+          <label className="flex items-center gap-1 text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.punctuation.widthInsensitive}
+              onChange={(e) => onChange({ ...settings, punctuation: { ...settings.punctuation, widthInsensitive: e.target.checked } })}
+            />
+            全角与半角标点视为相同 (如 ，与 ,、。与 .)
+          </label>
+        </div>
+      </div>
+
+      <FieldSettings fields={settings.fields ?? []} onChange={(fields) => onChange({ ...settings, fields })} />
+    </div>
+  );
+};
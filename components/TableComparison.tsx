@@ -0,0 +1,94 @@
+import React from 'react';
+import { DiffType, TableCellDiff, TableMetrics } from '../types';
+import { MAX_TABLE_NODES } from '../utils/teds';
+
+interface TableComparisonProps {
+  tables: TableMetrics;
+}
+
+const percent = (value: number | undefined) => (value === undefined ? '—' : `${(value * 100).toFixed(1)}%`);
+
+const CELL_CLASS: Record<DiffType, string> = {
+  match: 'bg-white',
+  substitution: 'bg-orange-50 border-orange-300',
+  deletion: 'bg-red-50 border-red-300',
+  insertion: 'bg-red-100 border-red-400',
+  excluded: 'bg-slate-50',
+};
+
+const cellTitle = (cell: TableCellDiff): string | undefined => {
+  switch (cell.type) {
+    case 'substitution': return `真值: ${cell.truth || '(空)'}\nOCR: ${cell.ocr || '(空)'}`;
+    case 'deletion': return 'OCR 缺少此单元格';
+    case 'insertion': return 'OCR 多出的单元格';
+    default: return undefined;
+  }
+};
+
+const renderText = (text: string | undefined) => (text ? text : <span className="text-gray-300">∅</span>);
+
+/**
+ * Truth and OCR tables side by side after row and cell alignment; every
+ * cell that differs is tinted and shows both versions.
+ */
+export const TableComparison: React.FC<TableComparisonProps> = ({ tables }) => (
+  <div className="space-y-3">
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+      <div className="bg-white border rounded p-2" title="只比较行、单元格及其跨行跨列，不看文字">
+        <div className="text-gray-500">TEDS (仅结构)</div>
+        <div className="text-sm font-semibold text-gray-900">{percent(tables.structure)}</div>
+      </div>
+      <div className="bg-white border rounded p-2" title="结构相同的单元格再按文字的归一化编辑距离计分">
+        <div className="text-gray-500">TEDS (结构 + 内容)</div>
+        <div className="text-sm font-semibold text-gray-900">{percent(tables.full)}</div>
+      </div>
+      <div className="bg-white border rounded p-2">
+        <div className="text-gray-500">表格数 (真值 / OCR)</div>
+        <div className={`text-sm font-semibold ${tables.truthTables !== tables.ocrTables ? 'text-red-600' : 'text-gray-900'}`}>
+          {tables.truthTables} / {tables.ocrTables}
+        </div>
+      </div>
+      <div className="bg-white border rounded p-2">
+        <div className="text-gray-500">单元格数 (真值 / OCR)</div>
+        <div className={`text-sm font-semibold ${tables.truthCells !== tables.ocrCells ? 'text-red-600' : 'text-gray-900'}`}>
+          {tables.truthCells} / {tables.ocrCells}
+        </div>
+      </div>
+    </div>
+    {tables.tooLarge && (
+      <p className="text-xs text-amber-700">表格过大 (超过 {MAX_TABLE_NODES} 个节点)，未计算 TEDS，仅显示单元格对照。</p>
+    )}
+    <p className="text-xs text-gray-400">↔n / ↕n 表示单元格跨 n 列 / n 行；橙色为内容或跨度不同，红色为缺少或多出的单元格。</p>
+
+    {tables.tables.map((table, t) => (
+      <div key={t} className="max-h-96 overflow-auto border rounded bg-white">
+        {tables.tables.length > 1 && <div className="px-2 py-1 text-xs font-medium text-gray-500 bg-gray-50 border-b">表格 {t + 1}</div>}
+        <table className="text-xs border-separate border-spacing-1">
+          <tbody>
+            {table.rows.map((row, r) => (
+              <tr key={r}>
+                <td className={`px-1 text-right ${row.type === 'match' ? 'text-gray-300' : 'text-red-600 font-bold'}`}>{r + 1}</td>
+                {row.cells.map((cell, c) => (
+                  <td key={c} title={cellTitle(cell)} className={`px-2 py-1 border rounded align-top ${CELL_CLASS[cell.type]}`}>
+                    {cell.type === 'substitution' ? (
+                      <div className="flex flex-col">
+                        <span className="line-through text-gray-500">{renderText(cell.truth)}</span>
+                        <span className="text-orange-700">{renderText(cell.ocr)}</span>
+                      </div>
+                    ) : cell.type === 'insertion' ? (
+                      <span className="text-red-700">+ {renderText(cell.ocr)}</span>
+                    ) : cell.type === 'deletion' ? (
+                      <span className="text-red-600 line-through">{renderText(cell.truth)}</span>
+                    ) : (
+                      renderText(cell.truth)
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    ))}
+  </div>
+);
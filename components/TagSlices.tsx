@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import { AnalysisResult, AverageKey, AveragingMode } from '../types';
+import { averageOf, computeAggregates } from '../utils/aggregates';
+import { hasTag, tagLabel, tagsOf } from '../utils/tags';
+
+interface TagSlicesProps {
+  results: AnalysisResult[]; // One engine's documents, before slicing
+  averaging: AveragingMode;
+  selected: string | null;
+  onSelect: (tag: string | null) => void;
+}
+
+const COLUMNS: { key: AverageKey; label: string; color: string }[] = [
+  { key: 'avgCer', label: 'CER', color: '#ef4444' },
+  { key: 'avgWer', label: 'WER', color: '#f97316' },
+  { key: 'avgPunc', label: '标点准确率', color: '#3b82f6' },
+];
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+export const TagSlices: React.FC<TagSlicesProps> = ({ results, averaging, selected, onSelect }) => {
+  // A document with several tags counts in each of their rows
+  const rows = useMemo(() => [
+    { tag: null as string | null, aggregates: computeAggregates(results) },
+    ...tagsOf(results).map(tag => ({ tag: tag as string | null, aggregates: computeAggregates(results.filter(r => hasTag(r, tag))) })),
+  ], [results]);
+
+  if (rows.length <= 1) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-xl border shadow-sm">
+      <h3 className="text-base font-medium text-gray-900 mb-1">按标签切片</h3>
+      <p className="text-xs text-gray-400 mb-4">点击一行，上方指标卡片、图表与详细数据只显示带该标签的文档；同一文档可属于多个标签。</p>
+      <table className="min-w-full text-sm">
+        <thead className="text-xs text-gray-500">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium">标签</th>
+            <th className="px-3 py-2 text-right font-medium">文档数</th>
+            {COLUMNS.map(c => <th key={c.key} className="px-3 py-2 text-left font-medium w-1/5">{c.label}</th>)}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.map(({ tag, aggregates }) => aggregates && (
+            <tr
+              key={tag ?? '*'}
+              onClick={() => onSelect(tag)}
+              className={`cursor-pointer ${selected === tag ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+            >
+              <td className="px-3 py-2 font-medium text-gray-900">{tag === null ? '全部文档' : tagLabel(tag)}</td>
+              <td className="px-3 py-2 text-right tabular-nums text-gray-600">{aggregates.fileCount}</td>
+              {COLUMNS.map(c => {
+                const value = averageOf(aggregates, c.key, averaging);
+                return (
+                  <td key={c.key} className="px-3 py-2">
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 h-2 bg-gray-100 rounded overflow-hidden">
+                        <div className="h-full rounded" style={{ width: `${Math.min(1, value) * 100}%`, backgroundColor: c.color }} />
+                      </div>
+                      <span className="w-16 text-right tabular-nums text-xs text-gray-700">{percent(value)}</span>
+                    </div>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
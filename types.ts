@@ -3,16 +3,143 @@ export interface FilePair {
   truthFile: File | null;
   ocrFile: File | null;
   truthContent?: string;
-  ocrContent?: string;
+  ocrContent?: string; // Text an OCR endpoint returned for the page image, kept so re-runs skip the request
   status: 'pending' | 'loading' | 'analyzed' | 'error';
+  error?: string; // Why the pair last failed
+  stem?: string; // Normalized filename key used for auto-pairing
+  excluded?: boolean; // Kept in the editor but skipped by the analysis
+  imageFile?: File; // Scan of the page, matched to the truth file by stem
+  tags?: string[];
+  metadata?: Record<string, string>; // Free-form columns from a dataset manifest
 }
 
-export type DiffType = 'match' | 'substitution' | 'insertion' | 'deletion';
+export interface OcrEngineSet {
+  id: string;
+  name: string; // e.g. "Tesseract", "PaddleOCR"
+  files: File[];
+  encoding?: EncodingChoice; // Applies to every file of the set unless overridden per file
+  provider?: OcrProviderConfig; // Recognize the page images through an endpoint instead of uploading results
+}
+
+export type ProviderBody = 'multipart' | 'json' | 'binary';
+
+// An HTTP OCR service, e.g. a self-hosted PaddleOCR or Tesseract server
+export interface OcrProviderConfig {
+  url: string;
+  body: ProviderBody;
+  fileField: string; // Form field holding the image in multipart requests
+  template: string; // JSON body, or extra form fields for multipart; may use {{image_base64}}, {{file_name}}, {{mime_type}}
+  headers: string; // One "Name: value" per line
+  responsePath: string; // Where the text sits in a JSON response, e.g. results[0].data[*].text; empty for plain text
+  concurrency: number;
+  timeoutSeconds: number;
+}
+
+export interface PairingState {
+  pairs: FilePair[];
+  unmatchedTruth: File[];
+  unmatchedOcr: File[];
+}
+
+export type TextEncoding = 'utf-8' | 'gb18030' | 'big5' | 'utf-16le' | 'utf-16be';
+
+export type EncodingChoice = TextEncoding | 'auto';
+
+export interface EncodingInfo {
+  encoding: TextEncoding;
+  source: 'bom' | 'detected' | 'override';
+  replacementCount: number; // U+FFFD characters in the decoded text
+}
+
+export type OcrFormat = 'text' | 'hocr' | 'alto' | 'page-xml' | 'tesseract-tsv' | 'json';
+
+export interface BoundingBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OcrWord {
+  text: string;
+  confidence?: number; // 0–1, as reported by the engine
+  bbox?: BoundingBox;
+}
+
+export interface OcrLine {
+  text: string;
+  words: OcrWord[];
+  confidence?: number;
+  bbox?: BoundingBox;
+}
+
+// A parsed input file: the plain text every metric runs on, plus whatever layout the format carried
+export interface OcrDocument {
+  format: OcrFormat;
+  text: string;
+  lines: OcrLine[];
+}
+
+// JSONPath expressions locating lines and words in a cloud OCR response
+export interface JsonFormatConfig {
+  linesPath: string;
+  lineTextPath: string;
+  wordsPath: string; // Relative to a line; empty to skip words
+  wordTextPath: string;
+  confidencePath: string; // Relative to a line or word
+  bboxPath: string;       // Relative to a line or word
+}
+
+export type TokenizerId = 'whitespace' | 'intl-word' | 'cjk-char' | 'mixed';
+
+export type NormalizationStep =
+  | 'nfkc'
+  | 'fullwidth'
+  | 'casefold'
+  | 't2s'
+  | 'ligatures'
+  | 'quotes-dashes'
+  | 'strip-punctuation';
+
+export interface PunctuationSettings {
+  marks: string; // Every character in the string counts as a punctuation mark
+  widthInsensitive: boolean; // Score full-width and half-width forms (，/,) as the same mark
+}
+
+export type FieldKind = 'regex' | 'label';
+
+export interface FieldDefinition {
+  id: string;
+  name: string; // e.g. "发票号码"
+  kind: FieldKind;
+  pattern: string; // A regex (first capture group, else the whole match) or the label text preceding the value
+}
+
+export interface AnalysisSettings {
+  tokenizer: TokenizerId;
+  normalization: NormalizationStep[];
+  punctuation: PunctuationSettings;
+  fields?: FieldDefinition[]; // Absent in runs saved before field extraction existed
+  truthMarkup?: boolean; // Honor [?], ⟨…⟩, {a|b} and <ignore>…</ignore> in the ground truth
+}
+
+// A ground-truth file split at its markup
+export type TruthSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'wildcard'; label: string }   // Illegible span, e.g. "[?]" or "⟨illegible⟩"; absorbs whatever the OCR read there, nothing included
+  | { kind: 'ignore'; text: string }      // Unscored region; the OCR text over it is not scored either, nor is its absence
+  | { kind: 'alternative'; variants: string[]; chosen: number }; // Either variant is correct; chosen is the one closest to the OCR
+
+export type DiffType = 'match' | 'substitution' | 'insertion' | 'deletion' | 'excluded';
+
+export type MarkupKind = 'wildcard' | 'ignore' | 'alternative';
 
 export interface DiffItem {
   type: DiffType;
-  truth?: string; // The word from the ground truth
+  truth?: string; // The word from the ground truth; the markup itself for excluded items
   ocr?: string;   // The word from the OCR output
+  markup?: MarkupKind; // Set on excluded items and on items inside an alternative
+  alternatives?: string[]; // Accepted variants, for items inside an alternative
 }
 
 export interface MetricDetails {
@@ -20,6 +147,7 @@ export interface MetricDetails {
   // For display "formula"
   numerator?: number; // e.g. distance or errors
   denominator?: number; // e.g. total length
+  excluded?: number; // Reference units left out by ground-truth markup
   breakdown?: {
     s: number; // substitutions
     i: number; // insertions
@@ -27,22 +155,158 @@ export interface MetricDetails {
   };
 }
 
+export interface PunctuationMarkStats {
+  mark: string; // Canonical form when width-insensitive
+  truthCount: number;
+  ocrCount: number;
+  matched: number; // Aligned to the same mark in the OCR output
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface LineAlignment {
+  truthIndex: number;
+  ocrIndex?: number; // Absent when no OCR line is similar enough
+  truth: string;
+  ocr?: string;
+  cer: number; // 1 for unmatched lines
+  exact: boolean;
+  inOrder: boolean; // Part of the longest run of lines the OCR kept in truth order
+}
+
+export interface LineMetrics {
+  accuracy: number; // Exactly matching truth lines / truth lines
+  exactLines: number;
+  truthLines: number;
+  ocrLines: number;
+  meanCer: number;
+  alignments: LineAlignment[];
+  extraOcrLines: { index: number; text: string }[]; // OCR lines no truth line matched
+  readingOrder: {
+    outOfOrderLines: number; // Matched lines outside the longest in-order subsequence
+    blocks: number; // Runs of consecutive lines read in sequence; 1 for a perfect order
+    bagOfWordsWer: number; // Order-independent WER, to set against the ordered WER
+  };
+}
+
+export type CharClass = 'cjk' | 'latin' | 'digit' | 'symbol' | 'other';
+
+export interface CharClassStats {
+  truthCount: number; // Reference characters of the class
+  s: number;
+  i: number; // Attributed to the class of the inserted OCR character
+  d: number;
+  cer: number; // (s + i + d) / truthCount
+}
+
+export interface CharClassMetrics {
+  classes: Record<CharClass, CharClassStats>; // A partition: the errors add up to the overall CER edits
+  spaceAdjacent: CharClassStats; // Characters next to whitespace in the truth, across all classes
+}
+
+export interface FieldMatch {
+  fieldId: string;
+  name: string;
+  truth?: string; // Absent when the field isn't in the truth text
+  ocr?: string;   // Absent when the OCR text has no match
+  exact: boolean;
+  distance: number; // Edit distance over the longer value's length, 0–1
+}
+
+export interface TableCellDiff {
+  type: DiffType;
+  truth?: string; // Cell text, with its span when it covers several rows or columns
+  ocr?: string;
+}
+
+export interface TableDiff {
+  rows: { type: DiffType; cells: TableCellDiff[] }[];
+}
+
+export interface TableMetrics {
+  structure?: number; // TEDS over rows, cells and spans only, 0–1, higher is better; absent when too large
+  full?: number; // TEDS with cell text compared as well
+  tooLarge?: boolean; // More nodes than the tree edit distance is run for; only the cell comparison is kept
+  truthTables: number;
+  ocrTables: number;
+  truthCells: number;
+  ocrCells: number;
+  tables: TableDiff[]; // Truth and OCR tables paired in reading order
+}
+
 export interface Metrics {
-  cer: MetricDetails; 
-  wer: MetricDetails & { diffs: DiffItem[] };
-  punctuationAccuracy: MetricDetails;
+  cer: MetricDetails & { diffs: DiffItem[] }; // diffs are per character
+  wer: MetricDetails & { diffs: DiffItem[]; tokenizer: TokenizerId };
+  punctuationAccuracy: MetricDetails & { marks: PunctuationMarkStats[] };
+  lines: LineMetrics;
+  charClasses?: CharClassMetrics; // Absent in runs saved before the breakdown existed
+  fields?: FieldMatch[]; // One per defined field, in definition order
+  tables?: TableMetrics; // Only when the truth contains an HTML or Markdown table
   truthLength: number;
   ocrLength: number;
+  normalization: NormalizationStep[]; // Pipeline applied before every metric, in order
 }
 
 export interface AnalysisResult extends Metrics {
   pairId: string;
+  engineId: string;
+  engineName: string;
   truthFileName: string;
   ocrFileName: string;
+  truthFormat: OcrFormat;
+  ocrFormat: OcrFormat;
+  ocrLines?: OcrLine[]; // Layout of structured OCR outputs; absent for plain text
+  tags?: string[]; // Document tags carried over from the pair
+  metadata?: Record<string, string>;
+}
+
+export type RuleMetric = 'cer' | 'wer' | 'punctuation' | 'line-accuracy';
+
+export type RuleStatus = 'pass' | 'warn' | 'fail';
+
+export interface QualityRule {
+  id: string;
+  metric: RuleMetric;
+  warn?: number; // Same scale as the metric (0.05 = 5%); compared in the metric's bad direction
+  fail?: number;
+  pattern?: string; // Glob on the truth file name, e.g. "invoice_*"; empty = every document
+  tag?: string; // Only documents carrying this tag
+}
+
+export interface RuleCheck {
+  rule: QualityRule;
+  value: number;
+  status: RuleStatus;
+}
+
+export type AveragingMode = 'macro' | 'micro';
+
+export type AverageKey = 'avgCer' | 'avgWer' | 'avgPunc';
+
+export interface MetricSummary {
+  macro: number; // Mean of per-file scores
+  micro: number; // Total edits over total reference length
+  median: number;
+  percentiles: { p10: number; p25: number; p75: number; p90: number };
+  ci95: Record<AveragingMode, [number, number]>; // Bootstrap over files
 }
 
 export interface AggregateMetrics {
+  // Macro averages
   avgCer: number;
   avgWer: number;
   avgPunc: number;
-}
\ No newline at end of file
+  fileCount: number;
+  summaries: Record<AverageKey, MetricSummary>;
+}
+
+export interface RunRecord {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  settings: AnalysisSettings;
+  engines: { id: string; name: string }[];
+  results: AnalysisResult[];
+  hashes: Record<string, { truth: string; ocr: string }>; // SHA-256 of the input files, keyed by pair id
+}
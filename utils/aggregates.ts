@@ -0,0 +1,79 @@
+import { AggregateMetrics, AnalysisResult, AverageKey, AveragingMode, MetricDetails, MetricSummary } from '../types';
+import { bootstrapIntervals, mean, percentile } from './statistics';
+
+export const AVERAGING_MODES: { id: AveragingMode; label: string; description: string }[] = [
+  { id: 'macro', label: '宏平均', description: '逐文件得分的平均值，每个文件权重相同' },
+  { id: 'micro', label: '微平均', description: '总编辑数 / 总参考长度，长文件权重更大' },
+];
+
+interface MetricSource {
+  key: AverageKey;
+  details: (r: AnalysisResult) => MetricDetails;
+  accuracy: boolean; // Score is 1 - errors / length rather than errors / length
+}
+
+const METRIC_SOURCES: MetricSource[] = [
+  { key: 'avgCer', details: r => r.cer, accuracy: false },
+  { key: 'avgWer', details: r => r.wer, accuracy: false },
+  { key: 'avgPunc', details: r => r.punctuationAccuracy, accuracy: true },
+];
+
+/**
+ * Pools numerators and denominators across files. Falls back to the macro
+ * average when no file has a reference length (e.g. no punctuation at all).
+ */
+const microAverage = (results: AnalysisResult[], source: MetricSource): number => {
+  let edits = 0, length = 0;
+  for (const r of results) {
+    const d = source.details(r);
+    edits += d.numerator ?? 0;
+    length += d.denominator ?? 0;
+  }
+  if (length === 0) return mean(results.map(r => source.details(r).score));
+  return source.accuracy ? Math.max(0, 1 - edits / length) : edits / length;
+};
+
+const summarize = (results: AnalysisResult[], source: MetricSource): MetricSummary => {
+  const scores = results.map(r => source.details(r).score);
+  const macroOf = (sample: AnalysisResult[]) => mean(sample.map(r => source.details(r).score));
+  const microOf = (sample: AnalysisResult[]) => microAverage(sample, source);
+  const [macroCi, microCi] = bootstrapIntervals(results, [macroOf, microOf]);
+
+  return {
+    macro: mean(scores),
+    micro: microOf(results),
+    median: percentile(scores, 0.5),
+    percentiles: {
+      p10: percentile(scores, 0.1),
+      p25: percentile(scores, 0.25),
+      p75: percentile(scores, 0.75),
+      p90: percentile(scores, 0.9)
+    },
+    ci95: { macro: macroCi, micro: microCi }
+  };
+};
+
+/**
+ * Summarizes a set of results (one engine's run): macro and micro
+ * averages, spread, and bootstrap 95% confidence intervals.
+ */
+export const computeAggregates = (results: AnalysisResult[]): AggregateMetrics | null => {
+  if (results.length === 0) return null;
+  const summaries = Object.fromEntries(
+    METRIC_SOURCES.map(source => [source.key, summarize(results, source)])
+  ) as Record<AverageKey, MetricSummary>;
+
+  return {
+    avgCer: summaries.avgCer.macro,
+    avgWer: summaries.avgWer.macro,
+    avgPunc: summaries.avgPunc.macro,
+    fileCount: results.length,
+    summaries
+  };
+};
+
+/**
+ * The headline value of a metric under the chosen averaging mode.
+ */
+export const averageOf = (agg: AggregateMetrics, key: AverageKey, mode: AveragingMode): number =>
+  agg.summaries[key][mode];
@@ -1,165 +1,258 @@
-import { DiffItem, MetricDetails } from "../types";
+import { DiffItem, MetricDetails, PunctuationMarkStats, PunctuationSettings, TokenizerId, TruthSegment } from "../types";
+import { DEFAULT_TOKENIZER, resolveTokenizer, tokenize } from "./tokenizers";
+import { DEFAULT_PUNCTUATION, extractPunctuation } from "./punctuation";
+import { encodeSequences, hirschbergAlign, myersDistance, ProgressCallback } from "./levenshtein";
+import { excludedUnits, MarkedUnits, toUnits } from "./markup";
 
 /**
- * Basic Levenshtein distance for numbers or strings
+ * Levenshtein distance for token arrays or strings.
+ * Uses bit-parallel Myers, so memory is linear in the input length.
  */
 export const levenshteinDistance = <T>(a: T[] | string, b: T[] | string): number => {
-  const m = a.length;
-  const n = b.length;
-  const dp: number[][] = [];
-
-  for (let i = 0; i <= m; i++) dp[i] = [i];
-  for (let j = 0; j <= n; j++) dp[0][j] = j;
-
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
-      dp[i][j] = Math.min(
-        dp[i - 1][j] + 1, // deletion
-        dp[i][j - 1] + 1, // insertion
-        dp[i - 1][j - 1] + cost // substitution
-      );
+  const [ea, eb] = encodeSequences<T | string>(a, b);
+  return myersDistance(ea, eb);
+};
+
+export interface Alignment {
+  diffs: DiffItem[];
+  s: number; // substitutions
+  i: number; // insertions
+  d: number; // deletions
+}
+
+/**
+ * Aligns two token sequences with Levenshtein costs and returns the edit
+ * script. Shared by the character-level (CER) and word-level (WER) diffs.
+ * Runs in linear space (Hirschberg), so book-length inputs fit in memory.
+ */
+export const alignSequences = (
+  tWords: string[],
+  oWords: string[],
+  onProgress?: ProgressCallback
+): Alignment => {
+  const [ta, oa] = encodeSequences(tWords, oWords);
+  const diffs: DiffItem[] = [];
+  let s = 0, iCount = 0, d = 0;
+
+  hirschbergAlign(ta, oa, (op, i, j) => {
+    switch (op) {
+      case 'match':
+        diffs.push({ type: 'match', truth: tWords[i], ocr: oWords[j] });
+        break;
+      case 'substitution':
+        diffs.push({ type: 'substitution', truth: tWords[i], ocr: oWords[j] });
+        s++;
+        break;
+      case 'insertion':
+        diffs.push({ type: 'insertion', ocr: oWords[j] });
+        iCount++;
+        break;
+      case 'deletion':
+        diffs.push({ type: 'deletion', truth: tWords[i] });
+        d++;
+        break;
+    }
+  }, onProgress);
+
+  return { diffs, s, i: iCount, d };
+};
+
+/**
+ * Aligns a marked-up reference. OCR units the aligner leaves as insertions
+ * at a wildcard or ignored region are absorbed by it instead of counted,
+ * and items inside an alternative carry its variants. A region the OCR
+ * read nothing at costs nothing either, so skipping it scores like a
+ * perfect read.
+ */
+export const alignMarked = (
+  marked: MarkedUnits,
+  oUnits: string[],
+  joiner: string,
+  onProgress?: ProgressCallback
+): Alignment => {
+  const { diffs: raw } = alignSequences(marked.units, oUnits, onProgress);
+  const diffs: DiffItem[] = [];
+  let s = 0, iCount = 0, d = 0;
+  let k = 0; // Reference units consumed so far
+  let gap = 0;
+  let span = 0;
+  let pending: DiffItem[] = []; // Insertions since the last reference unit
+
+  const flush = () => {
+    const absorbed = pending.map(p => p.ocr).join(joiner);
+    let first = true;
+    for (; gap < marked.gaps.length && marked.gaps[gap].position === k; gap++) {
+      const { kind, label } = marked.gaps[gap];
+      diffs.push({ type: 'excluded', markup: kind, truth: label, ...(first && absorbed && { ocr: absorbed }) });
+      first = false;
     }
+    if (first) {
+      diffs.push(...pending);
+      iCount += pending.length;
+    }
+    pending = [];
+  };
+
+  for (const item of raw) {
+    if (item.type === 'insertion') {
+      pending.push(item);
+      continue;
+    }
+    flush();
+    while (span < marked.spans.length && marked.spans[span].end <= k) span++;
+    const inSpan = span < marked.spans.length && marked.spans[span].start <= k;
+    diffs.push(inSpan ? { ...item, markup: 'alternative', alternatives: marked.spans[span].variants } : item);
+    if (item.type === 'substitution') s++;
+    if (item.type === 'deletion') d++;
+    k++;
   }
+  flush();
 
-  return dp[m][n];
+  return { diffs, s, i: iCount, d };
 };
 
+// Whitespace never counts; split by code point so characters outside the BMP count once
+const splitChars = (text: string) => Array.from(text.replace(/\s+/g, ''));
+
 /**
- * Calculates Character Error Rate (CER).
- * EXCLUDES SPACES: strips all whitespace before comparison.
- * Returns details for formula display.
+ * Picks, for every alternative, the variant closest to what the OCR read
+ * at that spot: a first character alignment places the alternative, then
+ * each variant is compared against the OCR characters aligned to it and
+ * any insertions touching it. Ties keep the first variant.
  */
-export const calculateCER = (truth: string, ocr: string): MetricDetails => {
-  // Remove all whitespace (spaces, tabs, newlines)
-  const cleanTruth = truth.replace(/\s+/g, '');
-  const cleanOcr = ocr.replace(/\s+/g, '');
+export const chooseAlternatives = (segments: TruthSegment[], ocr: string): TruthSegment[] => {
+  const marked = toUnits(segments, splitChars);
+  if (marked.spans.length === 0) return segments;
+  const { diffs } = alignSequences(marked.units, splitChars(ocr));
 
-  const len = cleanTruth.length;
-  if (len === 0) {
-    return { score: cleanOcr.length > 0 ? 1 : 0, numerator: cleanOcr.length, denominator: 0 };
+  const read = marked.spans.map(() => '');
+  let k = 0;
+  for (const item of diffs) {
+    const consumes = item.type !== 'insertion';
+    marked.spans.forEach((sp, n) => {
+      if (consumes ? sp.start <= k && k < sp.end : sp.start <= k && k <= sp.end) read[n] += item.ocr ?? '';
+    });
+    if (consumes) k++;
   }
-  
-  const dist = levenshteinDistance(cleanTruth, cleanOcr);
+
+  const chosen = new Map(marked.spans.map((sp, n) => {
+    const distances = sp.variants.map(v => levenshteinDistance(splitChars(v), splitChars(read[n])));
+    return [sp.segment, distances.indexOf(Math.min(...distances))];
+  }));
+  return segments.map((seg, i) => (seg.kind === 'alternative' && chosen.has(i) ? { ...seg, chosen: chosen.get(i)! } : seg));
+};
+
+/**
+ * Calculates Character Error Rate (CER) AND generates a character-level Diff.
+ * EXCLUDES SPACES: strips all whitespace before comparison.
+ * A marked-up truth is passed as segments; see alignMarked.
+ * Returns details for formula display, including S/I/D counts.
+ */
+export const calculateCER = (
+  truth: string | TruthSegment[],
+  ocr: string,
+  onProgress?: ProgressCallback
+): MetricDetails & { diffs: DiffItem[] } => {
+  const marked = typeof truth === 'string' ? null : toUnits(truth, splitChars);
+  const tChars = marked ? marked.units : splitChars(truth as string);
+  const oChars = splitChars(ocr);
+
+  const { diffs, s, i, d } = marked ? alignMarked(marked, oChars, '', onProgress) : alignSequences(tChars, oChars, onProgress);
+  const dist = s + i + d;
+  const len = tChars.length;
+
+  // With an empty reference every OCR character is an insertion, unless markup absorbed it
   return { 
-    score: dist / len, 
+    score: len === 0 ? (dist > 0 ? 1 : 0) : dist / len, 
     numerator: dist, 
-    denominator: len 
+    denominator: len,
+    breakdown: { s, i, d },
+    ...(marked && { excluded: excludedUnits(marked) }),
+    diffs
   };
 };
 
 /**
  * Calculates Word Error Rate (WER) AND generates a Diff.
- * EXCLUDES SPACES: Tokenizes by whitespace, ignores empty tokens.
- * Returns details including S/I/D counts.
+ * EXCLUDES SPACES: Tokenizes with the chosen tokenizer, which never yields whitespace tokens.
+ * A marked-up truth is tokenized as one text; see toUnits.
+ * Returns details including S/I/D counts and the tokenizer that actually ran.
  */
-export const calculateWERWithDiff = (truth: string, ocr: string): MetricDetails & { diffs: DiffItem[] } => {
-  // Helper to tokenize
-  const tokenize = (text: string) => text.trim().split(/\s+/).filter(t => t.length > 0);
-  
-  const tWords = tokenize(truth);
-  const oWords = tokenize(ocr);
+export const calculateWERWithDiff = (
+  truth: string | TruthSegment[],
+  ocr: string,
+  tokenizer: TokenizerId = DEFAULT_TOKENIZER,
+  onProgress?: ProgressCallback
+): MetricDetails & { diffs: DiffItem[]; tokenizer: TokenizerId } => {
+  const marked = typeof truth === 'string' ? null : toUnits(truth, text => tokenize(text, tokenizer));
+  const tWords = marked ? marked.units : tokenize(truth as string, tokenizer);
+  const oWords = tokenize(ocr, tokenizer);
 
   const m = tWords.length;
-  const n = oWords.length;
-
-  // 1. Compute Matrix
-  const dp: number[][] = [];
-  const ptr: number[][] = []; 
-
-  for (let i = 0; i <= m; i++) {
-    dp[i] = [i];
-    ptr[i] = [];
-    ptr[i][0] = 1; // Deletion from truth
-  }
-  for (let j = 0; j <= n; j++) {
-    dp[0][j] = j;
-    ptr[0][j] = 2; // Insertion into OCR
-  }
-
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      const cost = tWords[i - 1] === oWords[j - 1] ? 0 : 1;
-      
-      const del = dp[i - 1][j] + 1;
-      const ins = dp[i][j - 1] + 1;
-      const sub = dp[i - 1][j - 1] + cost;
-
-      if (sub <= del && sub <= ins) {
-        dp[i][j] = sub;
-        ptr[i][j] = 0; // diag
-      } else if (del <= ins) {
-        dp[i][j] = del;
-        ptr[i][j] = 1; // up
-      } else {
-        dp[i][j] = ins;
-        ptr[i][j] = 2; // left
-      }
-    }
-  }
 
-  // 2. Backtrack to find Diff and Count Errors
-  const diffs: DiffItem[] = [];
-  let s = 0, iCount = 0, d = 0;
-  
-  let i = m;
-  let j = n;
-
-  while (i > 0 || j > 0) {
-    if (i > 0 && j > 0 && ptr[i][j] === 0) {
-      // Diagonal (Match or Sub)
-      if (tWords[i - 1] === oWords[j - 1]) {
-        diffs.unshift({ type: 'match', truth: tWords[i - 1], ocr: oWords[j - 1] });
-      } else {
-        diffs.unshift({ type: 'substitution', truth: tWords[i - 1], ocr: oWords[j - 1] });
-        s++;
-      }
-      i--;
-      j--;
-    } else if (j > 0 && (i === 0 || ptr[i][j] === 2)) {
-      // Left (Insertion in OCR)
-      diffs.unshift({ type: 'insertion', ocr: oWords[j - 1] });
-      iCount++;
-      j--;
-    } else {
-      // Up (Deletion from Truth)
-      diffs.unshift({ type: 'deletion', truth: tWords[i - 1] });
-      d++;
-      i--;
-    }
-  }
+  const { diffs, s, i: iCount, d } = marked
+    ? alignMarked(marked, oWords, ' ', onProgress)
+    : alignSequences(tWords, oWords, onProgress);
 
   const dist = s + iCount + d;
-  const wer = m === 0 ? (n > 0 ? 1 : 0) : dist / m;
+  const wer = m === 0 ? (dist > 0 ? 1 : 0) : dist / m;
 
   return { 
     score: wer, 
     numerator: dist, 
     denominator: m,
     breakdown: { s, i: iCount, d },
-    diffs 
+    ...(marked && { excluded: excludedUnits(marked) }),
+    diffs,
+    tokenizer: resolveTokenizer(tokenizer)
   };
 };
 
 /**
- * Calculates Punctuation Accuracy.
+ * Calculates Punctuation Accuracy over the configured mark set, plus
+ * per-mark precision/recall/F1. A mark counts as found when the alignment
+ * of the two punctuation sequences matches it to the same mark.
  */
-export const calculatePunctuationAccuracy = (truth: string, ocr: string): MetricDetails => {
-  const punctuationRegex = /[.,?!:;""''()-]/g;
-  const truthPunc = truth.match(punctuationRegex) || [];
-  const ocrPunc = ocr.match(punctuationRegex) || [];
+export const calculatePunctuationAccuracy = (
+  truth: string,
+  ocr: string,
+  settings: PunctuationSettings = DEFAULT_PUNCTUATION
+): MetricDetails & { marks: PunctuationMarkStats[] } => {
+  const truthPunc = extractPunctuation(truth, settings);
+  const ocrPunc = extractPunctuation(ocr, settings);
+  const { diffs, s, i, d } = alignSequences(truthPunc, ocrPunc);
+
+  const counts = new Map<string, { truthCount: number; ocrCount: number; matched: number }>();
+  const entry = (mark: string) => {
+    if (!counts.has(mark)) counts.set(mark, { truthCount: 0, ocrCount: 0, matched: 0 });
+    return counts.get(mark)!;
+  };
+  truthPunc.forEach(m => entry(m).truthCount++);
+  ocrPunc.forEach(m => entry(m).ocrCount++);
+  diffs.forEach(item => { if (item.type === 'match') entry(item.truth!).matched++; });
+
+  const marks: PunctuationMarkStats[] = Array.from(counts.entries())
+    .map(([mark, c]) => {
+      const precision = c.ocrCount > 0 ? c.matched / c.ocrCount : 0;
+      const recall = c.truthCount > 0 ? c.matched / c.truthCount : 0;
+      const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+      return { mark, ...c, precision, recall, f1 };
+    })
+    .sort((a, b) => b.truthCount - a.truthCount || b.ocrCount - a.ocrCount);
 
   const len = truthPunc.length;
   if (len === 0) {
-    return { score: ocrPunc.length === 0 ? 1 : 0, numerator: 0, denominator: 0 };
+    return { score: ocrPunc.length === 0 ? 1 : 0, numerator: 0, denominator: 0, marks };
   }
 
-  const dist = levenshteinDistance(truthPunc, ocrPunc);
+  const dist = s + i + d;
   const score = Math.max(0, 1 - dist / len);
 
   return {
     score,
     numerator: dist,
-    denominator: len
+    denominator: len,
+    breakdown: { s, i, d },
+    marks
   };
 };
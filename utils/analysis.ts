@@ -0,0 +1,65 @@
+import { AnalysisSettings, Metrics } from '../types';
+import { calculateCER, calculatePunctuationAccuracy, calculateWERWithDiff, chooseAlternatives } from './algorithms';
+import { normalizeText, resolvePipeline } from './normalization';
+import { hasMarkup, normalizeSegments, parseMarkup, segmentsText, withChoices } from './markup';
+import { analyzeLines } from './lines';
+import { analyzeCharClasses } from './charClasses';
+import { evaluateFields } from './fields';
+import { evaluateTables } from './teds';
+import { ProgressCallback } from './levenshtein';
+
+/**
+ * Computes every metric for one truth/OCR pair.
+ * Both texts go through the same normalization pipeline first, so CER, WER
+ * and punctuation accuracy always score the same view of the documents.
+ * With truth markup on, CER and WER align against the marked-up segments
+ * and every other metric reads the truth with the markup resolved.
+ */
+export const analyzePair = (
+  truth: string,
+  ocr: string,
+  settings: AnalysisSettings,
+  onProgress?: ProgressCallback
+): Metrics => {
+  const pipeline = resolvePipeline(settings.normalization);
+  const normOcr = normalizeText(ocr, pipeline);
+  const markup = settings.truthMarkup && hasMarkup(truth) ? parseMarkup(truth) : null;
+  const segments = markup && chooseAlternatives(normalizeSegments(markup, pipeline), normOcr);
+  const normTruth = segments ? segmentsText(segments) : normalizeText(truth, pipeline);
+
+  // Punctuation accuracy has nothing left to measure once marks are stripped
+  const puncPipeline = pipeline.filter(step => step !== 'strip-punctuation');
+  const stripsPunctuation = puncPipeline.length !== pipeline.length;
+  const puncTruth = !stripsPunctuation ? normTruth
+    : segments ? segmentsText(withChoices(normalizeSegments(markup!, puncPipeline), segments))
+    : normalizeText(truth, puncPipeline);
+  const puncOcr = stripsPunctuation ? normalizeText(ocr, puncPipeline) : normOcr;
+
+  // The character alignment dominates the run time, so it gets most of the bar
+  const cer = calculateCER(segments ?? normTruth, normOcr, f => onProgress?.(f * 0.75));
+  const wer = calculateWERWithDiff(segments ?? normTruth, normOcr, settings.tokenizer, f => onProgress?.(0.75 + f * 0.15));
+  const punctuationAccuracy = calculatePunctuationAccuracy(puncTruth, puncOcr, settings.punctuation);
+  onProgress?.(0.92);
+  const lines = analyzeLines(normTruth, normOcr, settings.tokenizer);
+  onProgress?.(0.94);
+  // Tables are read from the raw texts, since normalization may flatten the markup; only cell text is normalized
+  const tables = evaluateTables(truth, ocr, text => normalizeText(text, pipeline), f => onProgress?.(0.94 + f * 0.06));
+  onProgress?.(1);
+
+  return {
+    cer,
+    wer,
+    punctuationAccuracy,
+    lines,
+    charClasses: analyzeCharClasses(normTruth, cer.diffs),
+    // Field patterns match the texts as written, with the truth's alternatives resolved like for CER;
+    // values keep their punctuation, since separators in amounts and dates are marks too
+    ...(settings.fields?.length && {
+      fields: evaluateFields(segments ? segmentsText(withChoices(markup!, segments)) : truth, ocr, settings.fields, puncPipeline)
+    }),
+    ...(tables && { tables }),
+    truthLength: truth.length,
+    ocrLength: ocr.length,
+    normalization: pipeline
+  };
+};
@@ -0,0 +1,26 @@
+import { analyzePair } from './analysis';
+import type { WorkerRequest, WorkerResponse } from './workerPool';
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const { task } = e.data;
+  const post = (msg: WorkerResponse) => ctx.postMessage(msg);
+
+  // Throttle to whole percents; long alignments report thousands of steps
+  let lastPercent = -1;
+  const onProgress = (fraction: number) => {
+    const percent = Math.floor(fraction * 100);
+    if (percent !== lastPercent) {
+      lastPercent = percent;
+      post({ type: 'progress', id: task.id, fraction });
+    }
+  };
+
+  try {
+    const metrics = analyzePair(task.truth, task.ocr, task.settings, onProgress);
+    post({ type: 'done', id: task.id, metrics });
+  } catch (err) {
+    post({ type: 'error', id: task.id, message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,106 @@
+import { CharClass, CharClassMetrics, CharClassStats, DiffItem } from '../types';
+
+export const CHAR_CLASSES: { id: CharClass; label: string; color: string }[] = [
+  { id: 'cjk', label: '中日韩文字', color: '#ef4444' },
+  { id: 'latin', label: '拉丁字母', color: '#3b82f6' },
+  { id: 'digit', label: '数字', color: '#f59e0b' },
+  { id: 'symbol', label: '标点/符号', color: '#8b5cf6' },
+  { id: 'other', label: '其他', color: '#9ca3af' },
+];
+
+export const SPACE_ADJACENT_LABEL = '邻近空格';
+
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+export const charClassOf = (ch: string): CharClass => {
+  if (CJK.test(ch)) return 'cjk';
+  if (/\p{Nd}/u.test(ch)) return 'digit';
+  if (/\p{Script=Latin}/u.test(ch)) return 'latin';
+  if (/[\p{P}\p{S}]/u.test(ch)) return 'symbol';
+  return 'other';
+};
+
+const emptyStats = (): CharClassStats => ({ truthCount: 0, s: 0, i: 0, d: 0, cer: 0 });
+
+export const classEdits = (stats: CharClassStats): number => stats.s + stats.i + stats.d;
+
+// Same convention as the overall CER when the reference is empty
+const withCer = (stats: CharClassStats): CharClassStats => {
+  const edits = classEdits(stats);
+  return { ...stats, cer: stats.truthCount === 0 ? (edits > 0 ? 1 : 0) : edits / stats.truthCount };
+};
+
+const emptyMetrics = (): CharClassMetrics => ({
+  classes: Object.fromEntries(CHAR_CLASSES.map(c => [c.id, emptyStats()])) as Record<CharClass, CharClassStats>,
+  spaceAdjacent: emptyStats()
+});
+
+/**
+ * Splits the character edits of the CER alignment by character class.
+ * The alignment runs on the truth with whitespace removed, so the truth
+ * is walked alongside it to know which characters sat next to a space;
+ * an insertion counts as space-adjacent when it fills a gap that had one.
+ */
+export const analyzeCharClasses = (truth: string, diffs: DiffItem[]): CharClassMetrics => {
+  const chars = Array.from(truth);
+  const adjacent: boolean[] = []; // Per non-whitespace truth character
+  const spaceBefore: boolean[] = []; // Per gap before each of them, plus the end
+  let sawSpace = false;
+  chars.forEach((ch, idx) => {
+    if (/\s/.test(ch)) {
+      sawSpace = true;
+      return;
+    }
+    adjacent.push(sawSpace || /\s/.test(chars[idx + 1] ?? ''));
+    spaceBefore.push(sawSpace);
+    sawSpace = false;
+  });
+  spaceBefore.push(sawSpace);
+
+  const metrics = emptyMetrics();
+  let k = 0;
+  for (const item of diffs) {
+    // Markup stands in for reference characters the truth doesn't spell out
+    if (item.type === 'excluded') continue;
+    if (item.type === 'insertion') {
+      metrics.classes[charClassOf(item.ocr ?? '')].i++;
+      if (spaceBefore[k]) metrics.spaceAdjacent.i++;
+      continue;
+    }
+    const targets = [metrics.classes[charClassOf(item.truth ?? '')]];
+    if (adjacent[k]) targets.push(metrics.spaceAdjacent);
+    k++;
+    for (const stats of targets) {
+      stats.truthCount++;
+      if (item.type === 'substitution') stats.s++;
+      if (item.type === 'deletion') stats.d++;
+    }
+  }
+
+  return {
+    classes: Object.fromEntries(CHAR_CLASSES.map(c => [c.id, withCer(metrics.classes[c.id])])) as Record<CharClass, CharClassStats>,
+    spaceAdjacent: withCer(metrics.spaceAdjacent)
+  };
+};
+
+/**
+ * Pools the counts of several documents, so each class CER is a micro
+ * average over them.
+ */
+export const sumCharClasses = (list: CharClassMetrics[]): CharClassMetrics => {
+  const total = emptyMetrics();
+  const add = (into: CharClassStats, from: CharClassStats) => {
+    into.truthCount += from.truthCount;
+    into.s += from.s;
+    into.i += from.i;
+    into.d += from.d;
+  };
+  for (const m of list) {
+    CHAR_CLASSES.forEach(c => add(total.classes[c.id], m.classes[c.id]));
+    add(total.spaceAdjacent, m.spaceAdjacent);
+  }
+  return {
+    classes: Object.fromEntries(CHAR_CLASSES.map(c => [c.id, withCer(total.classes[c.id])])) as Record<CharClass, CharClassStats>,
+    spaceAdjacent: withCer(total.spaceAdjacent)
+  };
+};
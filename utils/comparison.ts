@@ -0,0 +1,55 @@
+import { AnalysisResult, OcrEngineSet } from '../types';
+
+// Absolute CER spread (best vs. worst engine) at which a document is flagged
+export const DISAGREEMENT_THRESHOLD = 0.1;
+
+export interface DocumentComparison {
+  truthFileName: string;
+  byEngine: Record<string, AnalysisResult | undefined>;
+  bestEngineId: string | null;
+  cerSpread: number;
+  disagreement: boolean;
+}
+
+/**
+ * Lines up every engine's result for the same ground-truth document.
+ * The best engine has the lowest CER, with WER breaking ties.
+ */
+export const compareEngines = (
+  results: AnalysisResult[],
+  engines: Pick<OcrEngineSet, 'id'>[],
+  threshold: number = DISAGREEMENT_THRESHOLD
+): DocumentComparison[] => {
+  const byTruth = new Map<string, Record<string, AnalysisResult | undefined>>();
+  for (const res of results) {
+    const row = byTruth.get(res.truthFileName) || {};
+    row[res.engineId] = res;
+    byTruth.set(res.truthFileName, row);
+  }
+
+  return Array.from(byTruth.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([truthFileName, byEngine]) => {
+      const present = engines
+        .map(e => byEngine[e.id])
+        .filter((r): r is AnalysisResult => r !== undefined);
+
+      let best: AnalysisResult | undefined;
+      for (const r of present) {
+        if (!best || r.cer.score < best.cer.score || (r.cer.score === best.cer.score && r.wer.score < best.wer.score)) {
+          best = r;
+        }
+      }
+
+      const cers = present.map(r => r.cer.score);
+      const cerSpread = present.length > 1 ? Math.max(...cers) - Math.min(...cers) : 0;
+
+      return {
+        truthFileName,
+        byEngine,
+        bestEngineId: present.length > 1 && best ? best.engineId : null,
+        cerSpread,
+        disagreement: cerSpread >= threshold
+      };
+    });
+};
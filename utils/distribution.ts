@@ -0,0 +1,70 @@
+import { AnalysisResult } from '../types';
+
+export type DistributionMetric = 'cer' | 'wer';
+
+export const DISTRIBUTION_METRICS: { id: DistributionMetric; label: string }[] = [
+  { id: 'cer', label: 'CER' },
+  { id: 'wer', label: 'WER' },
+];
+
+export const metricValue = (res: AnalysisResult, metric: DistributionMetric): number =>
+  metric === 'cer' ? res.cer.score : res.wer.score;
+
+// Error rates in 5-point bins; rates above 100% (heavy insertions) share one overflow bin
+const BIN_WIDTH = 0.05;
+const BIN_COUNT = 20;
+
+export interface HistogramBin {
+  label: string;
+  start: number;
+  end: number; // Infinity for the overflow bin
+  count: number;
+  pairIds: string[]; // Worst first
+}
+
+export const histogram = (results: AnalysisResult[], metric: DistributionMetric): HistogramBin[] => {
+  const bins: HistogramBin[] = Array.from({ length: BIN_COUNT }, (_, i) => ({
+    label: `${i * 5}–${(i + 1) * 5}%`,
+    start: i * BIN_WIDTH,
+    end: (i + 1) * BIN_WIDTH,
+    count: 0,
+    pairIds: []
+  }));
+  const overflow: HistogramBin = { label: '>100%', start: 1, end: Infinity, count: 0, pairIds: [] };
+  const sorted = [...results].sort((a, b) => metricValue(b, metric) - metricValue(a, metric));
+  for (const res of sorted) {
+    const value = metricValue(res, metric);
+    // A perfect 100% belongs to the last regular bin
+    const bin = value > 1 ? overflow : bins[Math.min(BIN_COUNT - 1, Math.floor(value / BIN_WIDTH + 1e-9))];
+    bin.count++;
+    bin.pairIds.push(res.pairId);
+  }
+  return overflow.count > 0 ? [...bins, overflow] : bins;
+};
+
+export interface DocumentPoint {
+  pairId: string;
+  name: string;
+  value: number;
+  length: number; // Truth characters before normalization
+  fraction: number; // Share of documents at or below this value, for the cumulative curve
+}
+
+/**
+ * One point per document, best first, with its position on the empirical
+ * cumulative distribution. Ties share the fraction of the last of them.
+ */
+export const documentPoints = (results: AnalysisResult[], metric: DistributionMetric): DocumentPoint[] => {
+  const sorted = [...results].sort((a, b) => metricValue(a, metric) - metricValue(b, metric));
+  const points = sorted.map((res, i) => ({
+    pairId: res.pairId,
+    name: res.truthFileName,
+    value: metricValue(res, metric),
+    length: res.truthLength,
+    fraction: (i + 1) / sorted.length
+  }));
+  for (let i = points.length - 2; i >= 0; i--) {
+    if (points[i].value === points[i + 1].value) points[i].fraction = points[i + 1].fraction;
+  }
+  return points;
+};
@@ -0,0 +1,189 @@
+import { EncodingChoice, EncodingInfo, TextEncoding } from '../types';
+import { TRADITIONAL_TO_SIMPLIFIED } from './t2s';
+
+export const ENCODINGS: { id: TextEncoding; label: string }[] = [
+  { id: 'utf-8', label: 'UTF-8' },
+  { id: 'gb18030', label: 'GB18030 / GBK' },
+  { id: 'big5', label: 'Big5' },
+  { id: 'utf-16le', label: 'UTF-16 LE' },
+  { id: 'utf-16be', label: 'UTF-16 BE' },
+];
+
+export const encodingLabel = (encoding: TextEncoding): string =>
+  ENCODINGS.find(e => e.id === encoding)?.label ?? encoding;
+
+export interface DecodedText extends EncodingInfo {
+  text: string;
+}
+
+/**
+ * Frequent Simplified Chinese characters. A correct decoding of Chinese
+ * text is dominated by these; mojibake mostly lands on rare characters.
+ */
+const COMMON_SIMPLIFIED =
+  '的一是不了在人有我他这个们中来上大为和国地到以说时要就出会可也你对生能而子那得于' +
+  '着下自之年过发后作里用道行所然家种事成方多经么去法学如都同现当没动面起看定天分还' +
+  '进好小部其些主样理心她本前开但因只从想实日军者意无力它与长把机十民第公此已工使情' +
+  '明性知全三又关点正业外将两高间由问很最重并物手应战向头文体政美相见被利什二等产或' +
+  '新己制身果加西斯月话合回特代内信表化老给世位次度门任常先海通教儿原东声提立及比员' +
+  '解水名真论处走义各入几口认条平系气题活尔更别打女变四神总何电数安少报才结反受目太' +
+  '量再感建务做接必场件计管期市直德资命山金指克许统区保至队形社便空决治展马科司五基' +
+  '眼书非则听白却界达光放强即像难且权思王象完设式色路记南品住告类求据程北边死张该交' +
+  '规万取拉格望觉术领共确传师观清今切院让识候带导争运笑飞风步改收根干造言联持组每济' +
+  '车亲极林服快办议往元英士证近失转夫令准布始怎呢存未远叫台单影具罗字爱击流备兵连调' +
+  '深商算质团集百需价花党华城石级整府离况亚请技际约示复病息究线似官火断精满支视消越' +
+  '器容照须九增研写称企八功吗包片史委乎查轻易早曾除农找装广显吧阿李标谈吃图念六引历' +
+  '首医局突专费号尽另周较注语仅考落青随选列武红响虽推势参希古众构房半节土投某案黑维' +
+  '革划敌致陈律足态护七兴派孩验责营星够章音跟志底站严巴例防族供效续施留讲型料终答紧' +
+  '黄绝奇察母京段依批群项故按河米围江织害斗双境客纪采举杀攻父苏密低朝友诉止细愿千值' +
+  '仍男钱破网热助倒育属坐帝限船脸职速刻乐否刚威毛状率甚独球般普怕弹校苦创假久错承印' +
+  '晚兰试股拿脑预谁益阳若哪微尼继送急血惊伤素药适波夜省初喜卫源食险待述陆习置居劳财' +
+  '环排福纳欢雷警获模充负云停木游龙树疑层冷洲冲射略范竟句室异激汉村哈策演简卡罪判担' +
+  '州静退既衣您宗积余痛检差富灵协角占配征修皮挥胜降阶审沉坚善妈刘读啊超免压银买皇养' +
+  '伊怀执副乱抗犯追帮宣佛岁航优怪香著田铁控税左右份穿艺背阵草脚概恶块顿敢守酒岛托央' +
+  '户烈洋哥索胡款靠评版宝座释景顾弟登货互付伯慢欧换闻危忙核暗姐介坏讨丽良序升监临亮' +
+  '露永呼味野架域沙掉括舰鱼杂误湾吉减编楚肯测败屋跑梦散温困剑渐封救贵枪缺楼县尚毫移' +
+  '娘朋画班智亦耳恩短掌恐遗固席松秘谢鲁遇康虑幸均销钟诗藏赶剧票损忽巨炮旧端探湖录叶' +
+  '春乡附吸予礼港雨呀板庭妇归睛饭额含顺输摇招婚脱补谓督毒油疗旅泽材灭逐莫笔亡鲜词圣' +
+  '择寻厂睡博勒烟授诺伦岸奥唐卖俄炸载洛健堂旁宫喝借君禁阴园谋宋避抓荣姑孙逃牙束跳顶' +
+  '玉镇雪午练迫爷篇肉嘴馆遍凡础洞卷坦牛宁纸诸训私庄祖丝翻暴森塔默握戏隐熟骨访弱蒙歌' +
+  '店鬼软典欲萨伙遭盘爸扩盖弄雄稳忘亿刺拥徒姆杨齐赛趣曲刀床迎冰虚玩析窗醒妻透购替塞' +
+  '努休虎扬途侵刑绿兄迅套贸毕唯谷轮库迹尤竞街促延震弃甲伟麻川申缓潜闪售灯针哲络抵朱' +
+  '埃抱鼓植纯夏忍页杰筑折郑贝尊吴秀混臣雅振染盛怒舞圆搞狂措姓残秋培迷诚宽宇猛摆梅毁' +
+  '伸摩盟末乃悲拍丁赵硬麦蒋操耶阻订彩抽赞魔纷沿喊违妹浪汇币丰蓝殊献桌啦瓦莱援译夺汽' +
+  '烧距裁偏符勇触课敬哭懂墙袭召罚侠厅拜巧侧韩冒债曼融惯享戴童犹乘挂奖绍厚纵障讯涉彻' +
+  '刊丈爆乌役描洗玛患妙镜唱烦签仙彼弗症仿倾牌陷鸟轰咱菜闭奋庆撤泪茶疾缘播朗杜奶季丹' +
+  '狗尾仪偷奔珠虫驻孔宜艾桥淡翼恨繁寒伴叹旦愈潮粮缩罢聚径恰挑袋灰捕徐珍幕映裂泰隔启' +
+  '尖忠累炎暂估泛荒偿横拒瑞忆孤鼻闹羊呆厉衡胞零穷舍码赫婆魂灾洪腿胆津俗辩胸晓劲贫仁' +
+  '偶辑邦恢赖圈摸仰润堆碰艇稍迟辆废净凶署壁御奉旋冬矿抬蛋晨伏吹鸡倍糊秦盾杯租骑乏隆' +
+  '诊奴摄丧污渡旗甘耐凭扎抢绪粗肩梁幻菲皆碎宙叔岩荡综爬荷悉蒂返井壮薄悄扫敏碍殖详迪' +
+  '矛霍允幅撒剩凯颗骂赏液番箱贴漫酸郎腰舒眉忧浮辛恋餐吓挺励辞艘键伍峰尺昨黎辈贯侦滑' +
+  '券崇扰宪绕趋慈乔阅汗枝拖墨胁插箭腊粉泥氏彭拔骗凤慧媒佩愤扑龄驱惜豪掩兼跃尸肃帕驶' +
+  '堡届欣惠册储飘桑闲惨洁踪勃宾频仇磨递邪撞拟滚奏巡颜剂绩贡疯坡瞧截燃焦殿伪柳锁逼颇' +
+  '昏劝呈搜勤戒驾漂饮曹朵仔柔俩孟腐幼践籍牧凉牲佳娜浓芳稿竹腹跌逻垂遵脉貌柏狱猜怜惑' +
+  '陶兽帐饰贷昌叙躺钢沟寄扶铺邓寿惧询汤盗肥尝匆辉奈扣廷澳嘛董迁凝慰厌脏腾幽怨鞋丢埋' +
+  '泉涌辖躲晋紫艰魏吾慌祝邮吐狠鉴曰械咬邻赤挤弯椅陪割揭韦悟聪雾锋梯猫祥阔誉筹丛牵鸣' +
+  '沈阁穆屈旨袖猎臂蛇贺柱抛鼠瑟戈牢逊迈欺吨琴衰瓶恼燕仲诱狼池疼卢仗冠粒遥吕玄尘冯抚' +
+  '浅敦纠钻晶岂峡苍喷耗凌敲菌赔涂粹扁亏寂煤熊恭湿循暖糖赋抑秩帽哀宿踏烂袁侯抖夹昆肝' +
+  '擦猪炼恒慎搬纽纹玻渔磁铜齿跨押怖漠疲叛遣兹祭醉拳弥斜档稀捷肤疫肿豆削岗晃吞宏癌肚' +
+  '隶履涨耀扭坛拨沃绘伐堪仆郭牺歼墓雇廉契拼惩捉覆刷劫嫌瓜歇雕闷乳串娃缴唤赢莲霸桃妥' +
+  '瘦搭赴岳嘉舱俊址庞耕锐缝悔邀玲惟斥宅添挖呵讼氧浩羽斤酷掠妖祸侍乙妨贪挣汪尿莉悬唇' +
+  '翰仓轨枚盐览傅帅庙芬屏寺胖璃愚滴疏萧姿颤丑劣柯寸扔盯辱匹俱辨饿蜂哦腔郁溃谨糟葛苗' +
+  '肠忌溜鸿爵鹏鹰笼丘桂滋聊挡纲肌茨壳痕碗穴膀卓贤卧膜毅锦欠哩函茫昂薛皱夸豫胃舌剥傲' +
+  '拾窝睁携陵哼棉晴铃填饲渴吻扮逆脆喘罩卜炉柴愉绳胎蓄眠竭喂傻慕浑奸扇柜悦拦诞饱乾泡';
+
+// Traditional forms of the frequent characters, so Big5 text scores as well as GBK
+const COMMON_HAN: ReadonlySet<string> = new Set([
+  ...Array.from(COMMON_SIMPLIFIED),
+  ...Array.from(TRADITIONAL_TO_SIMPLIFIED)
+    .filter(([, simplified]) => COMMON_SIMPLIFIED.includes(simplified))
+    .map(([traditional]) => traditional)
+]);
+
+const BOMS: { bytes: number[]; encoding: TextEncoding }[] = [
+  { bytes: [0xEF, 0xBB, 0xBF], encoding: 'utf-8' },
+  { bytes: [0xFF, 0xFE], encoding: 'utf-16le' },
+  { bytes: [0xFE, 0xFF], encoding: 'utf-16be' },
+];
+
+// Legacy encodings scored against each other when the bytes are not valid UTF-8
+const CANDIDATES: TextEncoding[] = ['gb18030', 'big5', 'utf-16le', 'utf-16be'];
+
+// Enough text to tell the candidates apart without decoding large files several times
+const SAMPLE_BYTES = 64 * 1024;
+
+const REPLACEMENT = '\uFFFD';
+
+const countReplacements = (text: string) => {
+  let count = 0;
+  for (let i = text.indexOf(REPLACEMENT); i >= 0; i = text.indexOf(REPLACEMENT, i + 1)) count++;
+  return count;
+};
+
+const decode = (bytes: Uint8Array, encoding: TextEncoding) => new TextDecoder(encoding).decode(bytes);
+
+const bomOf = (bytes: Uint8Array): TextEncoding | null =>
+  BOMS.find(bom => bom.bytes.every((b, i) => bytes[i] === b))?.encoding ?? null;
+
+const strictUtf8 = (bytes: Uint8Array): string | null => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * UTF-16 text that is mostly ASCII has a zero in every other byte;
+ * which half holds the zeros gives the byte order.
+ */
+const zeroByteOrder = (sample: Uint8Array): TextEncoding | null => {
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs === 0) return null;
+  let evenZeros = 0, oddZeros = 0;
+  for (let i = 0; i + 1 < sample.length; i += 2) {
+    if (sample[i] === 0) evenZeros++;
+    if (sample[i + 1] === 0) oddZeros++;
+  }
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+};
+
+/**
+ * Plausibility of a decoding: frequent Han characters count for it,
+ * replacement characters, control codes and private-use code points
+ * (where GB18030 puts unassigned byte pairs) count against it.
+ */
+const scoreDecoding = (text: string): number => {
+  let score = 0;
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if (ch === REPLACEMENT) score -= 20;
+    else if ((code < 0x20 && ch !== '\n' && ch !== '\r' && ch !== '\t' && ch !== '\f') || code === 0x7F) score -= 10;
+    else if (code >= 0xE000 && code <= 0xF8FF) score -= 10;
+    else if (COMMON_HAN.has(ch)) score += 3;
+  }
+  return score;
+};
+
+/**
+ * Guesses the encoding of a text file: a byte-order mark wins, then
+ * the UTF-16 zero-byte pattern, then strict UTF-8, and finally the
+ * legacy candidate whose decoding looks most like real text.
+ */
+export const detectEncoding = (bytes: Uint8Array): { encoding: TextEncoding; source: 'bom' | 'detected' } => {
+  const bom = bomOf(bytes);
+  if (bom) return { encoding: bom, source: 'bom' };
+  // NUL bytes are valid UTF-8 but never appear in real text, so check UTF-16 first
+  const sample = bytes.subarray(0, SAMPLE_BYTES);
+  const byteOrder = zeroByteOrder(sample);
+  if (byteOrder) return { encoding: byteOrder, source: 'detected' };
+  if (strictUtf8(bytes) !== null) return { encoding: 'utf-8', source: 'detected' };
+
+  let best: TextEncoding = CANDIDATES[0];
+  let bestScore = -Infinity;
+  for (const encoding of CANDIDATES) {
+    const score = scoreDecoding(decode(sample, encoding));
+    if (score > bestScore) {
+      best = encoding;
+      bestScore = score;
+    }
+  }
+  return { encoding: best, source: 'detected' };
+};
+
+/**
+ * Decodes a file's bytes with the chosen encoding, or the detected one
+ * for 'auto'. A byte-order mark is dropped from the text.
+ */
+export const decodeBytes = (bytes: Uint8Array, choice: EncodingChoice = 'auto'): DecodedText => {
+  const { encoding, source } = choice === 'auto'
+    ? detectEncoding(bytes)
+    : { encoding: choice, source: 'override' as const };
+  const text = decode(bytes, encoding);
+  return { text, encoding, source, replacementCount: countReplacements(text) };
+};
+
+export const readTextFile = async (file: Blob, choice: EncodingChoice = 'auto'): Promise<DecodedText> =>
+  decodeBytes(new Uint8Array(await file.arrayBuffer()), choice);
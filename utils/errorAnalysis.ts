@@ -0,0 +1,120 @@
+import { AnalysisResult, DiffItem } from '../types';
+
+export type ErrorLevel = 'char' | 'word';
+
+export interface ErrorEntry {
+  key: string;
+  truth?: string; // Absent for hallucinated (inserted) tokens
+  ocr?: string;   // Absent for dropped (deleted) tokens
+  count: number;
+  occurrences: { pairId: string; count: number }[]; // Documents where it occurs, most frequent first
+}
+
+export interface ConfusionMatrix {
+  truthLabels: string[]; // Rows; '' stands for "nothing" (insertions)
+  ocrLabels: string[];   // Columns; '' stands for "nothing" (deletions)
+  counts: number[][];
+  max: number;
+}
+
+export interface ErrorAnalysis {
+  substitutions: ErrorEntry[];
+  deletions: ErrorEntry[];
+  insertions: ErrorEntry[];
+  confusion: ConfusionMatrix;
+}
+
+const CONFUSION_SIZE = 12;
+
+interface Counter {
+  truth?: string;
+  ocr?: string;
+  count: number;
+  byPair: Map<string, number>;
+}
+
+// Text never contains NUL, so no two pairs share a key
+export const pairKey = (truth: string, ocr: string) => `${truth}\u0000${ocr}`;
+
+const tally = (counters: Map<string, Counter>, key: string, item: DiffItem, pairId: string) => {
+  let counter = counters.get(key);
+  if (!counter) {
+    counter = { truth: item.truth, ocr: item.ocr, count: 0, byPair: new Map() };
+    counters.set(key, counter);
+  }
+  counter.count++;
+  counter.byPair.set(pairId, (counter.byPair.get(pairId) || 0) + 1);
+};
+
+const rank = (counters: Map<string, Counter>): ErrorEntry[] =>
+  Array.from(counters.entries())
+    .map(([key, c]) => ({
+      key,
+      truth: c.truth,
+      ocr: c.ocr,
+      count: c.count,
+      occurrences: Array.from(c.byPair.entries())
+        .map(([pairId, count]) => ({ pairId, count }))
+        .sort((a, b) => b.count - a.count),
+    }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+
+const buildConfusion = (substitutions: ErrorEntry[], deletions: ErrorEntry[], insertions: ErrorEntry[]): ConfusionMatrix => {
+  const weight = (totals: Map<string, number>, label: string, count: number) =>
+    totals.set(label, (totals.get(label) || 0) + count);
+
+  const truthTotals = new Map<string, number>();
+  const ocrTotals = new Map<string, number>();
+  for (const e of substitutions) {
+    weight(truthTotals, e.truth!, e.count);
+    weight(ocrTotals, e.ocr!, e.count);
+  }
+  const top = (totals: Map<string, number>) =>
+    Array.from(totals.entries()).sort((a, b) => b[1] - a[1]).slice(0, CONFUSION_SIZE).map(([label]) => label);
+
+  const truthLabels = [...top(truthTotals), ''];
+  const ocrLabels = [...top(ocrTotals), ''];
+  const counts = truthLabels.map(() => ocrLabels.map(() => 0));
+
+  const add = (truth: string, ocr: string, count: number) => {
+    const row = truthLabels.indexOf(truth);
+    const col = ocrLabels.indexOf(ocr);
+    if (row >= 0 && col >= 0 && !(truth === '' && ocr === '')) counts[row][col] += count;
+  };
+  for (const e of substitutions) add(e.truth!, e.ocr!, e.count);
+  for (const e of deletions) add(e.truth!, '', e.count);
+  for (const e of insertions) add('', e.ocr!, e.count);
+
+  return { truthLabels, ocrLabels, counts, max: Math.max(0, ...counts.flat()) };
+};
+
+/**
+ * Aggregates the edit scripts of every result into ranked error lists and
+ * a confusion matrix. Character level reads the CER diffs, word level the
+ * WER diffs.
+ */
+export const analyzeErrors = (results: AnalysisResult[], level: ErrorLevel): ErrorAnalysis => {
+  const subs = new Map<string, Counter>();
+  const dels = new Map<string, Counter>();
+  const ins = new Map<string, Counter>();
+
+  for (const res of results) {
+    const diffs = level === 'char' ? res.cer.diffs : res.wer.diffs;
+    for (const item of diffs) {
+      if (item.type === 'substitution') tally(subs, pairKey(item.truth ?? '', item.ocr ?? ''), item, res.pairId);
+      else if (item.type === 'deletion') tally(dels, item.truth || '', item, res.pairId);
+      else if (item.type === 'insertion') tally(ins, item.ocr || '', item, res.pairId);
+    }
+  }
+
+  const substitutions = rank(subs);
+  const deletions = rank(dels);
+  const insertions = rank(ins);
+
+  return {
+    substitutions,
+    deletions,
+    insertions,
+    confusion: buildConfusion(substitutions, deletions, insertions),
+  };
+};
@@ -0,0 +1,206 @@
+import { AggregateMetrics, AnalysisResult, AnalysisSettings, AverageKey, AveragingMode, DiffItem, OcrEngineSet } from '../types';
+import { AVERAGING_MODES, averageOf } from './aggregates';
+import { CHAR_CLASSES } from './charClasses';
+import { normalizationLabel } from './normalization';
+import { tokenizerLabel } from './tokenizers';
+
+export interface ExportContext {
+  results: AnalysisResult[];
+  aggregates: Record<string, AggregateMetrics>; // Keyed by engine id
+  engines: Pick<OcrEngineSet, 'id' | 'name'>[];
+  settings: AnalysisSettings;
+  averaging?: AveragingMode; // Which average the HTML summary shows; JSON always carries both
+  generatedAt?: Date;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const csvCell = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch] as string));
+
+/**
+ * Per-file metrics as CSV, one row per pair, with the numerators,
+ * denominators and S/I/D counts behind every score. Tags and every
+ * manifest metadata field seen in the results close each row.
+ * Starts with a BOM so spreadsheet apps detect UTF-8 filenames correctly.
+ */
+export const resultsToCSV = (results: AnalysisResult[]): string => {
+  const metadataKeys = Array.from(new Set(results.flatMap(r => Object.keys(r.metadata ?? {}))));
+  const header = [
+    'engine', 'truth_file', 'ocr_file',
+    'cer', 'cer_edits', 'cer_ref_chars', 'cer_sub', 'cer_ins', 'cer_del',
+    'wer', 'wer_edits', 'wer_ref_words', 'wer_sub', 'wer_ins', 'wer_del',
+    'punctuation_accuracy', 'punctuation_edits', 'punctuation_ref_marks',
+    'line_accuracy', 'line_mean_cer', 'out_of_order_lines', 'reading_blocks', 'bag_of_words_wer',
+    ...CHAR_CLASSES.map(c => `cer_${c.id}`), 'cer_space_adjacent',
+    'teds', 'teds_structure',
+    'truth_length', 'ocr_length', 'tokenizer', 'normalization', 'truth_format', 'ocr_format',
+    'tags', ...metadataKeys.map(k => `meta_${k}`),
+  ];
+
+  const rows = results.map(r => [
+    r.engineName, r.truthFileName, r.ocrFileName,
+    r.cer.score, r.cer.numerator, r.cer.denominator, r.cer.breakdown?.s, r.cer.breakdown?.i, r.cer.breakdown?.d,
+    r.wer.score, r.wer.numerator, r.wer.denominator, r.wer.breakdown?.s, r.wer.breakdown?.i, r.wer.breakdown?.d,
+    r.punctuationAccuracy.score, r.punctuationAccuracy.numerator, r.punctuationAccuracy.denominator,
+    r.lines.accuracy, r.lines.meanCer, r.lines.readingOrder.outOfOrderLines, r.lines.readingOrder.blocks, r.lines.readingOrder.bagOfWordsWer,
+    ...CHAR_CLASSES.map(c => r.charClasses?.classes[c.id].cer), r.charClasses?.spaceAdjacent.cer,
+    r.tables?.full, r.tables?.structure,
+    r.truthLength, r.ocrLength, r.wer.tokenizer, r.normalization.join('|'), r.truthFormat, r.ocrFormat,
+    r.tags?.join(';'), ...metadataKeys.map(k => r.metadata?.[k]),
+  ]);
+
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Full dump of a run, including diffs and the settings needed to reproduce it.
+ */
+export const resultsToJSON = ({ results, aggregates, engines, settings, generatedAt = new Date() }: ExportContext): string =>
+  JSON.stringify({
+    generatedAt: generatedAt.toISOString(),
+    settings,
+    engines: engines.map(e => ({ id: e.id, name: e.name, aggregates: aggregates[e.id] })),
+    results
+  }, null, 2);
+
+const renderDiffHtml = (diffs: DiffItem[], joiner: string): string =>
+  diffs.map(item => {
+    const truth = escapeHtml(item.truth || '');
+    const ocr = escapeHtml(item.ocr || '');
+    switch (item.type) {
+      case 'match': return `<span class="m">${truth}</span>`;
+      case 'deletion': return `<span class="d" title="漏读">${truth}</span>`;
+      case 'insertion': return `<span class="i" title="多读">${ocr}</span>`;
+      case 'substitution': return `<span class="s" title="错误替换"><del>${truth}</del>${ocr}</span>`;
+      case 'excluded': return `<span class="x" title="${item.markup === 'ignore' ? '忽略区域' : '无法辨认'} (不计分): ${truth}">${ocr || truth}</span>`;
+    }
+  }).join(joiner);
+
+const METRIC_BARS: { key: AverageKey; label: string; color: string }[] = [
+  { key: 'avgCer', label: '字符错误率 (CER)', color: '#ef4444' },
+  { key: 'avgWer', label: '词错误率 (WER)', color: '#f97316' },
+  { key: 'avgPunc', label: '标点准确率', color: '#3b82f6' },
+];
+
+// One group of horizontal bars per metric, one bar per engine
+const renderBarChartSvg = (engines: ExportContext['engines'], aggregates: ExportContext['aggregates'], averaging: AveragingMode): string => {
+  const barHeight = 22;
+  const groupGap = 14;
+  const labelWidth = 240;
+  const chartWidth = 320;
+  const groupHeight = engines.length * (barHeight + 4) + groupGap;
+  const height = METRIC_BARS.length * groupHeight + 10;
+  const rows = METRIC_BARS.map((metric, g) => engines.map((engine, i) => {
+    const y = g * groupHeight + i * (barHeight + 4) + 8;
+    const agg = aggregates[engine.id];
+    const value = agg ? averageOf(agg, metric.key, averaging) : 0;
+    const width = Math.max(0, Math.min(1, value)) * chartWidth;
+    const label = engines.length > 1 ? `${metric.label} · ${engine.name}` : metric.label;
+    return `<text x="${labelWidth - 8}" y="${y + 15}" text-anchor="end" font-size="12" fill="#374151">${escapeHtml(label)}</text>`
+      + `<rect x="${labelWidth}" y="${y}" width="${width.toFixed(1)}" height="${barHeight}" rx="4" fill="${metric.color}" fill-opacity="${1 - i * 0.2}"/>`
+      + `<text x="${labelWidth + width + 6}" y="${y + 15}" font-size="12" fill="#666">${percent(value)}</text>`;
+  }).join('')).join('');
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${labelWidth + chartWidth + 70}" height="${height}">${rows}</svg>`;
+};
+
+/**
+ * A single-file HTML report with the summary cards, the overview chart
+ * and colored diffs for every document. No external assets, so it can be
+ * attached to an email or a vendor evaluation as-is.
+ */
+export const resultsToHTML = ({ results, aggregates, engines, settings, averaging = 'macro', generatedAt = new Date() }: ExportContext): string => {
+  const multiEngine = engines.length > 1;
+  const cards = engines.map(engine => {
+    const agg = aggregates[engine.id];
+    if (!agg) return '';
+    const engineCards = ([
+      { key: 'avgCer', title: '平均字符错误率 (CER)', hint: '越低越好' },
+      { key: 'avgWer', title: '平均词错误率 (WER)', hint: '越低越好' },
+      { key: 'avgPunc', title: '标点符号准确率', hint: '越高越好' },
+    ] as const).map(c => {
+      const [lo, hi] = agg.summaries[c.key].ci95[averaging];
+      return `<div class="card"><h3>${c.title}</h3><strong>${percent(averageOf(agg, c.key, averaging))}</strong>`
+        + `<span>95% CI ${percent(lo)} – ${percent(hi)}</span><br><span>${c.hint}</span></div>`;
+    }).join('');
+    return `${multiEngine ? `<h3>${escapeHtml(engine.name)}</h3>` : ''}<div class="cards">${engineCards}</div>`;
+  }).join('');
+
+  const chart = renderBarChartSvg(engines, aggregates, averaging);
+  const engineLabel = (r: AnalysisResult) => (multiEngine ? `[${escapeHtml(r.engineName)}] ` : '');
+
+  const rows = results.map(r => `<tr>
+      <td>${engineLabel(r)}${escapeHtml(r.truthFileName)}<br><small>对比 ${escapeHtml(r.ocrFileName)}</small></td>
+      <td class="num">${percent(r.cer.score)}<br><small>${r.cer.numerator} / ${r.cer.denominator}</small></td>
+      <td class="num">${percent(r.wer.score)}<br><small>(${r.wer.breakdown?.s} + ${r.wer.breakdown?.i} + ${r.wer.breakdown?.d}) / ${r.wer.denominator}</small></td>
+      <td class="num">${percent(r.punctuationAccuracy.score)}<br><small>1 - ${r.punctuationAccuracy.numerator} / ${r.punctuationAccuracy.denominator}</small></td>
+    </tr>`).join('');
+
+  const diffs = results.map(r => `<details>
+      <summary>${engineLabel(r)}${escapeHtml(r.truthFileName)} — CER ${percent(r.cer.score)} / WER ${percent(r.wer.score)}</summary>
+      <h4>词级差异 (WER Diff)</h4>
+      <div class="diff">${renderDiffHtml(r.wer.diffs, r.wer.tokenizer === 'whitespace' ? ' ' : '')}</div>
+      <h4>字符级差异 (CER Diff)</h4>
+      <div class="diff">${renderDiffHtml(r.cer.diffs, '')}</div>
+    </details>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<title>OCR 评估报告</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; color: #111827; max-width: 1100px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.5rem; } h2 { font-size: 1.1rem; margin-top: 2rem; } h4 { font-size: .8rem; color: #6b7280; margin: 1rem 0 .4rem; }
+  .meta { color: #6b7280; font-size: .85rem; }
+  .cards { display: grid; grid-template-columns: repeat(3, 1fr); gap: 1rem; }
+  .card { border: 1px solid #bfdbfe; background: #eff6ff; color: #1d4ed8; border-radius: 8px; padding: 1rem; text-align: center; }
+  .card h3 { font-size: .8rem; margin: 0 0 .3rem; opacity: .8; } .card strong { font-size: 1.8rem; display: block; } .card span { font-size: .75rem; opacity: .7; }
+  table { border-collapse: collapse; width: 100%; font-size: .85rem; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: .5rem .75rem; text-align: left; } th { background: #f9fafb; color: #6b7280; font-weight: 500; }
+  td.num { text-align: right; font-variant-numeric: tabular-nums; } small { color: #6b7280; }
+  details { border: 1px solid #e5e7eb; border-radius: 6px; padding: .5rem 1rem; margin-bottom: .5rem; } summary { cursor: pointer; font-weight: 500; }
+  .diff { font-family: ui-monospace, monospace; font-size: .85rem; line-height: 1.8; background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 4px; padding: .75rem; white-space: pre-wrap; word-break: break-all; }
+  .m { color: #4b5563; } .d { background: #fee2e2; color: #b91c1c; text-decoration: line-through; }
+  .i { background: #fecaca; color: #991b1b; font-weight: bold; } .s { background: #ffedd5; color: #9a3412; font-weight: bold; } .s del { opacity: .5; font-weight: normal; margin-right: 2px; }
+  .x { background: #f1f5f9; color: #64748b; border: 1px dashed #cbd5e1; }
+</style>
+</head>
+<body>
+<h1>OCR 评估报告</h1>
+<p class="meta">生成时间: ${escapeHtml(generatedAt.toLocaleString())} · 文件对数: ${results.length} · 引擎: ${engines.map(e => escapeHtml(e.name)).join('、')} · 分词: ${escapeHtml(tokenizerLabel(settings.tokenizer))} · 归一化: ${escapeHtml(normalizationLabel(settings.normalization))} · 平均方式: ${AVERAGING_MODES.find(m => m.id === averaging)?.label}</p>
+${cards}
+<h2>整体性能概览</h2>
+${chart}
+<h2>详细数据</h2>
+<table>
+  <thead><tr><th>文件配对</th><th>字符错误率 (CER)</th><th>词错误率 (WER)</th><th>标点准确率</th></tr></thead>
+  <tbody>${rows}</tbody>
+</table>
+<h2>差异对比</h2>
+${diffs}
+</body>
+</html>
+`;
+};
+
+/**
+ * Triggers a browser download for generated content.
+ */
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
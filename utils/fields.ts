@@ -0,0 +1,112 @@
+import { AnalysisResult, FieldDefinition, FieldKind, FieldMatch, NormalizationStep } from '../types';
+import { levenshteinDistance } from './algorithms';
+import { normalizeText } from './normalization';
+
+export const FIELD_KINDS: { id: FieldKind; label: string; placeholder: string }[] = [
+  { id: 'regex', label: '正则表达式', placeholder: '发票号码[:：]\\s*(\\d+)' },
+  { id: 'label', label: '标签锚点', placeholder: '金额' },
+];
+
+// Starting points for common invoice and form fields
+export const FIELD_PRESETS: Omit<FieldDefinition, 'id'>[] = [
+  { name: '发票号码', kind: 'regex', pattern: '发票号码[:：]?\\s*(\\d+)' },
+  { name: '金额', kind: 'regex', pattern: '(?:金额|合计)[:：]?\\s*[¥￥]?\\s*([\\d,]+(?:\\.\\d+)?)' },
+  { name: '日期', kind: 'regex', pattern: '(\\d{4}\\s*[-/.年]\\s*\\d{1,2}\\s*[-/.月]\\s*\\d{1,2}\\s*日?)' },
+  { name: '身份证号', kind: 'regex', pattern: '(\\d{17}[\\dXx])' },
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds the matcher for a field, or null when the pattern is empty or
+ * not a valid regex. A label anchor takes the rest of its line, after
+ * any colon or spaces.
+ */
+export const compileField = (field: FieldDefinition): RegExp | null => {
+  if (!field.pattern.trim()) return null;
+  if (field.kind === 'label') return new RegExp(`${escapeRegExp(field.pattern.trim())}[ \\t:：]*([^\\n]*)`);
+  try {
+    return new RegExp(field.pattern, 'm');
+  } catch {
+    return null;
+  }
+};
+
+// First match only; a capture group narrows the value to the part that matters
+const extractValue = (text: string, matcher: RegExp | null, normalization: NormalizationStep[]): string | undefined => {
+  const match = matcher?.exec(text);
+  if (!match) return undefined;
+  const value = normalizeText((match.length > 1 ? match[1] ?? '' : match[0]).trim(), normalization).trim();
+  return value.length > 0 ? value : undefined;
+};
+
+const normalizedDistance = (truth: string, ocr: string): number => {
+  const longer = Math.max(Array.from(truth).length, Array.from(ocr).length);
+  return longer === 0 ? 0 : levenshteinDistance(Array.from(truth), Array.from(ocr)) / longer;
+};
+
+/**
+ * Extracts every field from both texts and compares the values.
+ * Patterns run on the texts as written, so they never have to anticipate
+ * what normalization does to them; only the extracted values go through
+ * `normalization` before they are compared. A value the OCR missed
+ * counts as fully wrong.
+ */
+export const evaluateFields = (
+  truth: string,
+  ocr: string,
+  fields: FieldDefinition[],
+  normalization: NormalizationStep[] = []
+): FieldMatch[] =>
+  fields.map(field => {
+    const matcher = compileField(field);
+    const truthValue = extractValue(truth, matcher, normalization);
+    const ocrValue = extractValue(ocr, matcher, normalization);
+    const distance = truthValue === undefined
+      ? (ocrValue === undefined ? 0 : 1)
+      : ocrValue === undefined ? 1 : normalizedDistance(truthValue, ocrValue);
+    return { fieldId: field.id, name: field.name, truth: truthValue, ocr: ocrValue, exact: truthValue === ocrValue, distance };
+  });
+
+export interface FieldSummary {
+  fieldId: string;
+  name: string;
+  documents: number; // Documents whose truth contains the field
+  exact: number;
+  missed: number; // Present in the truth, not found in the OCR
+  spurious: number; // Found in the OCR of documents whose truth lacks it
+  accuracy: number; // exact / documents
+  meanDistance: number;
+  matches: { pairId: string; match: FieldMatch }[];
+}
+
+/**
+ * Field-level accuracy over a set of documents. Only documents whose
+ * truth contains the field count towards its accuracy and distance.
+ */
+export const summarizeFields = (results: AnalysisResult[]): FieldSummary[] => {
+  const summaries = new Map<string, FieldSummary>();
+  for (const r of results) {
+    for (const match of r.fields ?? []) {
+      let summary = summaries.get(match.fieldId);
+      if (!summary) {
+        summary = { fieldId: match.fieldId, name: match.name, documents: 0, exact: 0, missed: 0, spurious: 0, accuracy: 0, meanDistance: 0, matches: [] };
+        summaries.set(match.fieldId, summary);
+      }
+      summary.matches.push({ pairId: r.pairId, match });
+      if (match.truth === undefined) {
+        if (match.ocr !== undefined) summary.spurious++;
+        continue;
+      }
+      summary.documents++;
+      if (match.exact) summary.exact++;
+      if (match.ocr === undefined) summary.missed++;
+      summary.meanDistance += match.distance;
+    }
+  }
+  return Array.from(summaries.values()).map(s => ({
+    ...s,
+    accuracy: s.documents === 0 ? 0 : s.exact / s.documents,
+    meanDistance: s.documents === 0 ? 0 : s.meanDistance / s.documents
+  }));
+};
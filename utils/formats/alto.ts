@@ -0,0 +1,34 @@
+import { BoundingBox, OcrDocument, OcrLine, OcrWord } from '../../types';
+import { childElements, findElements, parseXml, XmlElement } from './xml';
+import { buildDocument, joinWords, toNumber } from './layout';
+
+const boxOf = (el: XmlElement): BoundingBox | undefined => {
+  const x = toNumber(el.attributes.HPOS);
+  const y = toNumber(el.attributes.VPOS);
+  const w = toNumber(el.attributes.WIDTH);
+  const h = toNumber(el.attributes.HEIGHT);
+  if (x === undefined || y === undefined || w === undefined || h === undefined) return undefined;
+  return { x0: x, y0: y, x1: x + w, y1: y + h };
+};
+
+/**
+ * ALTO (Library of Congress, ABBYY, Transkribus exports): TextLine holds
+ * String words with CONTENT and WC confidence. A trailing HYP keeps its
+ * hyphen so the line text matches what is printed.
+ */
+export const parseAlto = (source: string): OcrDocument => {
+  const root = parseXml(source);
+  const lines: OcrLine[] = findElements(root, el => el.name === 'TextLine').map(lineEl => {
+    const words: OcrWord[] = childElements(lineEl, 'String')
+      .map(s => ({ text: s.attributes.CONTENT || '', confidence: toNumber(s.attributes.WC), bbox: boxOf(s) }))
+      .filter(w => w.text.length > 0);
+    const hyphen = childElements(lineEl, 'HYP').map(h => h.attributes.CONTENT || '-').join('');
+    return {
+      text: joinWords(words) + hyphen,
+      words,
+      confidence: toNumber(lineEl.attributes.WC),
+      bbox: boxOf(lineEl)
+    };
+  });
+  return buildDocument('alto', lines);
+};
@@ -0,0 +1,55 @@
+import { OcrDocument, OcrLine, OcrWord } from '../../types';
+import { findElements, parseXml, textContent, XmlElement } from './xml';
+import { boxFromPoints, buildDocument, joinWords } from './layout';
+
+const LINE_CLASSES = ['ocr_line', 'ocr_textfloat', 'ocr_header', 'ocr_caption'];
+
+const hasClass = (el: XmlElement, names: string[]) =>
+  (el.attributes.class || '').split(/\s+/).some(c => names.includes(c));
+
+// title="bbox 10 20 110 40; x_wconf 93" → { bbox: '10 20 110 40', x_wconf: '93' }
+const parseTitle = (el: XmlElement): Record<string, string> => {
+  const props: Record<string, string> = {};
+  for (const part of (el.attributes.title || '').split(';')) {
+    const [key, ...rest] = part.trim().split(/\s+/);
+    if (key) props[key] = rest.join(' ');
+  }
+  return props;
+};
+
+const layoutOf = (el: XmlElement) => {
+  const props = parseTitle(el);
+  const conf = props.x_wconf !== undefined ? Number(props.x_wconf) : NaN;
+  return {
+    bbox: props.bbox ? boxFromPoints(props.bbox.split(/\s+/).map(Number)) : undefined,
+    confidence: Number.isFinite(conf) ? conf / 100 : undefined
+  };
+};
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * hOCR (Tesseract, OCRopus, Kraken): lines are elements classed ocr_line
+ * or one of its variants, words are ocrx_word, layout lives in title.
+ */
+export const parseHocr = (source: string): OcrDocument => {
+  const root = parseXml(source);
+  const lineElements = findElements(root, el => hasClass(el, LINE_CLASSES));
+
+  if (lineElements.length === 0) {
+    const body = findElements(root, el => el.name.toLowerCase() === 'body')[0] || root;
+    return buildDocument('hocr', textContent(body).split('\n').map(collapse).filter(Boolean).map(text => ({ text, words: [] })));
+  }
+
+  const lines: OcrLine[] = lineElements.map(lineEl => {
+    const words: OcrWord[] = findElements(lineEl, el => hasClass(el, ['ocrx_word']))
+      .map(wordEl => ({ text: collapse(textContent(wordEl)), ...layoutOf(wordEl) }))
+      .filter(w => w.text.length > 0);
+    return {
+      text: words.length > 0 ? joinWords(words) : collapse(textContent(lineEl)),
+      words,
+      ...layoutOf(lineEl)
+    };
+  });
+  return buildDocument('hocr', lines);
+};
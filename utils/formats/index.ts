@@ -0,0 +1,84 @@
+import { JsonFormatConfig, OcrDocument, OcrFormat } from '../../types';
+import { parseHocr } from './hocr';
+import { parseAlto } from './alto';
+import { parsePageXml } from './pageXml';
+import { parseTesseractTsv } from './tesseractTsv';
+import { DEFAULT_JSON_FORMAT, parseJsonOcr } from './json';
+
+export { DEFAULT_JSON_FORMAT } from './json';
+export { meanConfidence } from './layout';
+
+export interface FormatInfo {
+  id: OcrFormat;
+  label: string;
+  extensions: string[];
+}
+
+export const OCR_FORMATS: FormatInfo[] = [
+  { id: 'text', label: '纯文本', extensions: ['.txt', '.md'] },
+  { id: 'hocr', label: 'hOCR', extensions: ['.hocr', '.html', '.htm'] },
+  { id: 'alto', label: 'ALTO XML', extensions: ['.xml'] },
+  { id: 'page-xml', label: 'PAGE XML', extensions: ['.xml'] },
+  { id: 'tesseract-tsv', label: 'Tesseract TSV', extensions: ['.tsv'] },
+  { id: 'json', label: 'JSON', extensions: ['.json'] },
+];
+
+// Value for <input accept>
+export const ACCEPTED_FILE_TYPES = Array.from(new Set(OCR_FORMATS.flatMap(f => f.extensions))).join(',');
+
+export const SUPPORTED_FORMATS_HINT = `支持 ${OCR_FORMATS.map(f => f.label).join('、')}，自动识别格式`;
+
+export const formatLabel = (id: OcrFormat): string =>
+  OCR_FORMATS.find(f => f.id === id)?.label || id;
+
+export interface FormatOptions {
+  json: JsonFormatConfig;
+}
+
+export const DEFAULT_FORMAT_OPTIONS: FormatOptions = { json: DEFAULT_JSON_FORMAT };
+
+const isJson = (content: string) => {
+  try {
+    JSON.parse(content);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Guesses the format from the content, using the extension only to break
+ * ties. Anything unrecognized is treated as plain text.
+ */
+export const detectFormat = (content: string, fileName: string): OcrFormat => {
+  const head = content.slice(0, 4096).replace(/^\uFEFF/, '').trimStart();
+  const dot = fileName.lastIndexOf('.');
+  const ext = dot >= 0 ? fileName.slice(dot).toLowerCase() : '';
+
+  if (head.startsWith('<')) {
+    if (/<([\w-]+:)?alto[\s>]/.test(head)) return 'alto';
+    if (/<([\w-]+:)?PcGts[\s>]/.test(head)) return 'page-xml';
+    if (/\bocr_(page|line|carea|par)\b|\bocrx_word\b/.test(head) || ext === '.hocr') return 'hocr';
+  }
+  if (/^level\tpage_num\tblock_num/.test(head)) return 'tesseract-tsv';
+  if ((head.startsWith('{') || head.startsWith('[')) && (ext === '.json' || isJson(content))) return 'json';
+  return 'text';
+};
+
+/**
+ * Parses a file's content into text plus layout. Throws when a file is
+ * recognized as a structured format but cannot be read as one.
+ */
+export const parseDocument = (content: string, fileName: string, options: FormatOptions = DEFAULT_FORMAT_OPTIONS): OcrDocument => {
+  const format = detectFormat(content, fileName);
+  const source = content.replace(/^\uFEFF/, '');
+  switch (format) {
+    case 'hocr': return parseHocr(source);
+    case 'alto': return parseAlto(source);
+    case 'page-xml': return parsePageXml(source);
+    case 'tesseract-tsv': return parseTesseractTsv(source);
+    case 'json': return parseJsonOcr(source, options.json);
+    case 'text':
+      return { format: 'text', text: source, lines: source.split(/\r?\n/).map(text => ({ text, words: [] })) };
+  }
+};
@@ -0,0 +1,74 @@
+import { BoundingBox, JsonFormatConfig, OcrDocument, OcrLine, OcrWord } from '../../types';
+import { queryJsonPath } from './jsonPath';
+import { boxFromPoints, buildDocument, joinWords } from './layout';
+
+// Matches Azure Read / Document Intelligence style responses out of the box
+export const DEFAULT_JSON_FORMAT: JsonFormatConfig = {
+  linesPath: '$..lines[*]',
+  lineTextPath: 'text',
+  wordsPath: 'words[*]',
+  wordTextPath: 'text',
+  confidencePath: 'confidence',
+  bboxPath: 'boundingBox'
+};
+
+const first = (node: unknown, path: string): unknown =>
+  path.trim() ? queryJsonPath(node, path)[0] : undefined;
+
+const asText = (value: unknown): string =>
+  typeof value === 'string' ? value : typeof value === 'number' ? String(value) : '';
+
+// Engines report 0–1 or 0–100; anything above 1 is taken as a percentage
+const asConfidence = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? Number(value) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n)) return undefined;
+  return n > 1 ? n / 100 : n;
+};
+
+/**
+ * Reads the box shapes cloud APIs use: flat polygons ([x, y, x, y, …]),
+ * point lists ([{x, y}, …], optionally under `vertices`) and rectangles
+ * ({left|x, top|y, width, height}).
+ */
+const asBox = (value: unknown): BoundingBox | undefined => {
+  if (Array.isArray(value)) {
+    if (value.every(v => typeof v === 'number')) return boxFromPoints(value);
+    return boxFromPoints(value.flatMap(p => [Number(p?.x ?? 0), Number(p?.y ?? 0)]));
+  }
+  if (value === null || typeof value !== 'object') return undefined;
+  const v = value as Record<string, unknown>;
+  if (Array.isArray(v.vertices)) return asBox(v.vertices);
+  const x = Number(v.left ?? v.x);
+  const y = Number(v.top ?? v.y);
+  const w = Number(v.width);
+  const h = Number(v.height);
+  return [x, y, w, h].every(Number.isFinite) ? { x0: x, y0: y, x1: x + w, y1: y + h } : undefined;
+};
+
+/**
+ * Generic JSON OCR output. Lines are located with a JSONPath; text,
+ * words, confidence and boxes with paths relative to each line.
+ */
+export const parseJsonOcr = (source: string, config: JsonFormatConfig = DEFAULT_JSON_FORMAT): OcrDocument => {
+  const root: unknown = JSON.parse(source);
+  const lineNodes = queryJsonPath(root, config.linesPath);
+  if (lineNodes.length === 0) throw new Error(`No lines found at JSONPath "${config.linesPath}"`);
+
+  const lines: OcrLine[] = lineNodes.map(node => {
+    const words: OcrWord[] = (config.wordsPath.trim() ? queryJsonPath(node, config.wordsPath) : [])
+      .map(w => ({
+        text: asText(first(w, config.wordTextPath)),
+        confidence: asConfidence(first(w, config.confidencePath)),
+        bbox: asBox(first(w, config.bboxPath))
+      }))
+      .filter(w => w.text.length > 0);
+    const lineText = typeof node === 'string' ? node : asText(first(node, config.lineTextPath));
+    return {
+      text: lineText || joinWords(words),
+      words,
+      confidence: asConfidence(first(node, config.confidencePath)),
+      bbox: asBox(first(node, config.bboxPath))
+    };
+  });
+  return buildDocument('json', lines);
+};
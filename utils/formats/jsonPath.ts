@@ -0,0 +1,62 @@
+type Selector = string | number | '*';
+
+interface Segment {
+  recursive: boolean; // `..` descends into every level before selecting
+  selector: Selector;
+}
+
+const SEGMENT_REGEX = /(\.\.|\.)?(?:([A-Za-z_$][\w$-]*)|(\*)|\[\s*(?:(\*)|(-?\d+)|'([^']*)'|"([^"]*)")\s*\])/y;
+
+/**
+ * Parses the JSONPath subset used for OCR responses: `$`, `.key`,
+ * `['key']`, `[n]` (negative counts from the end), `*` / `[*]` and `..`.
+ * A path without a leading `$` is relative to the node it is applied to.
+ */
+export const parseJsonPath = (path: string): Segment[] => {
+  const source = path.trim().replace(/^\$/, '');
+  const segments: Segment[] = [];
+  let pos = 0;
+  while (pos < source.length) {
+    SEGMENT_REGEX.lastIndex = pos;
+    const m = SEGMENT_REGEX.exec(source);
+    // A bare name is only valid at the start of a relative path
+    if (!m || (!m[1] && pos > 0 && (m[2] !== undefined || m[3] !== undefined))) {
+      throw new Error(`Invalid JSONPath "${path}" at position ${pos}`);
+    }
+    const selector: Selector = m[3] || m[4] ? '*' : m[5] !== undefined ? Number(m[5]) : (m[2] ?? m[6] ?? m[7]);
+    segments.push({ recursive: m[1] === '..', selector });
+    pos = SEGMENT_REGEX.lastIndex;
+  }
+  return segments;
+};
+
+const select = (node: unknown, selector: Selector): unknown[] => {
+  if (node === null || typeof node !== 'object') return [];
+  if (selector === '*') return Array.isArray(node) ? node : Object.values(node);
+  if (typeof selector === 'number') {
+    if (!Array.isArray(node)) return [];
+    const item = node[selector < 0 ? node.length + selector : selector];
+    return item === undefined ? [] : [item];
+  }
+  const value = (node as Record<string, unknown>)[selector];
+  return value === undefined ? [] : [value];
+};
+
+const descendants = (node: unknown): unknown[] => {
+  const all: unknown[] = [node];
+  if (node !== null && typeof node === 'object') {
+    for (const child of Array.isArray(node) ? node : Object.values(node)) all.push(...descendants(child));
+  }
+  return all;
+};
+
+/**
+ * Evaluates a JSONPath against a value and returns every match in
+ * document order. An empty path selects the value itself.
+ */
+export const queryJsonPath = (root: unknown, path: string): unknown[] =>
+  parseJsonPath(path).reduce<unknown[]>(
+    (nodes, { recursive, selector }) =>
+      (recursive ? nodes.flatMap(descendants) : nodes).flatMap(node => select(node, selector)),
+    [root]
+  );
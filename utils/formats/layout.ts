@@ -0,0 +1,49 @@
+import { BoundingBox, OcrDocument, OcrFormat, OcrLine, OcrWord } from '../../types';
+
+const CJK_EDGE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/**
+ * Joins word boxes into line text. Engines emit one box per CJK character,
+ * so no space is inserted between two CJK neighbours.
+ */
+export const joinWords = (words: OcrWord[]): string =>
+  words.reduce((text, word) => {
+    if (text.length === 0) return word.text;
+    const tight = CJK_EDGE.test(text.slice(-1)) && CJK_EDGE.test(word.text[0] || '');
+    return tight ? text + word.text : `${text} ${word.text}`;
+  }, '');
+
+/**
+ * The axis-aligned box around a polygon given as flat [x, y, x, y, …]
+ * coordinates. A plain [x0, y0, x1, y1] box maps to itself.
+ */
+export const boxFromPoints = (coords: number[]): BoundingBox | undefined => {
+  if (coords.length < 4 || coords.some(n => !Number.isFinite(n))) return undefined;
+  const xs = coords.filter((_, i) => i % 2 === 0);
+  const ys = coords.filter((_, i) => i % 2 === 1);
+  return { x0: Math.min(...xs), y0: Math.min(...ys), x1: Math.max(...xs), y1: Math.max(...ys) };
+};
+
+export const toNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+export const buildDocument = (format: OcrFormat, lines: OcrLine[]): OcrDocument => ({
+  format,
+  text: lines.map(l => l.text).join('\n'),
+  lines
+});
+
+/**
+ * Average word confidence, falling back to line confidence for formats
+ * that only score lines. Undefined when the engine reported none.
+ */
+export const meanConfidence = (lines: OcrLine[]): number | undefined => {
+  const scores = lines.flatMap(l => {
+    const words = l.words.map(w => w.confidence).filter((c): c is number => c !== undefined);
+    return words.length > 0 ? words : l.confidence !== undefined ? [l.confidence] : [];
+  });
+  return scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : undefined;
+};
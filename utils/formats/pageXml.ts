@@ -0,0 +1,83 @@
+import { BoundingBox, OcrDocument, OcrLine, OcrWord } from '../../types';
+import { childElements, findElements, parseXml, textContent, XmlElement } from './xml';
+import { boxFromPoints, buildDocument, joinWords, toNumber } from './layout';
+
+// Coords points="x,y x,y …" (PAGE 2013+) or nested <Point x y/> (PAGE 2010)
+const boxOf = (el: XmlElement): BoundingBox | undefined => {
+  const coords = childElements(el, 'Coords')[0];
+  if (!coords) return undefined;
+  const points = coords.attributes.points
+    ? coords.attributes.points.trim().split(/[\s,]+/).map(Number)
+    : childElements(coords, 'Point').flatMap(p => [Number(p.attributes.x), Number(p.attributes.y)]);
+  return boxFromPoints(points);
+};
+
+// Alternatives are ranked by @index; the lowest one is the primary reading
+const primaryTextEquiv = (el: XmlElement) => {
+  const equivs = childElements(el, 'TextEquiv');
+  if (equivs.length === 0) return undefined;
+  const best = equivs.reduce((a, b) => ((toNumber(b.attributes.index) ?? 0) < (toNumber(a.attributes.index) ?? 0) ? b : a));
+  const unicode = childElements(best, 'Unicode')[0];
+  return { text: unicode ? textContent(unicode) : '', confidence: toNumber(best.attributes.conf) };
+};
+
+/**
+ * Orders regions by the ReadingOrder block when present; regions it does
+ * not mention keep their document order after the ordered ones.
+ */
+const orderRegions = (root: XmlElement, regions: XmlElement[]): XmlElement[] => {
+  const refs = findElements(root, el => el.name === 'RegionRefIndexed' || el.name === 'RegionRef');
+  if (refs.length === 0) return regions;
+  const rank = new Map<string, number>();
+  refs.forEach((ref, i) => rank.set(ref.attributes.regionRef, toNumber(ref.attributes.index) ?? i));
+  const key = (r: XmlElement) => rank.get(r.attributes.id) ?? Number.MAX_SAFE_INTEGER;
+  return regions
+    .map((region, i) => ({ region, i }))
+    .sort((a, b) => key(a.region) - key(b.region) || a.i - b.i)
+    .map(({ region }) => region);
+};
+
+/**
+ * PAGE XML (Transkribus, eScriptorium, OCR-D): TextRegion > TextLine >
+ * Word, each with its own TextEquiv. The line's TextEquiv wins over the
+ * joined words, as it carries the engine's own spacing.
+ */
+export const parsePageXml = (source: string): OcrDocument => {
+  const root = parseXml(source);
+  const regions = orderRegions(root, findElements(root, el => el.name === 'TextRegion'));
+  // findElements stops at the outermost regions, so nested ones are walked here
+  const allRegions: XmlElement[] = [];
+  const collect = (region: XmlElement) => {
+    allRegions.push(region);
+    childElements(region, 'TextRegion').forEach(collect);
+  };
+  regions.forEach(collect);
+
+  const lines: OcrLine[] = [];
+  for (const region of allRegions) {
+    const lineEls = childElements(region, 'TextLine');
+    if (lineEls.length === 0) {
+      const equiv = primaryTextEquiv(region);
+      if (equiv?.text) {
+        equiv.text.split('\n').forEach(text => lines.push({ text, words: [], confidence: equiv.confidence }));
+      }
+      continue;
+    }
+    for (const lineEl of lineEls) {
+      const words: OcrWord[] = childElements(lineEl, 'Word')
+        .map(w => {
+          const equiv = primaryTextEquiv(w);
+          return { text: equiv?.text || '', confidence: equiv?.confidence, bbox: boxOf(w) };
+        })
+        .filter(w => w.text.length > 0);
+      const equiv = primaryTextEquiv(lineEl);
+      lines.push({
+        text: equiv?.text || joinWords(words),
+        words,
+        confidence: equiv?.confidence,
+        bbox: boxOf(lineEl)
+      });
+    }
+  }
+  return buildDocument('page-xml', lines);
+};
@@ -0,0 +1,50 @@
+import { OcrDocument, OcrLine } from '../../types';
+import { buildDocument, joinWords, toNumber } from './layout';
+
+const WORD_LEVEL = 5;
+const LINE_LEVEL = 4;
+
+/**
+ * Tesseract TSV (`tesseract img out tsv`): one row per page, block,
+ * paragraph, line and word; level 5 rows are words with a 0–100 conf,
+ * -1 for rows without text.
+ */
+export const parseTesseractTsv = (source: string): OcrDocument => {
+  const rows = source.split(/\r?\n/).filter(r => r.length > 0).map(r => r.split('\t'));
+  const header = rows.shift() || [];
+  const col = (name: string) => {
+    const index = header.indexOf(name);
+    if (index < 0) throw new Error(`Tesseract TSV is missing the "${name}" column`);
+    return index;
+  };
+  const [level, page, block, par, line, left, top, width, height, conf, text] =
+    ['level', 'page_num', 'block_num', 'par_num', 'line_num', 'left', 'top', 'width', 'height', 'conf', 'text'].map(col);
+
+  const lines = new Map<string, OcrLine>();
+  for (const row of rows) {
+    const key = [row[page], row[block], row[par], row[line]].join('-');
+    const rowLevel = toNumber(row[level]);
+    const x = toNumber(row[left]) ?? 0;
+    const y = toNumber(row[top]) ?? 0;
+    const bbox = { x0: x, y0: y, x1: x + (toNumber(row[width]) ?? 0), y1: y + (toNumber(row[height]) ?? 0) };
+
+    if (rowLevel === LINE_LEVEL) {
+      lines.set(key, { text: '', words: [], bbox });
+    } else if (rowLevel === WORD_LEVEL) {
+      const wordText = (row[text] || '').trim();
+      const wordConf = toNumber(row[conf]);
+      if (wordText.length === 0) continue;
+      if (!lines.has(key)) lines.set(key, { text: '', words: [] });
+      lines.get(key)!.words.push({
+        text: wordText,
+        confidence: wordConf !== undefined && wordConf >= 0 ? wordConf / 100 : undefined,
+        bbox
+      });
+    }
+  }
+
+  const parsed = Array.from(lines.values())
+    .filter(l => l.words.length > 0)
+    .map(l => ({ ...l, text: joinWords(l.words) }));
+  return buildDocument('tesseract-tsv', parsed);
+};
@@ -0,0 +1,135 @@
+export interface XmlElement {
+  name: string; // Local name, namespace prefix dropped
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+// HTML elements that never have a closing tag (hOCR is usually HTML, not XHTML)
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'wbr']);
+
+// Contents are raw text, not markup
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00A0' };
+
+const START_TAG_REGEX = /<([^\s/>!?]+)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/y;
+
+const ATTRIBUTE_REGEX = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10FFFF ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+const localName = (qualified: string) => qualified.slice(qualified.indexOf(':') + 1);
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const m of source.matchAll(ATTRIBUTE_REGEX)) {
+    attributes[localName(m[1])] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? '');
+  }
+  return attributes;
+};
+
+/**
+ * A small forgiving XML/HTML parser. DOMParser does not exist in workers or
+ * Node, and OCR outputs only need elements, attributes and text.
+ * Unclosed HTML tags are closed implicitly by the nearest matching end tag.
+ */
+export const parseXml = (source: string): XmlElement => {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  const top = () => stack[stack.length - 1];
+  const pushText = (raw: string) => {
+    if (raw.length > 0) top().children.push(decodeEntities(raw));
+  };
+
+  let pos = 0;
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    if (lt < 0) {
+      pushText(source.slice(pos));
+      break;
+    }
+    pushText(source.slice(pos, lt));
+
+    if (source.startsWith('<!--', lt)) {
+      const end = source.indexOf('-->', lt + 4);
+      pos = end < 0 ? source.length : end + 3;
+      continue;
+    }
+    if (source.startsWith('<![CDATA[', lt)) {
+      const end = source.indexOf(']]>', lt + 9);
+      top().children.push(source.slice(lt + 9, end < 0 ? source.length : end));
+      pos = end < 0 ? source.length : end + 3;
+      continue;
+    }
+    if (source[lt + 1] === '?' || source[lt + 1] === '!') {
+      // Processing instructions and doctypes carry no content we need
+      const end = source.indexOf('>', lt);
+      pos = end < 0 ? source.length : end + 1;
+      continue;
+    }
+    if (source[lt + 1] === '/') {
+      const end = source.indexOf('>', lt);
+      const name = localName(source.slice(lt + 2, end < 0 ? source.length : end).trim());
+      const index = stack.map(el => el.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      pos = end < 0 ? source.length : end + 1;
+      continue;
+    }
+
+    START_TAG_REGEX.lastIndex = lt;
+    const match = START_TAG_REGEX.exec(source);
+    if (!match) {
+      pushText('<');
+      pos = lt + 1;
+      continue;
+    }
+    const element: XmlElement = { name: localName(match[1]), attributes: parseAttributes(match[2]), children: [] };
+    top().children.push(element);
+    pos = lt + match[0].length;
+
+    const lower = element.name.toLowerCase();
+    if (match[3] || VOID_ELEMENTS.has(lower)) continue;
+    if (RAW_TEXT_ELEMENTS.has(lower)) {
+      const end = source.toLowerCase().indexOf(`</${lower}`, pos);
+      element.children.push(source.slice(pos, end < 0 ? source.length : end));
+      pos = end < 0 ? source.length : source.indexOf('>', end) + 1 || source.length;
+      continue;
+    }
+    stack.push(element);
+  }
+  return root;
+};
+
+export const isElement = (node: XmlNode): node is XmlElement => typeof node !== 'string';
+
+export const childElements = (el: XmlElement, name?: string): XmlElement[] =>
+  el.children.filter((c): c is XmlElement => isElement(c) && (name === undefined || c.name === name));
+
+/**
+ * Depth-first search for matching elements. Matches are not searched
+ * further, so nested structures return only their outermost match.
+ */
+export const findElements = (el: XmlElement, predicate: (el: XmlElement) => boolean): XmlElement[] => {
+  const found: XmlElement[] = [];
+  const visit = (node: XmlElement) => {
+    for (const child of node.children) {
+      if (!isElement(child)) continue;
+      if (predicate(child)) found.push(child);
+      else visit(child);
+    }
+  };
+  visit(el);
+  return found;
+};
+
+export const textContent = (node: XmlNode): string =>
+  isElement(node) ? node.children.map(textContent).join('') : node;
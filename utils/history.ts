@@ -0,0 +1,70 @@
+import { RunRecord } from '../types';
+
+const DB_NAME = 'ocr-indicator';
+const DB_VERSION = 1;
+const RUNS_STORE = 'runs';
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(RUNS_STORE)) {
+          req.result.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Let a later call retry instead of caching the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const store = async (mode: IDBTransactionMode) =>
+  (await openDb()).transaction(RUNS_STORE, mode).objectStore(RUNS_STORE);
+
+/**
+ * SHA-256 of a file's bytes as lowercase hex, so a run records exactly
+ * which inputs produced it.
+ */
+export const hashFile = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const saveRun = async (run: RunRecord): Promise<void> => {
+  await request((await store('readwrite')).put(run));
+};
+
+/**
+ * All saved runs, newest first.
+ */
+export const listRuns = async (): Promise<RunRecord[]> => {
+  const runs = await request((await store('readonly')).getAll() as IDBRequest<RunRecord[]>);
+  return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const renameRun = async (id: string, name: string): Promise<void> => {
+  const runs = await store('readwrite');
+  const run = await request(runs.get(id) as IDBRequest<RunRecord | undefined>);
+  if (!run) throw new Error(`Run ${id} not found`);
+  await request(runs.put({ ...run, name }));
+};
+
+export const deleteRun = async (id: string): Promise<void> => {
+  await request((await store('readwrite')).delete(id));
+};
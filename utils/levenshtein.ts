@@ -0,0 +1,290 @@
+/**
+ * Linear-memory edit distance and alignment.
+ *
+ * Scores use Myers' bit-parallel algorithm (block-based, 32 rows per word),
+ * which needs O(m/32) words of state. Alignments use Hirschberg's
+ * divide-and-conquer, whose forward/backward passes run on the same
+ * bit-parallel kernel, so memory stays linear in the input length.
+ */
+
+export type EditOp = 'match' | 'substitution' | 'insertion' | 'deletion';
+
+export type ProgressCallback = (fraction: number) => void;
+
+// Sub-problems at or below this many DP cells are solved with a full
+// backtrace matrix (1 byte per cell) instead of being split further.
+const FULL_MATRIX_CELLS = 1 << 22;
+
+interface PeqEntry {
+  blocks: number[]; // Block indices where the symbol occurs, ascending
+  masks: number[];  // Occurrence bitmask within each of those blocks
+}
+
+interface Pattern {
+  length: number;
+  blockCount: number;
+  lastHighBit: number;
+  peq: Map<number, PeqEntry>;
+}
+
+/**
+ * Maps two token sequences onto shared integer symbols.
+ */
+export const encodeSequences = <T>(a: ArrayLike<T>, b: ArrayLike<T>): [Int32Array, Int32Array] => {
+  const ids = new Map<T, number>();
+  const encode = (seq: ArrayLike<T>) => {
+    const out = new Int32Array(seq.length);
+    for (let i = 0; i < seq.length; i++) {
+      let id = ids.get(seq[i]);
+      if (id === undefined) {
+        id = ids.size;
+        ids.set(seq[i], id);
+      }
+      out[i] = id;
+    }
+    return out;
+  };
+  return [encode(a), encode(b)];
+};
+
+const buildPattern = (seq: Int32Array, from: number, to: number, reverse: boolean): Pattern => {
+  const length = to - from;
+  const peq = new Map<number, PeqEntry>();
+  for (let j = 0; j < length; j++) {
+    const sym = seq[reverse ? to - 1 - j : from + j];
+    const block = j >>> 5;
+    const bit = 1 << (j & 31);
+    let entry = peq.get(sym);
+    if (!entry) {
+      entry = { blocks: [], masks: [] };
+      peq.set(sym, entry);
+    }
+    const last = entry.blocks.length - 1;
+    if (last >= 0 && entry.blocks[last] === block) {
+      entry.masks[last] |= bit;
+    } else {
+      entry.blocks.push(block);
+      entry.masks.push(bit);
+    }
+  }
+  return {
+    length,
+    blockCount: Math.ceil(length / 32),
+    lastHighBit: length > 0 ? 1 << ((length - 1) & 31) : 0,
+    peq,
+  };
+};
+
+/**
+ * Runs the text through the pattern automaton and returns the final DP
+ * column: out[j] = distance(text, pattern[0..j)) for j = 0..pattern.length.
+ */
+const lastColumn = (
+  pattern: Pattern,
+  text: Int32Array,
+  from: number,
+  to: number,
+  reverse: boolean
+): Int32Array => {
+  const { length, blockCount, lastHighBit, peq } = pattern;
+  const pv = new Int32Array(blockCount).fill(-1);
+  const mv = new Int32Array(blockCount);
+  const textLength = to - from;
+
+  for (let t = 0; t < textLength; t++) {
+    const entry = peq.get(text[reverse ? to - 1 - t : from + t]);
+    let ptr = 0;
+    // Row 0 of a global alignment grows by one per text symbol
+    let hin = 1;
+
+    for (let b = 0; b < blockCount; b++) {
+      let eq = 0;
+      if (entry && ptr < entry.blocks.length && entry.blocks[ptr] === b) {
+        eq = entry.masks[ptr++];
+      }
+      const pvb = pv[b];
+      const mvb = mv[b];
+      const xv = eq | mvb;
+      if (hin < 0) eq |= 1;
+      const xh = (((eq & pvb) + pvb) ^ pvb) | eq;
+      let ph = mvb | ~(xh | pvb);
+      let mh = pvb & xh;
+
+      const highBit = b === blockCount - 1 ? lastHighBit : 1 << 31;
+      const hout = (ph & highBit) !== 0 ? 1 : (mh & highBit) !== 0 ? -1 : 0;
+
+      ph <<= 1;
+      mh <<= 1;
+      if (hin < 0) mh |= 1;
+      else if (hin > 0) ph |= 1;
+
+      pv[b] = mh | ~(xv | ph);
+      mv[b] = ph & xv;
+      hin = hout;
+    }
+  }
+
+  const column = new Int32Array(length + 1);
+  column[0] = textLength;
+  for (let j = 0; j < length; j++) {
+    const mask = 1 << (j & 31);
+    const b = j >>> 5;
+    column[j + 1] = column[j] + ((pv[b] & mask) !== 0 ? 1 : (mv[b] & mask) !== 0 ? -1 : 0);
+  }
+  return column;
+};
+
+/**
+ * Edit distance between two encoded sequences in O(mn/32) time and O(m/32) memory.
+ */
+export const myersDistance = (a: Int32Array, b: Int32Array): number => {
+  let start = 0;
+  let endA = a.length;
+  let endB = b.length;
+  while (start < endA && start < endB && a[start] === b[start]) start++;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  if (endA === start) return endB - start;
+  if (endB === start) return endA - start;
+
+  // The shorter sequence is the pattern: fewer blocks per text symbol
+  const [pSeq, pEnd, tSeq, tEnd] = endA - start <= endB - start
+    ? [a, endA, b, endB]
+    : [b, endB, a, endA];
+  const column = lastColumn(buildPattern(pSeq, start, pEnd, false), tSeq, start, tEnd, false);
+  return column[column.length - 1];
+};
+
+/**
+ * Computes an optimal edit script between two encoded sequences using
+ * Hirschberg's algorithm. Ops are emitted in order via `emit(op, i, j)`,
+ * where i/j index into a/b (the index on the missing side is -1).
+ */
+export const hirschbergAlign = (
+  a: Int32Array,
+  b: Int32Array,
+  emit: (op: EditOp, i: number, j: number) => void,
+  onProgress?: ProgressCallback
+): void => {
+  // Hirschberg does about twice the work of a single DP pass
+  const totalCells = Math.max(1, 2 * a.length * b.length);
+  let doneCells = 0;
+  const report = (cells: number) => {
+    doneCells += cells;
+    if (onProgress) onProgress(Math.min(1, doneCells / totalCells));
+  };
+
+  const solveFull = (i0: number, i1: number, j0: number, j1: number) => {
+    const m = i1 - i0;
+    const n = j1 - j0;
+    const width = n + 1;
+    // 0 = diagonal, 1 = up (deletion), 2 = left (insertion)
+    const ptr = new Uint8Array((m + 1) * width);
+    let prev = new Int32Array(width);
+    let curr = new Int32Array(width);
+
+    for (let j = 0; j <= n; j++) {
+      prev[j] = j;
+      ptr[j] = 2;
+    }
+    for (let i = 1; i <= m; i++) {
+      curr[0] = i;
+      ptr[i * width] = 1;
+      const ai = a[i0 + i - 1];
+      for (let j = 1; j <= n; j++) {
+        const sub = prev[j - 1] + (ai === b[j0 + j - 1] ? 0 : 1);
+        const del = prev[j] + 1;
+        const ins = curr[j - 1] + 1;
+        if (sub <= del && sub <= ins) {
+          curr[j] = sub;
+          ptr[i * width + j] = 0;
+        } else if (del <= ins) {
+          curr[j] = del;
+          ptr[i * width + j] = 1;
+        } else {
+          curr[j] = ins;
+          ptr[i * width + j] = 2;
+        }
+      }
+      const tmp = prev;
+      prev = curr;
+      curr = tmp;
+    }
+
+    // Backtrack, then emit forwards
+    const ops: number[] = [];
+    let i = m;
+    let j = n;
+    while (i > 0 || j > 0) {
+      const p = i > 0 && j > 0 ? ptr[i * width + j] : i > 0 ? 1 : 2;
+      ops.push(p);
+      if (p === 0) { i--; j--; }
+      else if (p === 1) i--;
+      else j--;
+    }
+    i = i0;
+    j = j0;
+    for (let k = ops.length - 1; k >= 0; k--) {
+      const p = ops[k];
+      if (p === 0) {
+        emit(a[i] === b[j] ? 'match' : 'substitution', i, j);
+        i++;
+        j++;
+      } else if (p === 1) {
+        emit('deletion', i, -1);
+        i++;
+      } else {
+        emit('insertion', -1, j);
+        j++;
+      }
+    }
+    report(m * n);
+  };
+
+  const solve = (i0: number, i1: number, j0: number, j1: number) => {
+    // Strip the common prefix and suffix, which are always matches
+    let prefixEnd = 0;
+    while (i0 + prefixEnd < i1 && j0 + prefixEnd < j1 && a[i0 + prefixEnd] === b[j0 + prefixEnd]) {
+      emit('match', i0 + prefixEnd, j0 + prefixEnd);
+      prefixEnd++;
+    }
+    i0 += prefixEnd;
+    j0 += prefixEnd;
+    let suffix = 0;
+    while (i1 - suffix > i0 && j1 - suffix > j0 && a[i1 - suffix - 1] === b[j1 - suffix - 1]) suffix++;
+    const m = i1 - suffix - i0;
+    const n = j1 - suffix - j0;
+
+    if (m === 0) {
+      for (let j = j0; j < j0 + n; j++) emit('insertion', -1, j);
+    } else if (n === 0) {
+      for (let i = i0; i < i0 + m; i++) emit('deletion', i, -1);
+    } else if (m === 1 || (m + 1) * (n + 1) <= FULL_MATRIX_CELLS) {
+      solveFull(i0, i0 + m, j0, j0 + n);
+    } else {
+      const mid = i0 + (m >> 1);
+      const fwd = lastColumn(buildPattern(b, j0, j0 + n, false), a, i0, mid, false);
+      const bwd = lastColumn(buildPattern(b, j0, j0 + n, true), a, mid, i0 + m, true);
+      report(m * n);
+
+      let split = 0;
+      let best = Infinity;
+      for (let k = 0; k <= n; k++) {
+        const cost = fwd[k] + bwd[n - k];
+        if (cost < best) {
+          best = cost;
+          split = k;
+        }
+      }
+      solve(i0, mid, j0, j0 + split);
+      solve(mid, i0 + m, j0 + split, j0 + n);
+    }
+
+    for (let k = suffix; k > 0; k--) emit('match', i1 - k, j1 - k);
+  };
+
+  solve(0, a.length, 0, b.length);
+  if (onProgress) onProgress(1);
+};
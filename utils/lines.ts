@@ -0,0 +1,169 @@
+import { LineAlignment, LineMetrics, TokenizerId } from '../types';
+import { levenshteinDistance } from './algorithms';
+import { DEFAULT_TOKENIZER, tokenize } from './tokenizers';
+
+// Lines less similar than this (1 - edit distance / longer length) are left unmatched
+const LINE_MATCH_THRESHOLD = 0.5;
+
+// Exact edit distances computed per truth line, picked by shared bigrams
+const CANDIDATES_PER_LINE = 3;
+
+interface Line {
+  index: number;
+  text: string;
+  chars: string[]; // Whitespace removed, like CER
+  grams: Set<string>;
+}
+
+const toLines = (text: string): Line[] =>
+  text.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map((line, index) => {
+      const chars = Array.from(line.replace(/\s+/g, ''));
+      const grams = new Set(chars.length < 2 ? chars : chars.slice(1).map((ch, i) => chars[i] + ch));
+      return { index, text: line, chars, grams };
+    });
+
+const similarity = (a: Line, b: Line, dist: number) =>
+  1 - dist / Math.max(a.chars.length, b.chars.length, 1);
+
+/**
+ * Pairs truth lines with OCR lines regardless of position, so lines read
+ * in the wrong order still find their counterpart. Candidates come from a
+ * bigram index; the most similar pairs are then taken greedily.
+ */
+const matchLines = (truth: Line[], ocr: Line[]): Map<number, { ocr: Line; dist: number }> => {
+  const postings = new Map<string, number[]>();
+  for (const o of ocr) {
+    for (const g of o.grams) {
+      if (!postings.has(g)) postings.set(g, []);
+      postings.get(g)!.push(o.index);
+    }
+  }
+
+  const candidates: { t: Line; o: Line; dist: number; sim: number }[] = [];
+  for (const t of truth) {
+    const shared = new Map<number, number>();
+    for (const g of t.grams) {
+      for (const oi of postings.get(g) || []) shared.set(oi, (shared.get(oi) || 0) + 1);
+    }
+    const top = Array.from(shared.entries())
+      .map(([oi, count]) => ({ o: ocr[oi], dice: (2 * count) / (t.grams.size + ocr[oi].grams.size) }))
+      .sort((a, b) => b.dice - a.dice || a.o.index - b.o.index)
+      .slice(0, CANDIDATES_PER_LINE);
+    for (const { o } of top) {
+      const dist = levenshteinDistance(t.chars, o.chars);
+      const sim = similarity(t, o, dist);
+      if (sim >= LINE_MATCH_THRESHOLD) candidates.push({ t, o, dist, sim });
+    }
+  }
+
+  candidates.sort((a, b) => b.sim - a.sim || a.t.index - b.t.index || a.o.index - b.o.index);
+  const matches = new Map<number, { ocr: Line; dist: number }>();
+  const usedOcr = new Set<number>();
+  for (const c of candidates) {
+    if (matches.has(c.t.index) || usedOcr.has(c.o.index)) continue;
+    matches.set(c.t.index, { ocr: c.o, dist: c.dist });
+    usedOcr.add(c.o.index);
+  }
+  return matches;
+};
+
+/**
+ * Positions (into `values`) of one longest strictly increasing subsequence.
+ */
+const longestIncreasing = (values: number[]): Set<number> => {
+  const tails: number[] = []; // Position of the smallest tail for each length
+  const prev: number[] = new Array(values.length).fill(-1);
+  values.forEach((v, i) => {
+    let lo = 0, hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (values[tails[mid]] < v) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) prev[i] = tails[lo - 1];
+    tails[lo] = i;
+  });
+  const kept = new Set<number>();
+  for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i >= 0; i = prev[i]) kept.add(i);
+  return kept;
+};
+
+/**
+ * Word error rate ignoring order: tokens are compared as multisets, so a
+ * document read in the wrong order scores as well as one read correctly.
+ */
+export const bagOfWordsWER = (truth: string, ocr: string, tokenizer: TokenizerId = DEFAULT_TOKENIZER): number => {
+  const tWords = tokenize(truth, tokenizer);
+  const oWords = tokenize(ocr, tokenizer);
+  if (tWords.length === 0) return oWords.length > 0 ? 1 : 0;
+
+  const remaining = new Map<string, number>();
+  for (const w of oWords) remaining.set(w, (remaining.get(w) || 0) + 1);
+  let common = 0;
+  for (const w of tWords) {
+    const left = remaining.get(w) || 0;
+    if (left > 0) {
+      common++;
+      remaining.set(w, left - 1);
+    }
+  }
+  return (Math.max(tWords.length, oWords.length) - common) / tWords.length;
+};
+
+/**
+ * Line-level evaluation: aligns truth lines to OCR lines, scores each
+ * line, and measures how far the OCR reading order strays from the truth.
+ */
+export const analyzeLines = (truth: string, ocr: string, tokenizer: TokenizerId = DEFAULT_TOKENIZER): LineMetrics => {
+  const tLines = toLines(truth);
+  const oLines = toLines(ocr);
+  const matches = matchLines(tLines, oLines);
+
+  // Reading order is judged on the matched lines only, in truth order
+  const matched = tLines.filter(t => matches.has(t.index));
+  const ocrOrder = matched.map(t => matches.get(t.index)!.ocr.index);
+  const inOrder = longestIncreasing(ocrOrder);
+  const inOrderTruth = new Set(matched.filter((_, i) => inOrder.has(i)).map(t => t.index));
+
+  // Ranks among matched OCR lines, so unmatched OCR lines don't split a block
+  const rank = new Map([...ocrOrder].sort((a, b) => a - b).map((oi, r) => [oi, r]));
+  let blocks = ocrOrder.length > 0 ? 1 : 0;
+  for (let i = 1; i < ocrOrder.length; i++) {
+    if (rank.get(ocrOrder[i]) !== rank.get(ocrOrder[i - 1])! + 1) blocks++;
+  }
+
+  const alignments: LineAlignment[] = tLines.map(t => {
+    const match = matches.get(t.index);
+    if (!match) return { truthIndex: t.index, truth: t.text, cer: 1, exact: false, inOrder: false };
+    return {
+      truthIndex: t.index,
+      ocrIndex: match.ocr.index,
+      truth: t.text,
+      ocr: match.ocr.text,
+      cer: t.chars.length === 0 ? 0 : match.dist / t.chars.length,
+      exact: match.dist === 0,
+      inOrder: inOrderTruth.has(t.index)
+    };
+  });
+
+  const usedOcr = new Set(Array.from(matches.values()).map(m => m.ocr.index));
+  const exactLines = alignments.filter(a => a.exact).length;
+
+  return {
+    accuracy: tLines.length === 0 ? (oLines.length === 0 ? 1 : 0) : exactLines / tLines.length,
+    exactLines,
+    truthLines: tLines.length,
+    ocrLines: oLines.length,
+    meanCer: alignments.length === 0 ? 0 : alignments.reduce((sum, a) => sum + a.cer, 0) / alignments.length,
+    alignments,
+    extraOcrLines: oLines.filter(o => !usedOcr.has(o.index)).map(o => ({ index: o.index, text: o.text })),
+    readingOrder: {
+      outOfOrderLines: matched.length - inOrder.size,
+      blocks,
+      bagOfWordsWer: bagOfWordsWER(truth, ocr, tokenizer)
+    }
+  };
+};
@@ -0,0 +1,132 @@
+import { normalizeStem, PairingOptions, PairingResult, pairByStem } from './pairing';
+import { parseTagList } from './tags';
+
+// One row of a dataset manifest: which files belong together and what the document is
+export interface ManifestEntry {
+  truth: string; // File name, matched without any directory part
+  ocr?: string;  // Absent to let the OCR file be paired by stem
+  tags: string[];
+  metadata: Record<string, string>;
+}
+
+export const MANIFEST_HINT = 'CSV 需含表头: truth, ocr (可选), tags (以 ; 或 | 分隔)，其余列作为元数据；JSON 为同样字段的对象数组';
+
+const TRUTH_KEYS = ['truth', 'truth_file', 'truthFile', 'gt'];
+const OCR_KEYS = ['ocr', 'ocr_file', 'ocrFile'];
+const TAG_KEYS = ['tags', 'tag'];
+
+const baseName = (path: string) => path.split(/[\\/]/).pop() || path;
+
+/**
+ * Splits CSV text into rows (RFC 4180: quoted fields may contain commas,
+ * doubled quotes and line breaks).
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else cell += ch;
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim()));
+};
+
+const pick = (record: Record<string, unknown>, keys: string[]) => {
+  const key = keys.find(k => record[k] !== undefined && record[k] !== null && record[k] !== '');
+  return key === undefined ? undefined : record[key];
+};
+
+// Every field that isn't a file or the tags becomes metadata; a nested "metadata" object is flattened in
+const toEntry = (record: Record<string, unknown>, row: number): ManifestEntry => {
+  const truth = pick(record, TRUTH_KEYS);
+  if (typeof truth !== 'string' || !truth.trim()) throw new Error(`Manifest row ${row} has no truth file`);
+  const ocr = pick(record, OCR_KEYS);
+  const tags = pick(record, TAG_KEYS);
+  const reserved = new Set([...TRUTH_KEYS, ...OCR_KEYS, ...TAG_KEYS, 'metadata']);
+  const nested = typeof record.metadata === 'object' && record.metadata !== null ? record.metadata as Record<string, unknown> : {};
+  const metadata = Object.fromEntries(
+    [...Object.entries(record).filter(([k]) => !reserved.has(k)), ...Object.entries(nested)]
+      .filter(([, v]) => v !== undefined && v !== null && v !== '')
+      .map(([k, v]) => [k, typeof v === 'object' ? JSON.stringify(v) : String(v)])
+  );
+  return {
+    truth: truth.trim(),
+    ...(typeof ocr === 'string' && ocr.trim() && { ocr: ocr.trim() }),
+    tags: Array.isArray(tags) ? tags.map(String).map(t => t.trim()).filter(Boolean) : parseTagList(typeof tags === 'string' ? tags : ''),
+    metadata
+  };
+};
+
+/**
+ * Reads a CSV or JSON manifest. JSON may be an array of entries or an
+ * object holding one under "pairs" or "entries".
+ */
+export const parseManifest = (text: string, fileName: string): ManifestEntry[] => {
+  const content = text.replace(/^\uFEFF/, '');
+  if (/\.json$/i.test(fileName) || /^\s*[[{]/.test(content)) {
+    const data = JSON.parse(content);
+    const list = Array.isArray(data) ? data : data?.pairs ?? data?.entries;
+    if (!Array.isArray(list)) throw new Error('Manifest JSON must be an array of entries');
+    return list.map((record, i) => toEntry(record ?? {}, i + 1));
+  }
+
+  const [header, ...rows] = parseCsv(content);
+  if (!header) throw new Error('Manifest is empty');
+  const columns = header.map(h => h.trim());
+  if (!columns.some(c => TRUTH_KEYS.includes(c))) throw new Error('Manifest CSV needs a "truth" column');
+  return rows.map((cells, i) => toEntry(Object.fromEntries(columns.map((c, j) => [c, cells[j]?.trim() ?? ''])), i + 2));
+};
+
+/**
+ * Builds a lookup from truth file name to its manifest entry.
+ */
+export const manifestLookup = (entries: ManifestEntry[], options: PairingOptions): ((fileName: string) => ManifestEntry | undefined) => {
+  const fold = (name: string) => (options.caseSensitive ? baseName(name) : baseName(name).toLowerCase());
+  const index = new Map(entries.map(e => [fold(e.truth), e]));
+  return (fileName) => index.get(fold(fileName));
+};
+
+/**
+ * Pairs the files the manifest names explicitly, then falls back to stem
+ * pairing for everything else, so a manifest may list only tags.
+ */
+export const pairByManifest = <T extends { name: string }>(
+  truthItems: T[],
+  ocrItems: T[],
+  entries: ManifestEntry[],
+  options: PairingOptions
+): PairingResult<T> => {
+  const fold = (name: string) => (options.caseSensitive ? baseName(name) : baseName(name).toLowerCase());
+  const remainingOcr = new Map<string, T>(ocrItems.map(o => [fold(o.name), o]));
+  const truthByName = new Map(truthItems.map(t => [fold(t.name), t]));
+  const explicit: PairingResult<T>['pairs'] = [];
+  for (const entry of entries) {
+    if (!entry.ocr) continue;
+    const truth = truthByName.get(fold(entry.truth));
+    const ocr = remainingOcr.get(fold(entry.ocr));
+    if (!truth || !ocr) continue;
+    explicit.push({ stem: normalizeStem(truth.name, options), truth, ocr });
+    truthByName.delete(fold(entry.truth));
+    remainingOcr.delete(fold(entry.ocr));
+  }
+  const rest = pairByStem(Array.from(truthByName.values()), Array.from(remainingOcr.values()), options);
+  return { ...rest, pairs: [...explicit, ...rest.pairs] };
+};
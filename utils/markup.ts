@@ -0,0 +1,147 @@
+import { NormalizationStep, TruthSegment } from '../types';
+import { normalizeText } from './normalization';
+
+export const MARKUP_HINT = '[?] 或 ⟨…⟩ 表示无法辨认的内容，{colour|color} 表示任一写法均正确，<ignore>…</ignore> 内的内容不计分；这两种区域即使 OCR 完全漏读也不计错';
+
+// Alternatives need at least one "|", so ordinary braces stay literal
+const MARKUP_REGEX = /\[\?\]|⟨[^⟩\n]*⟩|\{[^{}|\n]*(?:\|[^{}|\n]*)+\}|<ignore>([\s\S]*?)<\/ignore>/g;
+
+// search() ignores lastIndex, so sharing the global regex is safe
+export const hasMarkup = (text: string): boolean => text.search(MARKUP_REGEX) !== -1;
+
+export const parseMarkup = (text: string): TruthSegment[] => {
+  const segments: TruthSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MARKUP_REGEX)) {
+    const at = match.index ?? 0;
+    if (at > last) segments.push({ kind: 'text', text: text.slice(last, at) });
+    const token = match[0];
+    if (match[1] !== undefined) segments.push({ kind: 'ignore', text: match[1] });
+    else if (token.startsWith('{')) segments.push({ kind: 'alternative', variants: token.slice(1, -1).split('|'), chosen: 0 });
+    else segments.push({ kind: 'wildcard', label: token });
+    last = at + token.length;
+  }
+  if (last < text.length) segments.push({ kind: 'text', text: text.slice(last) });
+  return segments;
+};
+
+/**
+ * Normalizes the text inside every segment; the markup itself never goes
+ * through the pipeline, so stripping punctuation can't break it.
+ */
+export const normalizeSegments = (segments: TruthSegment[], steps: NormalizationStep[]): TruthSegment[] =>
+  segments.map(seg => {
+    switch (seg.kind) {
+      case 'text': return { ...seg, text: normalizeText(seg.text, steps) };
+      case 'ignore': return { ...seg, text: normalizeText(seg.text, steps) };
+      case 'alternative': return { ...seg, variants: seg.variants.map(v => normalizeText(v, steps)) };
+      case 'wildcard': return seg;
+    }
+  });
+
+// Copies the variant choices made on one rendering of the segments onto another
+export const withChoices = (segments: TruthSegment[], from: TruthSegment[]): TruthSegment[] =>
+  segments.map((seg, i) => {
+    const source = from[i];
+    return seg.kind === 'alternative' && source?.kind === 'alternative' ? { ...seg, chosen: source.chosen } : seg;
+  });
+
+/**
+ * The scored reference as plain text: chosen variants are spelled out,
+ * wildcards vanish and ignored regions keep only their line breaks, so
+ * line-level metrics still see the same lines.
+ */
+export const segmentsText = (segments: TruthSegment[]): string =>
+  segments.map(seg => {
+    switch (seg.kind) {
+      case 'text': return seg.text;
+      case 'alternative': return seg.variants[seg.chosen];
+      case 'ignore': return seg.text.replace(/[^\n]/g, '');
+      case 'wildcard': return '';
+    }
+  }).join('');
+
+export interface MarkedGap {
+  position: number; // Number of scored units before the gap
+  kind: 'wildcard' | 'ignore';
+  label: string; // Shown in place of the reference
+  excluded: number; // Reference units it stands for
+}
+
+export interface MarkedSpan {
+  start: number;
+  end: number;
+  variants: string[];
+  segment: number; // Index of the alternative among the segments
+}
+
+// The scored reference units of a marked-up truth, with where the markup sits among them
+export interface MarkedUnits {
+  units: string[];
+  gaps: MarkedGap[];
+  spans: MarkedSpan[];
+}
+
+// Index of the first entry not below value, in an ascending array
+const lowerBound = (sorted: number[], value: number): number => {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+/**
+ * Splits the segments into reference units (characters or words) with
+ * the given splitter. The text is split as a whole, so markup inside a
+ * word leaves the word in one piece: an alternative covers every unit it
+ * overlaps, and a gap inside a unit comes after it, leaving that unit
+ * compared without the gap's text. A wildcard stands for at least one unit.
+ */
+export const toUnits = (segments: TruthSegment[], split: (text: string) => string[]): MarkedUnits => {
+  let joined = '';
+  const offsets = segments.map(seg => {
+    const from = joined.length;
+    if (seg.kind === 'text') joined += seg.text;
+    if (seg.kind === 'alternative') joined += seg.variants[seg.chosen];
+    return { from, to: joined.length };
+  });
+
+  // Units are substrings of the text in order, so each is found after the previous one
+  const units = split(joined);
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let cursor = 0;
+  for (const unit of units) {
+    const at = Math.max(cursor, joined.indexOf(unit, cursor));
+    starts.push(at);
+    ends.push(at + unit.length);
+    cursor = at + unit.length;
+  }
+
+  const marked: MarkedUnits = { units, gaps: [], spans: [] };
+  segments.forEach((seg, segment) => {
+    const { from, to } = offsets[segment];
+    switch (seg.kind) {
+      case 'alternative': {
+        const start = lowerBound(ends, from + 1);
+        const end = lowerBound(starts, to);
+        if (end > start) marked.spans.push({ start, end, variants: seg.variants, segment });
+        break;
+      }
+      case 'ignore':
+        marked.gaps.push({ position: lowerBound(starts, from), kind: 'ignore', label: seg.text, excluded: split(seg.text).length });
+        break;
+      case 'wildcard':
+        marked.gaps.push({ position: lowerBound(starts, from), kind: 'wildcard', label: seg.label, excluded: 1 });
+        break;
+    }
+  });
+  return marked;
+};
+
+export const excludedUnits = (marked: MarkedUnits): number =>
+  marked.gaps.reduce((sum, gap) => sum + gap.excluded, 0);
@@ -0,0 +1,64 @@
+import { NormalizationStep } from '../types';
+import { TRADITIONAL_TO_SIMPLIFIED } from './t2s';
+
+export interface NormalizationStepInfo {
+  id: NormalizationStep;
+  label: string;
+  description: string;
+}
+
+/**
+ * All available steps, in the order they are applied.
+ */
+export const NORMALIZATION_STEPS: NormalizationStepInfo[] = [
+  { id: 'nfkc', label: 'Unicode NFKC', description: '兼容字符归一化，如 ① → 1、㎡ → m2' },
+  { id: 'fullwidth', label: '全角转半角', description: 'Ａ１， → A1,，全角空格 → 半角空格' },
+  { id: 'casefold', label: '忽略大小写', description: '统一转换为小写' },
+  { id: 't2s', label: '繁体转简体', description: '逐字映射常用繁体字到简体字' },
+  { id: 'ligatures', label: '展开连字', description: 'ﬁ → fi、æ → ae、œ → oe' },
+  { id: 'quotes-dashes', label: '统一引号与破折号', description: '“”‘’ → "\'，—–― → -' },
+  { id: 'strip-punctuation', label: '去除标点', description: '删除所有标点符号 (不影响标点准确率)' },
+];
+
+export const DEFAULT_NORMALIZATION: NormalizationStep[] = [];
+
+const LIGATURES: Record<string, string> = {
+  'ﬀ': 'ff', 'ﬁ': 'fi', 'ﬂ': 'fl', 'ﬃ': 'ffi', 'ﬄ': 'ffl', 'ﬅ': 'st', 'ﬆ': 'st',
+  'æ': 'ae', 'Æ': 'AE', 'œ': 'oe', 'Œ': 'OE', 'ĳ': 'ij', 'Ĳ': 'IJ',
+};
+
+const LIGATURE_REGEX = new RegExp(`[${Object.keys(LIGATURES).join('')}]`, 'g');
+
+const STEP_FUNCTIONS: Record<NormalizationStep, (text: string) => string> = {
+  'nfkc': (text) => text.normalize('NFKC'),
+  'fullwidth': (text) => text
+    .replace(/[！-～]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0xFEE0))
+    .replace(/　/g, ' '),
+  'casefold': (text) => text.toLowerCase(),
+  't2s': (text) => text.replace(/\p{Script=Han}/gu, ch => TRADITIONAL_TO_SIMPLIFIED.get(ch) || ch),
+  'ligatures': (text) => text.replace(LIGATURE_REGEX, ch => LIGATURES[ch]),
+  'quotes-dashes': (text) => text
+    .replace(/[“”„‟″〝〞＂]/g, '"')
+    .replace(/[‘’‚‛′＇]/g, "'")
+    .replace(/[‐‑‒–—―−﹘﹣－]/g, '-'),
+  'strip-punctuation': (text) => text.replace(/\p{P}/gu, ''),
+};
+
+/**
+ * Orders the selected steps canonically and drops duplicates, so the same
+ * selection always produces the same pipeline.
+ */
+export const resolvePipeline = (steps: NormalizationStep[]): NormalizationStep[] =>
+  NORMALIZATION_STEPS.map(s => s.id).filter(id => steps.includes(id));
+
+/**
+ * Runs text through the normalization pipeline.
+ */
+export const normalizeText = (text: string, steps: NormalizationStep[]): string =>
+  resolvePipeline(steps).reduce((acc, step) => STEP_FUNCTIONS[step](acc), text);
+
+export const normalizationLabel = (steps: NormalizationStep[]): string => {
+  const resolved = resolvePipeline(steps);
+  if (resolved.length === 0) return '无';
+  return resolved.map(id => NORMALIZATION_STEPS.find(s => s.id === id)?.label || id).join(' → ');
+};
@@ -0,0 +1,172 @@
+import { OcrProviderConfig, ProviderBody } from '../types';
+import { queryJsonPath } from './formats/jsonPath';
+
+export const PROVIDER_BODIES: { id: ProviderBody; label: string }[] = [
+  { id: 'multipart', label: '表单上传 (multipart)' },
+  { id: 'json', label: 'JSON (Base64 图像)' },
+  { id: 'binary', label: '原始图像字节' },
+];
+
+export const PROVIDER_PRESETS: { name: string; config: OcrProviderConfig }[] = [
+  {
+    name: 'PaddleOCR (PaddleHub Serving)',
+    config: {
+      url: 'http://127.0.0.1:8866/predict/ch_pp-ocrv3',
+      body: 'json',
+      fileField: 'file',
+      template: '{"images": ["{{image_base64}}"]}',
+      headers: '',
+      responsePath: 'results[0].data[*].text',
+      concurrency: 2,
+      timeoutSeconds: 60
+    }
+  },
+  {
+    name: 'Tesseract (tesseract-server)',
+    config: {
+      url: 'http://127.0.0.1:8884/tesseract',
+      body: 'multipart',
+      fileField: 'file',
+      template: '{"options": "{\\"languages\\": [\\"chi_sim\\", \\"eng\\"]}"}',
+      headers: '',
+      responsePath: 'data.stdout',
+      concurrency: 2,
+      timeoutSeconds: 60
+    }
+  },
+  {
+    name: '纯文本响应 (本地模拟)',
+    config: {
+      url: 'http://127.0.0.1:8000/ocr',
+      body: 'multipart',
+      fileField: 'image',
+      template: '',
+      headers: '',
+      responsePath: '',
+      concurrency: 4,
+      timeoutSeconds: 30
+    }
+  },
+];
+
+export const DEFAULT_PROVIDER: OcrProviderConfig = PROVIDER_PRESETS[0].config;
+
+export const PROVIDER_HINT = '每张页面图像发送一次请求；服务需允许本页面跨域访问 (CORS)。响应路径用 . 取字段，[0] 取下标，[*] 取数组全部元素 (按行拼接)，留空则把响应原文当作识别结果';
+
+const toBase64 = async (file: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  // Chunked so a large scan doesn't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+// Values land inside JSON strings, so they are escaped but not quoted
+const renderTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (token, name: string) =>
+    name in values ? JSON.stringify(values[name]).slice(1, -1) : token);
+
+// Header names are case-insensitive, so a user's `content-type` replaces the default rather than doubling it
+const parseHeaders = (text: string): Headers => {
+  const headers = new Headers();
+  for (const line of text.split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers.set(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+  }
+  return headers;
+};
+
+/**
+ * Reads the text out of a JSON response. Every match of the path is
+ * collected, so `[*]` over a list of lines yields the page line by line.
+ */
+export const extractText = (data: unknown, path: string): string => {
+  const lines = queryJsonPath(data, path).flat().filter(v => typeof v === 'string' || typeof v === 'number').map(String);
+  if (lines.length === 0) throw new Error(`Response has no text at "${path}"`);
+  return lines.join('\n');
+};
+
+const buildBody = async (file: File, config: OcrProviderConfig): Promise<BodyInit> => {
+  if (config.body === 'binary') return file;
+  const values = {
+    file_name: file.name,
+    mime_type: file.type || 'application/octet-stream',
+    ...(config.template.includes('image_base64') && { image_base64: await toBase64(file) })
+  };
+  const rendered = config.template.trim() ? renderTemplate(config.template, values) : '';
+  if (config.body === 'json') return rendered;
+  const form = new FormData();
+  form.append(config.fileField || 'file', file, file.name);
+  if (rendered) {
+    const extra = JSON.parse(rendered);
+    for (const [key, value] of Object.entries(extra)) form.append(key, typeof value === 'string' ? value : JSON.stringify(value));
+  }
+  return form;
+};
+
+/**
+ * Sends one page image to the endpoint and returns the recognized text.
+ * Network failures, non-2xx replies, timeouts and responses without text
+ * at the configured path all reject.
+ */
+export const recognizeImage = async (file: File, config: OcrProviderConfig): Promise<string> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.timeoutSeconds * 1000);
+  try {
+    const headers = parseHeaders(config.headers);
+    if (!headers.has('Content-Type')) {
+      if (config.body === 'json') headers.set('Content-Type', 'application/json');
+      if (config.body === 'binary') headers.set('Content-Type', file.type || 'application/octet-stream');
+    }
+    const response = await fetch(config.url, { method: 'POST', headers, body: await buildBody(file, config), signal: controller.signal });
+    if (!response.ok) throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+    const raw = await response.text();
+    if (!config.responsePath.trim()) return raw;
+    let data: unknown;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      throw new Error('Response is not JSON');
+    }
+    return extractText(data, config.responsePath);
+  } catch (err) {
+    if (controller.signal.aborted) throw new Error(`Timed out after ${config.timeoutSeconds}s`);
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export interface RecognitionOutcome {
+  id: string;
+  text?: string;
+  error?: string;
+}
+
+/**
+ * Recognizes many images with at most `config.concurrency` requests in
+ * flight. A failing image is reported through its outcome, like a failing
+ * pair in the worker pool; outcomes come back in input order.
+ */
+export const recognizeAll = async (
+  items: { id: string; file: File }[],
+  config: OcrProviderConfig,
+  onSettled?: (outcome: RecognitionOutcome) => void
+): Promise<RecognitionOutcome[]> => {
+  const outcomes: RecognitionOutcome[] = new Array(items.length);
+  let next = 0;
+  const work = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const { id, file } = items[index];
+      try {
+        outcomes[index] = { id, text: await recognizeImage(file, config) };
+      } catch (err) {
+        outcomes[index] = { id, error: err instanceof Error ? err.message : String(err) };
+      }
+      onSettled?.(outcomes[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(config.concurrency, items.length)) }, work));
+  return outcomes;
+};
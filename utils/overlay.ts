@@ -0,0 +1,87 @@
+import { BoundingBox, DiffItem, NormalizationStep, OcrLine } from '../types';
+import { normalizeText } from './normalization';
+
+export interface ErrorBox {
+  type: 'substitution' | 'deletion';
+  diffIndexes: number[]; // Word diff items drawn by this box; consecutive deletions share one
+  truth: string;
+  ocr: string;
+  bbox: BoundingBox;
+}
+
+export interface DiffOverlay {
+  errors: ErrorBox[];
+  tokenBoxes: (BoundingBox | undefined)[]; // Where each word diff item sits on the page, by index
+}
+
+const union = (boxes: BoundingBox[]): BoundingBox | undefined =>
+  boxes.length === 0 ? undefined : {
+    x0: Math.min(...boxes.map(b => b.x0)),
+    y0: Math.min(...boxes.map(b => b.y0)),
+    x1: Math.max(...boxes.map(b => b.x1)),
+    y1: Math.max(...boxes.map(b => b.y1))
+  };
+
+// A narrow marker just after (or before) a word, where missing text would have been
+const gapMarker = (anchor: BoundingBox, after: boolean): BoundingBox => {
+  const width = Math.max(2, (anchor.y1 - anchor.y0) * 0.25);
+  return after
+    ? { x0: anchor.x1, y0: anchor.y0, x1: anchor.x1 + width, y1: anchor.y1 }
+    : { x0: anchor.x0 - width, y0: anchor.y0, x1: anchor.x0, y1: anchor.y1 };
+};
+
+const visibleChars = (text: string) => Array.from(text).filter(ch => !/\s/.test(ch));
+
+/**
+ * Places word diff items on the page image. The diff was computed on the
+ * normalized document text, so each OCR word goes through the same
+ * normalization and diff tokens claim its characters in reading order
+ * (tokenizers never drop a visible character). Deletions have no OCR
+ * token and are marked at the edge of the neighbouring word.
+ */
+export const locateDiffs = (diffs: DiffItem[], lines: OcrLine[], normalization: NormalizationStep[]): DiffOverlay => {
+  // Lines without word boxes (e.g. PAGE XML at line level) count as one word
+  const words = lines.flatMap(l => (l.words.length > 0 ? l.words : [{ text: l.text, bbox: l.bbox }]));
+  const owners: number[] = [];
+  words.forEach((w, i) => owners.push(...visibleChars(normalizeText(w.text, normalization)).map(() => i)));
+
+  const tokenBoxes: (BoundingBox | undefined)[] = new Array(diffs.length);
+  const errors: ErrorBox[] = [];
+  let cursor = 0;
+  let previous: BoundingBox | undefined;
+  let pending: ErrorBox | null = null; // Deletions waiting for a word to anchor to
+
+  const flushDeletions = (anchor: BoundingBox | undefined, after: boolean) => {
+    if (!pending) return;
+    if (anchor) {
+      pending.bbox = gapMarker(anchor, after);
+      pending.diffIndexes.forEach(i => { tokenBoxes[i] = pending!.bbox; });
+      errors.push(pending);
+    }
+    pending = null;
+  };
+
+  diffs.forEach((item, index) => {
+    if (item.type === 'deletion') {
+      if (!pending) pending = { type: 'deletion', diffIndexes: [], truth: '', ocr: '', bbox: { x0: 0, y0: 0, x1: 0, y1: 0 } };
+      pending.diffIndexes.push(index);
+      pending.truth += pending.truth && item.truth ? ` ${item.truth}` : item.truth ?? '';
+      return;
+    }
+
+    const length = visibleChars(item.ocr ?? '').length;
+    const claimed = new Set(owners.slice(cursor, cursor + length));
+    cursor += length;
+    const bbox = union(Array.from(claimed).map(i => words[i].bbox).filter((b): b is BoundingBox => b !== undefined));
+    tokenBoxes[index] = bbox;
+
+    flushDeletions(previous ?? bbox, previous !== undefined);
+    if (bbox) previous = bbox;
+    if (item.type === 'substitution' && bbox) {
+      errors.push({ type: 'substitution', diffIndexes: [index], truth: item.truth ?? '', ocr: item.ocr ?? '', bbox });
+    }
+  });
+  flushDeletions(previous, true);
+
+  return { errors, tokenBoxes };
+};
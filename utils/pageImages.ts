@@ -0,0 +1,26 @@
+import { decodeTiff } from './tiff';
+
+export const PAGE_IMAGE_TYPES = '.png,.jpg,.jpeg,.tif,.tiff';
+
+const isTiff = (file: File) => /\.tiff?$/i.test(file.name) || file.type === 'image/tiff';
+
+/**
+ * An object URL an <img> can display. TIFF scans are decoded to PNG first;
+ * if the decoder does not support the file, the browser gets a try
+ * (Safari renders TIFF natively). The caller revokes the URL.
+ */
+export const pageImageUrl = async (file: File): Promise<string> => {
+  if (!isTiff(file)) return URL.createObjectURL(file);
+  try {
+    const { width, height, data } = decodeTiff(await file.arrayBuffer());
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.putImageData(new ImageData(data, width, height), 0, 0);
+    const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (png) return URL.createObjectURL(png);
+  } catch (err) {
+    console.warn(`Could not decode ${file.name}:`, err);
+  }
+  return URL.createObjectURL(file);
+};
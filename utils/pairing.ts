@@ -0,0 +1,101 @@
+export interface PairingOptions {
+  // Removed from the end of the stem (after the extension), e.g. ".gt" in "page_001.gt.txt"
+  stripSuffixes: string[];
+  // Removed from the start of the stem, e.g. "ocr_" in "ocr_page_001.txt"
+  stripPrefixes: string[];
+  caseSensitive: boolean;
+}
+
+export const DEFAULT_PAIRING_OPTIONS: PairingOptions = {
+  stripSuffixes: ['.gt', '.truth', '.ocr', '_gt', '_truth', '_ocr', '-gt', '-ocr'],
+  stripPrefixes: [],
+  caseSensitive: false,
+};
+
+export interface StemPair<T> {
+  stem: string;
+  truth: T;
+  ocr: T;
+}
+
+export interface PairingResult<T> {
+  pairs: StemPair<T>[];
+  unmatchedTruth: T[];
+  unmatchedOcr: T[];
+}
+
+/**
+ * Reduces a filename to the key used for pairing:
+ * drops the extension, then repeatedly strips configured prefixes/suffixes.
+ */
+export const normalizeStem = (fileName: string, options: PairingOptions = DEFAULT_PAIRING_OPTIONS): string => {
+  // Ignore any directory part (webkitRelativePath, CLI paths)
+  let stem = fileName.split(/[\\/]/).pop() || fileName;
+
+  const dot = stem.lastIndexOf('.');
+  if (dot > 0) stem = stem.slice(0, dot);
+
+  const fold = (s: string) => (options.caseSensitive ? s : s.toLowerCase());
+  stem = fold(stem);
+  const suffixes = options.stripSuffixes.map(fold).filter(s => s.length > 0);
+  const prefixes = options.stripPrefixes.map(fold).filter(s => s.length > 0);
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const suffix of suffixes) {
+      if (stem.length > suffix.length && stem.endsWith(suffix)) {
+        stem = stem.slice(0, -suffix.length);
+        changed = true;
+      }
+    }
+    for (const prefix of prefixes) {
+      if (stem.length > prefix.length && stem.startsWith(prefix)) {
+        stem = stem.slice(prefix.length);
+        changed = true;
+      }
+    }
+  }
+
+  return stem;
+};
+
+/**
+ * Pairs truth and OCR items by normalized filename stem.
+ * Items whose stem has no counterpart are returned as unmatched instead of
+ * being shifted onto a neighbour. When several items share a stem they are
+ * paired in filename order and the surplus is reported as unmatched.
+ */
+export const pairByStem = <T extends { name: string }>(
+  truthItems: T[],
+  ocrItems: T[],
+  options: PairingOptions = DEFAULT_PAIRING_OPTIONS
+): PairingResult<T> => {
+  const byName = (a: T, b: T) => a.name.localeCompare(b.name);
+
+  const ocrByStem = new Map<string, T[]>();
+  for (const item of [...ocrItems].sort(byName)) {
+    const stem = normalizeStem(item.name, options);
+    const bucket = ocrByStem.get(stem);
+    if (bucket) bucket.push(item);
+    else ocrByStem.set(stem, [item]);
+  }
+
+  const pairs: StemPair<T>[] = [];
+  const unmatchedTruth: T[] = [];
+
+  for (const truth of [...truthItems].sort(byName)) {
+    const stem = normalizeStem(truth.name, options);
+    const candidates = ocrByStem.get(stem);
+    const ocr = candidates?.shift();
+    if (ocr) {
+      pairs.push({ stem, truth, ocr });
+    } else {
+      unmatchedTruth.push(truth);
+    }
+  }
+
+  const unmatchedOcr = Array.from(ocrByStem.values()).flat().sort(byName);
+
+  return { pairs, unmatchedTruth, unmatchedOcr };
+};
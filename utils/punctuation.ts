@@ -0,0 +1,35 @@
+import { PunctuationSettings } from '../types';
+
+// ASCII marks first, then the full-width and CJK marks used in Chinese text
+export const DEFAULT_PUNCTUATION_MARKS = '.,?!:;"\'()-' + '。，、；：？！“”‘’（）《》〈〉「」『』【】…—·';
+
+export const DEFAULT_PUNCTUATION: PunctuationSettings = {
+  marks: DEFAULT_PUNCTUATION_MARKS,
+  widthInsensitive: false
+};
+
+// Full-width (and typographic) forms and the half-width mark they stand for
+const WIDTH_EQUIVALENTS: Record<string, string> = {
+  '，': ',', '。': '.', '．': '.', '；': ';', '：': ':', '？': '?', '！': '!',
+  '（': '(', '）': ')', '【': '[', '】': ']', '［': '[', '］': ']', '｛': '{', '｝': '}',
+  '“': '"', '”': '"', '＂': '"', '‘': "'", '’': "'", '＇': "'", '－': '-',
+};
+
+/**
+ * Maps a mark to the form it is scored as: itself, or its half-width
+ * equivalent when the comparison is width-insensitive.
+ */
+export const canonicalMark = (mark: string, widthInsensitive: boolean): string =>
+  (widthInsensitive && WIDTH_EQUIVALENTS[mark]) || mark;
+
+/**
+ * The configured marks in text order, canonicalized for comparison.
+ * A half-width form counts when its full-width form is configured, and
+ * vice versa, once the comparison is width-insensitive.
+ */
+export const extractPunctuation = (text: string, { marks, widthInsensitive }: PunctuationSettings): string[] => {
+  const allowed = new Set(Array.from(marks).map(m => canonicalMark(m, widthInsensitive)));
+  return Array.from(text)
+    .map(ch => canonicalMark(ch, widthInsensitive))
+    .filter(ch => allowed.has(ch));
+};
@@ -0,0 +1,114 @@
+import { AnalysisResult, DiffType, QualityRule, RuleStatus } from '../types';
+import { normalizeText } from './normalization';
+import { checkResult, worstStatus } from './rules';
+
+export type SortKey = 'name' | 'cer' | 'wer' | 'punctuation' | 'teds' | 'status';
+
+export type SortDirection = 'asc' | 'desc';
+
+export type ErrorFilter = 'any' | Exclude<DiffType, 'match' | 'excluded'>;
+
+export const ERROR_FILTERS: { id: ErrorFilter; label: string }[] = [
+  { id: 'any', label: '全部错误类型' },
+  { id: 'deletion', label: '有漏读' },
+  { id: 'insertion', label: '有多读' },
+  { id: 'substitution', label: '有替换' },
+];
+
+export interface ResultFilters {
+  cerMin?: number; // Fractions, inclusive
+  cerMax?: number;
+  errors: ErrorFilter;
+  status: RuleStatus | 'all';
+  query: string;
+  matchesOnly: boolean; // Hide documents the search doesn't find instead of just highlighting the others
+}
+
+export const EMPTY_FILTERS: ResultFilters = { errors: 'any', status: 'all', query: '', matchesOnly: false };
+
+const SEVERITY: Record<RuleStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+// Documents no rule covers sort before passing ones
+const statusRank = (res: AnalysisResult, rules: QualityRule[]) => {
+  const checks = checkResult(res, rules);
+  return checks.length === 0 ? -1 : SEVERITY[worstStatus(checks.map(c => c.status))];
+};
+
+export const sortResults = (
+  results: AnalysisResult[],
+  key: SortKey,
+  direction: SortDirection,
+  rules: QualityRule[]
+): AnalysisResult[] => {
+  const value = (res: AnalysisResult): number | string => {
+    switch (key) {
+      case 'name': return res.truthFileName;
+      case 'cer': return res.cer.score;
+      case 'wer': return res.wer.score;
+      case 'punctuation': return res.punctuationAccuracy.score;
+      case 'teds': return res.tables?.full ?? -1; // Documents without tables sort before any score
+      case 'status': return statusRank(res, rules);
+    }
+  };
+  const sign = direction === 'asc' ? 1 : -1;
+  return results
+    .map(res => ({ res, v: value(res) }))
+    .sort((a, b) => sign * (typeof a.v === 'string'
+      ? a.v.localeCompare(b.v as string, undefined, { numeric: true })
+      : a.v - (b.v as number)))
+    .map(({ res }) => res);
+};
+
+const ERROR_COUNTS: Record<Exclude<ErrorFilter, 'any'>, (res: AnalysisResult) => number> = {
+  deletion: res => res.cer.breakdown?.d ?? 0,
+  insertion: res => res.cer.breakdown?.i ?? 0,
+  substitution: res => res.cer.breakdown?.s ?? 0,
+};
+
+/**
+ * Indexes of the word diff items a search hits, on either side. Tokens
+ * are joined without separators so a phrase spanning several CJK tokens
+ * is still found; the query goes through the document's normalization.
+ */
+export const searchDiffs = (res: AnalysisResult, query: string): Set<number> => {
+  const hits = new Set<number>();
+  const needle = normalizeText(query, res.normalization).replace(/\s+/g, '');
+  if (!needle) return hits;
+  for (const side of ['truth', 'ocr'] as const) {
+    let text = '';
+    const starts: number[] = [];
+    res.wer.diffs.forEach(item => {
+      starts.push(text.length);
+      text += item[side] ?? '';
+    });
+    const found: number[] = [];
+    for (let at = text.indexOf(needle); at !== -1; at = text.indexOf(needle, at + 1)) found.push(at);
+    // Occurrences and tokens both run left to right, so one pass marks the overlaps
+    let next = 0;
+    res.wer.diffs.forEach((item, idx) => {
+      const len = item[side]?.length ?? 0;
+      if (len === 0) return;
+      while (next < found.length && found[next] + needle.length <= starts[idx]) next++;
+      if (next < found.length && found[next] < starts[idx] + len) hits.add(idx);
+    });
+  }
+  return hits;
+};
+
+export const filterResults = (
+  results: AnalysisResult[],
+  filters: ResultFilters,
+  rules: QualityRule[],
+  searchHits: Map<string, Set<number>>
+): AnalysisResult[] =>
+  results.filter(res => {
+    if (filters.cerMin !== undefined && res.cer.score < filters.cerMin) return false;
+    if (filters.cerMax !== undefined && res.cer.score > filters.cerMax) return false;
+    if (filters.errors !== 'any' && ERROR_COUNTS[filters.errors](res) === 0) return false;
+    if (filters.status !== 'all') {
+      const checks = checkResult(res, rules);
+      if (checks.length === 0 || worstStatus(checks.map(c => c.status)) !== filters.status) return false;
+    }
+    if (filters.matchesOnly && filters.query.trim() && !searchHits.get(res.pairId)?.size) return false;
+    return true;
+  });
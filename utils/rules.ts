@@ -0,0 +1,122 @@
+import { AnalysisResult, AverageKey, QualityRule, RuleCheck, RuleMetric, RuleStatus } from '../types';
+
+export interface RuleMetricInfo {
+  id: RuleMetric;
+  label: string;
+  lowerIsBetter: boolean;
+  value: (r: AnalysisResult) => number;
+  average?: AverageKey; // Matching headline average, for rules that apply to every document
+}
+
+export const RULE_METRICS: RuleMetricInfo[] = [
+  { id: 'cer', label: 'CER', lowerIsBetter: true, value: r => r.cer.score, average: 'avgCer' },
+  { id: 'wer', label: 'WER', lowerIsBetter: true, value: r => r.wer.score, average: 'avgWer' },
+  { id: 'punctuation', label: '标点准确率', lowerIsBetter: false, value: r => r.punctuationAccuracy.score, average: 'avgPunc' },
+  { id: 'line-accuracy', label: '行准确率', lowerIsBetter: false, value: r => r.lines.accuracy },
+];
+
+export const RULE_STATUSES: Record<RuleStatus, { label: string; className: string }> = {
+  pass: { label: '合格', className: 'bg-green-100 text-green-800' },
+  warn: { label: '警告', className: 'bg-yellow-100 text-yellow-800' },
+  fail: { label: '不合格', className: 'bg-red-100 text-red-800' },
+};
+
+// The fail levels match the colours the tool used before rules were configurable
+export const DEFAULT_RULES: QualityRule[] = [
+  { id: 'default-cer', metric: 'cer', warn: 0.02, fail: 0.05 },
+  { id: 'default-wer', metric: 'wer', warn: 0.05, fail: 0.1 },
+];
+
+const SEVERITY: Record<RuleStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+export const ruleMetric = (id: RuleMetric): RuleMetricInfo => RULE_METRICS.find(m => m.id === id)!;
+
+export const worstStatus = (statuses: RuleStatus[]): RuleStatus =>
+  statuses.reduce<RuleStatus>((worst, s) => (SEVERITY[s] > SEVERITY[worst] ? s : worst), 'pass');
+
+/**
+ * Compares a value against warning and fail levels. With lowerIsBetter
+ * the levels are upper limits, otherwise lower limits; an unset level
+ * never triggers.
+ */
+export const thresholdStatus = (
+  value: number,
+  levels: { warn?: number; fail?: number },
+  lowerIsBetter: boolean
+): RuleStatus => {
+  const breaches = (limit: number | undefined) =>
+    limit !== undefined && (lowerIsBetter ? value > limit : value < limit);
+  if (breaches(levels.fail)) return 'fail';
+  if (breaches(levels.warn)) return 'warn';
+  return 'pass';
+};
+
+const globToRegExp = (pattern: string) =>
+  new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+
+export const isScoped = (rule: QualityRule): boolean => !!rule.pattern?.trim() || !!rule.tag?.trim();
+
+export const ruleApplies = (rule: QualityRule, result: AnalysisResult): boolean => {
+  const pattern = rule.pattern?.trim();
+  if (pattern && !globToRegExp(pattern).test(result.truthFileName)) return false;
+  const tag = rule.tag?.trim();
+  if (tag && !result.tags?.includes(tag)) return false;
+  return true;
+};
+
+/**
+ * Every rule that applies to the document, with its outcome.
+ */
+export const checkResult = (result: AnalysisResult, rules: QualityRule[]): RuleCheck[] =>
+  rules
+    .filter(rule => ruleApplies(rule, result))
+    .map(rule => {
+      const metric = ruleMetric(rule.metric);
+      const value = metric.value(result);
+      return { rule, value, status: thresholdStatus(value, rule, metric.lowerIsBetter) };
+    });
+
+/**
+ * Worst outcome among the rules for one metric of one document,
+ * or undefined when no rule covers it.
+ */
+export const metricStatus = (result: AnalysisResult, metric: RuleMetric, rules: QualityRule[]): RuleStatus | undefined => {
+  const checks = checkResult(result, rules.filter(r => r.metric === metric));
+  return checks.length > 0 ? worstStatus(checks.map(c => c.status)) : undefined;
+};
+
+/**
+ * Levels that apply to a whole run: the strictest of the unscoped rules
+ * for the metric, used to colour the headline averages.
+ */
+export const globalLevels = (metric: RuleMetric, rules: QualityRule[]): { warn?: number; fail?: number } | undefined => {
+  const applicable = rules.filter(r => r.metric === metric && !isScoped(r));
+  if (applicable.length === 0) return undefined;
+  const { lowerIsBetter } = ruleMetric(metric);
+  const strictest = (levels: (number | undefined)[]) => {
+    const set = levels.filter((l): l is number => l !== undefined);
+    if (set.length === 0) return undefined;
+    return lowerIsBetter ? Math.min(...set) : Math.max(...set);
+  };
+  return { warn: strictest(applicable.map(r => r.warn)), fail: strictest(applicable.map(r => r.fail)) };
+};
+
+export interface RuleSummary {
+  rule: QualityRule;
+  applicable: number;
+  warned: number;
+  failed: number;
+}
+
+export const summarizeRules = (results: AnalysisResult[], rules: QualityRule[]): RuleSummary[] =>
+  rules.map(rule => {
+    const summary: RuleSummary = { rule, applicable: 0, warned: 0, failed: 0 };
+    for (const r of results) {
+      const [check] = checkResult(r, [rule]);
+      if (!check) continue;
+      summary.applicable++;
+      if (check.status === 'warn') summary.warned++;
+      if (check.status === 'fail') summary.failed++;
+    }
+    return summary;
+  });
@@ -0,0 +1,111 @@
+import { AnalysisResult, AverageKey, RunRecord } from '../types';
+import { bootstrapIntervals, mean, pairedPermutationTest } from './statistics';
+
+// Absolute CER change below which a document counts as unchanged
+export const CHANGE_THRESHOLD = 0.005;
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+export type DocumentChange = 'improved' | 'regressed' | 'unchanged' | 'added' | 'removed';
+
+export interface DocumentDelta {
+  key: string;
+  truthFileName: string;
+  engineName: string;
+  base?: AnalysisResult;
+  target?: AnalysisResult;
+  deltas?: Record<AverageKey, number>; // target - base, when both runs have the document
+  change: DocumentChange;
+  inputChanged: boolean; // Truth or OCR file content differs between the runs
+}
+
+export interface AggregateDelta {
+  key: AverageKey;
+  base: number;   // Macro average over documents in both runs
+  target: number;
+  delta: number;
+  ci95: [number, number]; // Bootstrap interval of the mean per-document delta
+  pValue: number;          // Paired permutation test
+  significant: boolean;
+}
+
+export interface RunComparison {
+  documents: DocumentDelta[];
+  aggregates: AggregateDelta[];
+  counts: Record<DocumentChange, number>;
+}
+
+const SCORE_OF: Record<AverageKey, (r: AnalysisResult) => number> = {
+  avgCer: r => r.cer.score,
+  avgWer: r => r.wer.score,
+  avgPunc: r => r.punctuationAccuracy.score,
+};
+
+/**
+ * Documents are matched by truth file name. When either run compared
+ * several engines, the engine name is part of the key as well, so model
+ * releases evaluated one engine at a time still line up.
+ */
+export const scoreOf = (r: AnalysisResult, key: AverageKey): number => SCORE_OF[key](r);
+
+const documentKey = (r: AnalysisResult, byEngine: boolean) =>
+  byEngine ? `${r.engineName}\u0000${r.truthFileName}` : r.truthFileName;
+
+const classify = (cerDelta: number): DocumentChange =>
+  cerDelta < -CHANGE_THRESHOLD ? 'improved' : cerDelta > CHANGE_THRESHOLD ? 'regressed' : 'unchanged';
+
+/**
+ * Compares a target run against a base run document by document, and
+ * tests whether the average change in each metric is significant.
+ */
+export const compareRuns = (base: RunRecord, target: RunRecord): RunComparison => {
+  const byEngine = base.engines.length > 1 || target.engines.length > 1;
+  const baseDocs = new Map(base.results.map(r => [documentKey(r, byEngine), r]));
+  const targetDocs = new Map(target.results.map(r => [documentKey(r, byEngine), r]));
+  const keys = Array.from(new Set([...baseDocs.keys(), ...targetDocs.keys()]));
+
+  const documents: DocumentDelta[] = keys.map(key => {
+    const b = baseDocs.get(key);
+    const t = targetDocs.get(key);
+    const any = (t || b)!;
+    const common = { key, truthFileName: any.truthFileName, engineName: any.engineName, base: b, target: t };
+    if (!b) return { ...common, change: 'added', inputChanged: false };
+    if (!t) return { ...common, change: 'removed', inputChanged: false };
+
+    const deltas = Object.fromEntries(
+      (Object.keys(SCORE_OF) as AverageKey[]).map(k => [k, SCORE_OF[k](t) - SCORE_OF[k](b)])
+    ) as Record<AverageKey, number>;
+    const bh = base.hashes[b.pairId];
+    const th = target.hashes[t.pairId];
+    return {
+      ...common,
+      deltas,
+      change: classify(deltas.avgCer),
+      inputChanged: !!bh && !!th && (bh.truth !== th.truth || bh.ocr !== th.ocr)
+    };
+  });
+
+  const paired = documents.filter(d => d.base && d.target);
+  const aggregates: AggregateDelta[] = (Object.keys(SCORE_OF) as AverageKey[]).map(key => {
+    const differences = paired.map(d => d.deltas![key]);
+    const [ci95] = bootstrapIntervals(differences, [mean]);
+    const pValue = pairedPermutationTest(differences);
+    return {
+      key,
+      base: mean(paired.map(d => SCORE_OF[key](d.base!))),
+      target: mean(paired.map(d => SCORE_OF[key](d.target!))),
+      delta: mean(differences),
+      ci95,
+      pValue,
+      significant: pValue < SIGNIFICANCE_LEVEL
+    };
+  });
+
+  const counts: Record<DocumentChange, number> = { improved: 0, regressed: 0, unchanged: 0, added: 0, removed: 0 };
+  documents.forEach(d => counts[d.change]++);
+
+  // Largest regressions first, then improvements, then the rest
+  const order = (d: DocumentDelta) => (d.deltas ? -d.deltas.avgCer : Number.POSITIVE_INFINITY);
+  documents.sort((a, b) => order(a) - order(b));
+  return { documents, aggregates, counts };
+};
@@ -0,0 +1,99 @@
+/**
+ * Small seeded PRNG (mulberry32), so bootstrap intervals are reproducible
+ * run to run for the same results.
+ */
+export const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const mean = (values: number[]): number =>
+  values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length;
+
+/**
+ * Percentile with linear interpolation between closest ranks (p in 0–1).
+ * Expects the values sorted ascending.
+ */
+export const percentileOfSorted = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = p * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+};
+
+export const percentile = (values: number[], p: number): number =>
+  percentileOfSorted([...values].sort((a, b) => a - b), p);
+
+export const BOOTSTRAP_SAMPLES = 1000;
+
+export const BOOTSTRAP_SEED = 20240601;
+
+/**
+ * Percentile bootstrap confidence interval: resamples the items with
+ * replacement, recomputes the statistic and takes the central quantiles.
+ * Each statistic gets its own interval from the same resamples.
+ */
+export const bootstrapIntervals = <T>(
+  items: T[],
+  statistics: ((sample: T[]) => number)[],
+  confidence = 0.95,
+  samples = BOOTSTRAP_SAMPLES,
+  seed = BOOTSTRAP_SEED
+): [number, number][] => {
+  if (items.length <= 1) {
+    return statistics.map(stat => {
+      const v = stat(items);
+      return [v, v];
+    });
+  }
+
+  const random = seededRandom(seed);
+  const draws: number[][] = statistics.map(() => []);
+  const sample: T[] = new Array(items.length);
+  for (let b = 0; b < samples; b++) {
+    for (let i = 0; i < items.length; i++) sample[i] = items[Math.floor(random() * items.length)];
+    statistics.forEach((stat, s) => draws[s].push(stat(sample)));
+  }
+
+  const tail = (1 - confidence) / 2;
+  return draws.map(values => {
+    const sorted = values.sort((a, b) => a - b);
+    return [percentileOfSorted(sorted, tail), percentileOfSorted(sorted, 1 - tail)];
+  });
+};
+
+export const PERMUTATION_SAMPLES = 5000;
+
+/**
+ * Two-sided paired sign-flip permutation test on per-item differences:
+ * under the null hypothesis each difference is equally likely to have
+ * either sign. Returns the p-value for the observed mean difference.
+ */
+export const pairedPermutationTest = (
+  differences: number[],
+  samples = PERMUTATION_SAMPLES,
+  seed = BOOTSTRAP_SEED
+): number => {
+  const n = differences.length;
+  if (n === 0) return 1;
+  const observed = Math.abs(mean(differences));
+  if (observed === 0) return 1;
+
+  const random = seededRandom(seed);
+  let extreme = 0;
+  for (let s = 0; s < samples; s++) {
+    let sum = 0;
+    for (const d of differences) sum += random() < 0.5 ? d : -d;
+    // Small tolerance so exact ties with the observed statistic count as extreme
+    if (Math.abs(sum / n) >= observed - 1e-12) extreme++;
+  }
+  // Add-one smoothing keeps the estimate away from an impossible p = 0
+  return (extreme + 1) / (samples + 1);
+};
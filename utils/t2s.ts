@@ -0,0 +1,130 @@
+/**
+ * Character-level Traditional → Simplified Chinese mapping for the
+ * normalization pipeline. Covers the common traditional forms; it maps
+ * characters one-to-one and does not attempt phrase-level conversion.
+ */
+const TRADITIONAL =
+  '萬與醜專業叢東絲兩嚴喪個豐臨為麗舉義烏樂喬習鄉書買亂爭於虧雲亞產畝親億僅從侖倉儀' +
+  '們價眾優會傘偉傳傷倫偽體餘傭僉俠侶僥偵側僑儈儂俁係儔儼倆儷儉債傾僂僨償儲兒兌黨蘭' +
+  '關興養獸內岡冊寫軍農馮衝決況凍淨涼減湊凜幾鳳鳧憑凱擊鑿芻劃劉則剛創刪別剗剄劑剮劍' +
+  '剝劇勸辦務勱動勵勁勞勢勛勻匭匱區醫華協單賣盧鹵臥衛卻巹廠廳曆厲壓厭厙廁廂厴廈廚廄' +
+  '廝縣參雙發變敘疊葉號嘆嘰籲後嚇呂嗎噸聽啟吳嘸囈嘔嚦唄員咼嗆嗚詠嚨嚀噝響啞噠嘵嗶噦' +
+  '嘩噲嚌噥喲嘜嗊嘮啢嗩喚嘖嗇囀齧嘽嘯噴嘍嚳囁噯噓嚶囑嚕團園圍圇國圖圓聖壙場壞塊堅壇' +
+  '壢壩塢墳墜壟壘墾堊墊埡壋塏堖塒塤堝塹墮壪牆壯聲殼壺壼處備復夠頭誇夾奪奩奐奮獎奧妝' +
+  '婦媽嫵嫗媯姍薑婁婭嬈嬌孌娛媧嫻嫿嬰嬋嬸媼嬡嬪嬙嬤孫學孿寧寶實寵審憲宮寬賓寢對尋導' +
+  '壽將爾塵嘗堯尷屍盡層屜屆屬屢屨嶼歲豈嶇崗峴嶴嵐島嶺嶽崬巋嶨嶧峽嶢嶠崢巒嶗崍嶮嶄嶸' +
+  '嶔嶁巔鞏巰幣帥師幃帳簾幟帶幀幫幬幘幗冪莊慶廬龐廢廎廩開異棄張彌彎彈強歸當錄彠彥徹' +
+  '徑徠憶懺憂愾懷態慫憮慪悵愴憐總懟懌戀懇惡慟懨愷惻惱惲悅懸慳憫驚懼慘懲憊愜慚憚慣慍' +
+  '憤憒願懾懣懶懍戇戔戲戧戰戩戶紮撲執擴捫掃揚擾撫拋摶摳掄搶護報擔擬攏揀擁攔擰撥擇掛' +
+  '摯攣掗撾撻挾撓擋撟掙擠揮撏撈損撿換搗據擄摑擲撣摻摜攬搵撳攙擱摟攪攜攝攄擺搖擯攤攖' +
+  '撐攆擷擼攛擻攢敵斂數齋斕鬥斬斷無舊時曠暘曇晝顯晉曬曉曄暈暉暫曖術樸機殺雜權條來楊' +
+  '榪傑極構樅樞棗櫪梘棖槍楓梟櫃檸檉梔柵標棧櫛櫳棟櫨櫟欄樹棲樣欒椏橈楨檔榿橋樺檜槳樁' +
+  '夢檮棶檢欞槨櫝槧欏橢樓欖櫬櫚櫸檟檻檳櫧橫檣櫻櫫櫥櫓櫞簷檁歡歟歐殲歿殤殘殞殮殫殯毆' +
+  '毀轂畢斃氈毿氌氣氫氬氳匯漢湯洶溝沒灃漚瀝淪滄滬濘淚澩瀧瀘濼瀉潑澤涇潔灑窪浹淺漿澆' +
+  '湞濁測澮濟瀏滻渾滸濃潯濤澇淶漣潿渦渙滌潤澗漲澀澱淵漬瀆漸澠漁瀋滲溫遊灣濕潰濺漵滎' +
+  '滿瀅濾濫灤濱灘澦瀠瀟瀲濰潛瀦瀾瀨灝滅燈靈災燦煬爐燉煒熗點煉熾爍爛烴燭煙煩燒燁燴燙' +
+  '燼熱煥燜燾愛爺牘犛牽犧犢狀獷獁猶狽獮獰獨狹獅獪猙獄猻獫獵獼玀豬貓蝟獻獺璣瑪瑋環現' +
+  '璽瑉琺瓏璫琿璉瑣瓊瑤璦瓔瓚甕甌電畫暢疇癤療瘧癘瘍瘡瘋皰痾癰痙癢瘂癆瘓癇癡癉瘮瘞瘻' +
+  '癟癱癮癭癩癬癲皚皺皸盞鹽監蓋盜盤瞘眥矓睜睞瞼瞞矚矯礬礦碭碼磚硨硯碸礪礱礫礎硜碩硤' +
+  '磽磑礄確鹼礙磧磣禮禕禰禎禱禍祿禪離禿稈種積稱穢穠穩穀窮竊竅窯竄窩窺竇竪競筆筍筧箋' +
+  '籠籩築篳篩箏籌簽簡籙簀篋籜籮簞簫簣簍籃籬籪籟糴類秈糶糲粵糞糧糰糝餱緊縶糾紆紅紂纖' +
+  '紇約級紈纊紀紉緯紜紘純紕紗綱納紝縱綸紛紙紋紡紵紖紐紓線紺紲紱練組紳細織終縐絆紼絀' +
+  '紹繹經紿綁絨結絝繞絰絎繪給絢絳絡絕絞統綆綃絹繡綌綏絛繼綈績緒綾緓續綺緋綽緔緄繩維' +
+  '綿綬繃綢綯綹綣綜綻綰綠綴緇緙緗緘緬纜緹緲緝縕繢緦綞緞緶緱縋緩締縷編緡緣縉縛縟縝縫' +
+  '縗縞纏縭縊縑繽縹縵縲纓縮繆繅纈繚繕繒韁繾繰繯纘罌網羅罰罷羆羈羥翹耮耬聳恥聶聾職聹' +
+  '聯聵聰肅腸膚膁腎腫脹脅膽勝朧腖臚脛膠脈膾髒臍腦膿臠腳脫腡臉臘醃膕齶膩靦膃騰臏臢輿' +
+  '艤艦艙艫艱豔藝節羋薌蕪蘆蓯葦藶莧萇蒼苧蘇檾蘋莖蘢蔦塋煢繭荊薦薘莢蕘蓽蕎薈薺蕩榮葷' +
+  '犖熒蕁藎蓀蔭蕒葒葤藥蒞蓧萊蓮蒔萵薟獲蕕瑩鶯蓴蘀蘿螢營縈蕭薩蔥蕆蕢蔣蔞藍薊蘺蕷鎣驀' +
+  '薔蘞藺藹蘄蘊藪蘚虜慮蟲虯蟣雖蝦蠆蝕蟻螞蠶蠔蜆蠱蠣蟶蠻蟄蛺蟯螄蠐蛻蝸蠟蠅蟈蟬蠍螻蠑' +
+  '螿蟎蠨釁銜補襯袞襖嫋褘襪襲襏裝襠褌褳襝褲襇褸襤見觀覎規覓視覘覽覺覬覡覿覥覦覯覲覷' +
+  '觴觸觶讋譽謄訁計訂訃認譏訐訌討讓訕訖訓議訊記講諱謳詎訝訥許訛論訩訟諷設訪訣證詁訶' +
+  '評詛識詗詐訴診詆謅詞詘詔詖譯詒誆誄試詿詩詰詼誠誅詵話誕詬詮詭詢詣諍該詳詫諢詡譸誡' +
+  '誣語誚誤誥誘誨誑說誦誒請諸諏諾讀諑誹課諉諛誰諗調諂諒諄誶談誼謀諶諜謊諫諧謔謁謂諤' +
+  '諭諼讒諮諳諺諦謎諞謨讜謖謝謠謗諡謙謐謹謾謫譾謬譚譖譙讕譜譎讞譴譫讖豶貝貞負貟貢財' +
+  '責賢敗賬貨質販貪貧貶購貯貫貳賤賁貰貼貴貺貸貿費賀貽賊贄賈賄貲賃賂贓資賅贐賕賑賚賒' +
+  '賦賭齎贖賞賜贗賡賠賧賴賵贅賻賺賽賾贊贇贈贍贏贛赬趙趕趨趲躉躍蹌跡踐躂蹺蹕躚躋踴躊' +
+  '蹤躓躑躡蹣躕躥躪躦軀車軋軌軒軔轉軛輪軟轟軲軻轤軸軹軼軤軫轢軺輕軾載輊轎輅較輒輔輛' +
+  '輦輩輝輥輞輬輟輜輳輻輯轀輸轡轅轄輾轆轍轔辭辯邊遼達遷過邁運還這進遠違連遲邇逕適選' +
+  '遜遞邐邏遺遙鄧鄺鄔郵鄒鄴鄰鬱郟鄶鄭鄆酈鄖鄲醞醱醬釅釃釀釋裏鑒鑾鏨釓釔針釘釗釙釕釷' +
+  '釺釧釤鈒釩釣鍆釹鍚釵鈣鈈鈦鈍鈔鍾鈉鋇鋼鈑鈐鑰欽鈞鎢鈧鈁鈥鈄鈕鈀鈺錢鉦鉗鈷缽鈳鉕鈽' +
+  '鈸鉞鑽鉬鉭鉀鈿鈾鐵鉑鈴鑠鉛鉚鈰鉉鉈鉍鈮鈹鐸銬銠鉺銪鋮鋏鐃鋣鐺銅鋁銦鎧鍘銖銑鋌銩鏵' +
+  '銓鉿銚鉻銘錚銫鉸銥鏟銃鐋銨銀銣鑄鐒鋪錸鋱鏈鏗銷鎖鋰鋥鋤鍋鋯鋨銹銼鋝鋒鋅鋶鐦鐧銳銻' +
+  '鋃鋟鋦錒錆鍺錯錨錛錡錁錕錩錫錮鑼錘錐錦鍁錈錇錟錠鍵鋸錳錙鍥鍈鍇鏘鍶鍔鍤鍬鍛鎪鍠鍰' +
+  '鎄鍍鎂鏤鐨鎇鏌鎮鎘鑷鎳鎿鎦鎬鎊鎰鎔鏢鏜鏍鏰鏞鏡鏑鏃鏇鐘鏷鐓鑭鐠鏹鐐鐝鐫鐮鐲鐳鐶鐙' +
+  '鐿鑲長門閂閃閆閈閉問闖閏闈閑間閔閌悶閘鬧閨聞闥閩閭閥閣閡閫鬮閱閬閾閹閶鬩閿閽閻閼' +
+  '闡闌闃闊闋闔闐闞闓闕闠闤隊陽陰陣階際陸隴陳陘陝隉隕險隨隱隸雋難雛讎靂霧霽靄靚靜靨' +
+  '韃鞽韉韋韌韓韙韜韞韻頁頂頃項順須頊頑顧頓頎頒頌頏預顱領頗頸頡頰頜潁頦頤頻頹頷穎顆' +
+  '題顏額顎顓顒顙顛顢顥顫顳顰顴風颺颭颮颯颶颼飄飆飛饗饜飣飢飥餳飩飪飫飭飯飲餞飾飽飼' +
+  '飴餌饒餉餃餅餑餓餒餛餡館餷饋餿饞饃饅饈饉饊饌饢馬馭馱馴馳驅駁驢駔駛駟駙駒騶駐駝駑' +
+  '駕驛駘驍罵驕驊駱駭駢驪騁驗駿騏騎騍騅驂騙騭騷騖驁騮騫騸驃騾驄驏驟驥驤髏髖髕鬢魘魎' +
+  '魚魛魢魷魯鮁鮃鯰鱸鮒鮍鮐鱟鮭鮮鯀鯁鯉鯊鯽鯧鯨鯪鯫鯛鯡鯢鯤鯖鯝鯔鰈鰓鰍鰐鰉鰨鰣鰭鰻' +
+  '鱉鱔鱈鱗鱘鱷鳥鳩雞鳶鳴鴉鴇鴨鴕鴝鴛鴦鴣鴿鴰鵂鴻鵑鵝鵠鵡鵪鵬鵲鶉鶇鶴鶻鶼鷂鷗鷓鷥鷲' +
+  '鷹鷺鸚鸛鸝鸞鹹鹺麥麩黃黌黷黲黽鼉鼴齊齏齒齔齟齡齙齠齜齦齪齬齲齷龍龔龕龜麼臺颱檯裡' +
+  '幹乾髮範麵製鬆闆準僕彙隻歷嚮鬍繫蒐餵捲藉籤穫鬨冑佔迴痲噁瀰嚐甦嬝祕託摺瞭慾鍊崙癒' +
+  '傢犂閒牠妳祐証唸啓綫衆爲峯粧菸僱濛懞矇疋剋尅兇汙盃罈罎鑑';
+
+const SIMPLIFIED =
+  '万与丑专业丛东丝两严丧个丰临为丽举义乌乐乔习乡书买乱争于亏云亚产亩亲亿仅从仑仓仪' +
+  '们价众优会伞伟传伤伦伪体余佣佥侠侣侥侦侧侨侩侬俣系俦俨俩俪俭债倾偻偾偿储儿兑党兰' +
+  '关兴养兽内冈册写军农冯冲决况冻净凉减凑凛几凤凫凭凯击凿刍划刘则刚创删别刬刭剂剐剑' +
+  '剥剧劝办务劢动励劲劳势勋匀匦匮区医华协单卖卢卤卧卫却卺厂厅历厉压厌厍厕厢厣厦厨厩' +
+  '厮县参双发变叙叠叶号叹叽吁后吓吕吗吨听启吴呒呓呕呖呗员呙呛呜咏咙咛咝响哑哒哓哔哕' +
+  '哗哙哜哝哟唛唝唠唡唢唤啧啬啭啮啴啸喷喽喾嗫嗳嘘嘤嘱噜团园围囵国图圆圣圹场坏块坚坛' +
+  '坜坝坞坟坠垄垒垦垩垫垭垱垲垴埘埙埚堑堕塆墙壮声壳壶壸处备复够头夸夹夺奁奂奋奖奥妆' +
+  '妇妈妩妪妫姗姜娄娅娆娇娈娱娲娴婳婴婵婶媪嫒嫔嫱嬷孙学孪宁宝实宠审宪宫宽宾寝对寻导' +
+  '寿将尔尘尝尧尴尸尽层屉届属屡屦屿岁岂岖岗岘岙岚岛岭岳岽岿峃峄峡峣峤峥峦崂崃崄崭嵘' +
+  '嵚嵝巅巩巯币帅师帏帐帘帜带帧帮帱帻帼幂庄庆庐庞废庼廪开异弃张弥弯弹强归当录彟彦彻' +
+  '径徕忆忏忧忾怀态怂怃怄怅怆怜总怼怿恋恳恶恸恹恺恻恼恽悦悬悭悯惊惧惨惩惫惬惭惮惯愠' +
+  '愤愦愿慑懑懒懔戆戋戏戗战戬户扎扑执扩扪扫扬扰抚抛抟抠抡抢护报担拟拢拣拥拦拧拨择挂' +
+  '挚挛挜挝挞挟挠挡挢挣挤挥挦捞损捡换捣据掳掴掷掸掺掼揽揾揿搀搁搂搅携摄摅摆摇摈摊撄' +
+  '撑撵撷撸撺擞攒敌敛数斋斓斗斩断无旧时旷旸昙昼显晋晒晓晔晕晖暂暧术朴机杀杂权条来杨' +
+  '杩杰极构枞枢枣枥枧枨枪枫枭柜柠柽栀栅标栈栉栊栋栌栎栏树栖样栾桠桡桢档桤桥桦桧桨桩' +
+  '梦梼梾检棂椁椟椠椤椭楼榄榇榈榉槚槛槟槠横樯樱橥橱橹橼檐檩欢欤欧歼殁殇残殒殓殚殡殴' +
+  '毁毂毕毙毡毵氇气氢氩氲汇汉汤汹沟没沣沤沥沦沧沪泞泪泶泷泸泺泻泼泽泾洁洒洼浃浅浆浇' +
+  '浈浊测浍济浏浐浑浒浓浔涛涝涞涟涠涡涣涤润涧涨涩淀渊渍渎渐渑渔沈渗温游湾湿溃溅溆荥' +
+  '满滢滤滥滦滨滩滪潆潇潋潍潜潴澜濑灏灭灯灵灾灿炀炉炖炜炝点炼炽烁烂烃烛烟烦烧烨烩烫' +
+  '烬热焕焖焘爱爷牍牦牵牺犊状犷犸犹狈狝狞独狭狮狯狰狱狲猃猎猕猡猪猫猬献獭玑玛玮环现' +
+  '玺珉珐珑珰珲琏琐琼瑶瑷璎瓒瓮瓯电画畅畴疖疗疟疠疡疮疯疱疴痈痉痒痖痨痪痫痴瘅瘆瘗瘘' +
+  '瘪瘫瘾瘿癞癣癫皑皱皲盏盐监盖盗盘眍眦眬睁睐睑瞒瞩矫矾矿砀码砖砗砚砜砺砻砾础硁硕硖' +
+  '硗硙硚确碱碍碛碜礼祎祢祯祷祸禄禅离秃秆种积称秽秾稳谷穷窃窍窑窜窝窥窦竖竞笔笋笕笺' +
+  '笼笾筑筚筛筝筹签简箓箦箧箨箩箪箫篑篓篮篱簖籁籴类籼粜粝粤粪粮团糁糇紧絷纠纡红纣纤' +
+  '纥约级纨纩纪纫纬纭纮纯纰纱纲纳纴纵纶纷纸纹纺纻纼纽纾线绀绁绂练组绅细织终绉绊绋绌' +
+  '绍绎经绐绑绒结绔绕绖绗绘给绚绛络绝绞统绠绡绢绣绤绥绦继绨绩绪绫绬续绮绯绰绱绲绳维' +
+  '绵绶绷绸绹绺绻综绽绾绿缀缁缂缃缄缅缆缇缈缉缊缋缌缍缎缏缑缒缓缔缕编缗缘缙缚缛缜缝' +
+  '缞缟缠缡缢缣缤缥缦缧缨缩缪缫缬缭缮缯缰缱缲缳缵罂网罗罚罢罴羁羟翘耢耧耸耻聂聋职聍' +
+  '联聩聪肃肠肤肷肾肿胀胁胆胜胧胨胪胫胶脉脍脏脐脑脓脔脚脱脶脸腊腌腘腭腻腼腽腾膑臜舆' +
+  '舣舰舱舻艰艳艺节芈芗芜芦苁苇苈苋苌苍苎苏苘苹茎茏茑茔茕茧荆荐荙荚荛荜荞荟荠荡荣荤' +
+  '荦荧荨荩荪荫荬荭荮药莅莜莱莲莳莴莶获莸莹莺莼萚萝萤营萦萧萨葱蒇蒉蒋蒌蓝蓟蓠蓣蓥蓦' +
+  '蔷蔹蔺蔼蕲蕴薮藓虏虑虫虬虮虽虾虿蚀蚁蚂蚕蚝蚬蛊蛎蛏蛮蛰蛱蛲蛳蛴蜕蜗蜡蝇蝈蝉蝎蝼蝾' +
+  '螀螨蟏衅衔补衬衮袄袅袆袜袭袯装裆裈裢裣裤裥褛褴见观觃规觅视觇览觉觊觋觌觍觎觏觐觑' +
+  '觞触觯詟誉誊讠计订讣认讥讦讧讨让讪讫训议讯记讲讳讴讵讶讷许讹论讻讼讽设访诀证诂诃' +
+  '评诅识诇诈诉诊诋诌词诎诏诐译诒诓诔试诖诗诘诙诚诛诜话诞诟诠诡询诣诤该详诧诨诩诪诫' +
+  '诬语诮误诰诱诲诳说诵诶请诸诹诺读诼诽课诿谀谁谂调谄谅谆谇谈谊谋谌谍谎谏谐谑谒谓谔' +
+  '谕谖谗谘谙谚谛谜谝谟谠谡谢谣谤谥谦谧谨谩谪谫谬谭谮谯谰谱谲谳谴谵谶豮贝贞负贠贡财' +
+  '责贤败账货质贩贪贫贬购贮贯贰贱贲贳贴贵贶贷贸费贺贻贼贽贾贿赀赁赂赃资赅赆赇赈赉赊' +
+  '赋赌赍赎赏赐赝赓赔赕赖赗赘赙赚赛赜赞赟赠赡赢赣赪赵赶趋趱趸跃跄迹践跶跷跸跹跻踊踌' +
+  '踪踬踯蹑蹒蹰蹿躏躜躯车轧轨轩轫转轭轮软轰轱轲轳轴轵轶轷轸轹轺轻轼载轾轿辂较辄辅辆' +
+  '辇辈辉辊辋辌辍辎辏辐辑辒输辔辕辖辗辘辙辚辞辩边辽达迁过迈运还这进远违连迟迩迳适选' +
+  '逊递逦逻遗遥邓邝邬邮邹邺邻郁郏郐郑郓郦郧郸酝酦酱酽酾酿释里鉴銮錾钆钇针钉钊钋钌钍' +
+  '钎钏钐钑钒钓钔钕钖钗钙钚钛钝钞钟钠钡钢钣钤钥钦钧钨钪钫钬钭钮钯钰钱钲钳钴钵钶钷钸' +
+  '钹钺钻钼钽钾钿铀铁铂铃铄铅铆铈铉铊铋铌铍铎铐铑铒铕铖铗铙铘铛铜铝铟铠铡铢铣铤铥铧' +
+  '铨铪铫铬铭铮铯铰铱铲铳铴铵银铷铸铹铺铼铽链铿销锁锂锃锄锅锆锇锈锉锊锋锌锍锎锏锐锑' +
+  '锒锓锔锕锖锗错锚锛锜锞锟锠锡锢锣锤锥锦锨锩锫锬锭键锯锰锱锲锳锴锵锶锷锸锹锻锼锽锾' +
+  '锿镀镁镂镄镅镆镇镉镊镍镎镏镐镑镒镕镖镗镙镚镛镜镝镞镟钟镤镦镧镨镪镣镢镌镰镯镭镮镫' +
+  '镱镶长门闩闪闫闬闭问闯闰闱闲间闵闶闷闸闹闺闻闼闽闾阀阁阂阃阄阅阆阈阉阊阋阌阍阎阏' +
+  '阐阑阒阔阕阖阗阚闿阙阓阛队阳阴阵阶际陆陇陈陉陕陧陨险随隐隶隽难雏雠雳雾霁霭靓静靥' +
+  '鞑鞒鞯韦韧韩韪韬韫韵页顶顷项顺须顼顽顾顿颀颁颂颃预颅领颇颈颉颊颌颍颏颐频颓颔颖颗' +
+  '题颜额颚颛颙颡颠颟颢颤颞颦颧风飏飐飑飒飓飕飘飙飞飨餍饤饥饦饧饨饪饫饬饭饮饯饰饱饲' +
+  '饴饵饶饷饺饼饽饿馁馄馅馆馇馈馊馋馍馒馐馑馓馔馕马驭驮驯驰驱驳驴驵驶驷驸驹驺驻驼驽' +
+  '驾驿骀骁骂骄骅骆骇骈骊骋验骏骐骑骒骓骖骗骘骚骛骜骝骞骟骠骡骢骣骤骥骧髅髋髌鬓魇魉' +
+  '鱼鱽鱾鱿鲁鲅鲆鲇鲈鲋鲏鲐鲎鲑鲜鲧鲠鲤鲨鲫鲳鲸鲮鲰鲷鲱鲵鲲鲭鲴鲻鲽鳃鳅鳄鳇鳎鲥鳍鳗' +
+  '鳖鳝鳕鳞鲟鳄鸟鸠鸡鸢鸣鸦鸨鸭鸵鸲鸳鸯鸪鸽鸹鸺鸿鹃鹅鹄鹉鹌鹏鹊鹑鸫鹤鹘鹣鹞鸥鹧鸶鹫' +
+  '鹰鹭鹦鹳鹂鸾咸鹾麦麸黄黉黩黪黾鼍鼹齐齑齿龀龃龄龅龆龇龈龊龉龋龌龙龚龛龟么台台台里' +
+  '干干发范面制松板准仆汇只历向胡系搜喂卷借签获哄胄占回麻恶弥尝苏袅秘托折了欲炼仑愈' +
+  '家犁闲它你佑证念启线众为峰妆烟雇蒙蒙蒙匹克克凶污杯坛坛鉴';
+
+const simplifiedChars = Array.from(SIMPLIFIED);
+
+export const TRADITIONAL_TO_SIMPLIFIED: ReadonlyMap<string, string> = new Map(
+  Array.from(TRADITIONAL).map((ch, i) => [ch, simplifiedChars[i]])
+);
@@ -0,0 +1,29 @@
+import { AnalysisResult } from '../types';
+
+// Slice key for documents without any tag
+export const UNTAGGED = '';
+
+export const UNTAGGED_LABEL = '(无标签)';
+
+export const tagLabel = (tag: string) => (tag === UNTAGGED ? UNTAGGED_LABEL : tag);
+
+/**
+ * Splits a typed or imported tag list; commas, semicolons and vertical
+ * bars all separate tags. Duplicates are dropped.
+ */
+export const parseTagList = (text: string): string[] =>
+  Array.from(new Set(text.split(/[,;|，；]/).map(t => t.trim()).filter(t => t.length > 0)));
+
+export const hasTag = (result: AnalysisResult, tag: string): boolean =>
+  tag === UNTAGGED ? !result.tags?.length : !!result.tags?.includes(tag);
+
+/**
+ * Every tag used in the results, most frequent first, with the untagged
+ * slice last when some documents have no tag but others do.
+ */
+export const tagsOf = (results: AnalysisResult[]): string[] => {
+  const counts = new Map<string, number>();
+  for (const r of results) r.tags?.forEach(t => counts.set(t, (counts.get(t) ?? 0) + 1));
+  const tags = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([t]) => t);
+  return tags.length > 0 && results.some(r => !r.tags?.length) ? [...tags, UNTAGGED] : tags;
+};
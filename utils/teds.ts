@@ -0,0 +1,226 @@
+import { TableCellDiff, TableDiff, TableMetrics } from '../types';
+import { alignSequences, levenshteinDistance } from './algorithms';
+import { ProgressCallback } from './levenshtein';
+import { childElements, findElements, parseXml, textContent, XmlElement } from './formats/xml';
+
+interface TableCell {
+  text: string;
+  colspan: number;
+  rowspan: number;
+}
+
+type Table = TableCell[][]; // Rows of cells, as written (spanned positions are not repeated)
+
+interface TreeNode {
+  label: string;
+  cell?: TableCell;
+  children: TreeNode[];
+}
+
+const MARKDOWN_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const span = (el: XmlElement, name: string) => Math.max(1, parseInt(el.attributes[name] ?? el.attributes[name.toUpperCase()] ?? '1', 10) || 1);
+
+// thead, tbody and tfoot are looked through, so HTML and Markdown tables compare alike
+const parseHtmlTables = (text: string): Table[] =>
+  findElements(parseXml(text), el => el.name.toLowerCase() === 'table').map(table =>
+    findElements(table, el => el.name.toLowerCase() === 'tr').map(tr =>
+      childElements(tr)
+        .filter(el => /^t[dh]$/i.test(el.name))
+        .map(el => ({ text: collapse(textContent(el)), colspan: span(el, 'colspan'), rowspan: span(el, 'rowspan') }))
+    )
+  );
+
+const splitMarkdownRow = (line: string): TableCell[] =>
+  line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => ({ text: collapse(cell.replace(/\\\|/g, '|')), colspan: 1, rowspan: 1 }));
+
+// A table is a header row, a |---| separator row and the rows with pipes that follow
+const parseMarkdownTables = (text: string): Table[] => {
+  const lines = text.split(/\r?\n/);
+  const tables: Table[] = [];
+  for (let i = 0; i + 1 < lines.length; i++) {
+    if (!lines[i].includes('|') || !lines[i + 1].includes('|') || !MARKDOWN_SEPARATOR.test(lines[i + 1])) continue;
+    const rows = [splitMarkdownRow(lines[i])];
+    let next = i + 2;
+    while (next < lines.length && lines[next].includes('|') && lines[next].trim()) rows.push(splitMarkdownRow(lines[next++]));
+    tables.push(rows);
+    i = next - 1;
+  }
+  return tables;
+};
+
+/**
+ * Every table in a document, HTML if it has any, else Markdown pipe tables.
+ * Nested HTML tables are read as the text of their cell.
+ */
+const parseTables = (text: string): Table[] =>
+  /<table[\s>]/i.test(text) ? parseHtmlTables(text) : parseMarkdownTables(text);
+
+const toTree = (tables: Table[]): TreeNode => ({
+  label: '#document',
+  children: tables.map(rows => ({
+    label: 'table',
+    children: rows.map(cells => ({ label: 'tr', children: cells.map(cell => ({ label: 'td', cell, children: [] })) }))
+  }))
+});
+
+const countNodes = (node: TreeNode): number => 1 + node.children.reduce((sum, child) => sum + countNodes(child), 0);
+
+// Nodes in postorder with each one's leftmost leaf, and the keyroots (the highest node per leftmost leaf)
+const postorder = (root: TreeNode) => {
+  const nodes: TreeNode[] = [];
+  const leftmost: number[] = [];
+  const visit = (node: TreeNode): number => {
+    let first = -1;
+    for (const child of node.children) {
+      const leaf = visit(child);
+      if (first < 0) first = leaf;
+    }
+    nodes.push(node);
+    leftmost.push(first < 0 ? nodes.length - 1 : first);
+    return leftmost[leftmost.length - 1];
+  };
+  visit(root);
+  const keyroots = Array.from(new Map(leftmost.map((leaf, i) => [leaf, i])).values()).sort((a, b) => a - b);
+  return { nodes, leftmost, keyroots };
+};
+
+// Larger trees are not scored: Zhang–Shasha needs (nodes × nodes) memory and time well beyond that
+export const MAX_TABLE_NODES = 1200;
+
+type RenameCosts = (x: TreeNode, y: TreeNode) => [structure: number, full: number];
+
+/**
+ * Zhang–Shasha tree edit distance with unit insertions and deletions,
+ * run once for two relabelling costs at the same time: the DP tables for
+ * both scores share every index and loop, only the relabel term differs.
+ */
+const treeEditDistances = (a: TreeNode, b: TreeNode, rename: RenameCosts, onProgress?: ProgressCallback): [number, number] => {
+  const A = postorder(a);
+  const B = postorder(b);
+  const m = B.nodes.length;
+  const structureDist = new Float64Array(A.nodes.length * m);
+  const fullDist = new Float64Array(A.nodes.length * m);
+  // One buffer per score for every forest table: most keyroots are single cells, and allocating per pair dominates otherwise
+  const structureForest = new Float64Array((A.nodes.length + 1) * (m + 1));
+  const fullForest = new Float64Array((A.nodes.length + 1) * (m + 1));
+
+  // Every keyroot pair fills a (subtree × subtree) table, so that is the unit of progress
+  const subtreeSum = (tree: ReturnType<typeof postorder>) => tree.keyroots.reduce((sum, k) => sum + k - tree.leftmost[k] + 1, 0);
+  const total = subtreeSum(A) * subtreeSum(B);
+  let done = 0;
+  let reported = 0;
+
+  for (const i of A.keyroots) {
+    for (const j of B.keyroots) {
+      const li = A.leftmost[i];
+      const lj = B.leftmost[j];
+      const rows = i - li + 2;
+      const cols = j - lj + 2;
+      structureForest[0] = fullForest[0] = 0;
+      for (let x = 1; x < rows; x++) structureForest[x * cols] = fullForest[x * cols] = x;
+      for (let y = 1; y < cols; y++) structureForest[y] = fullForest[y] = y;
+      for (let x = 1; x < rows; x++) {
+        const i1 = li + x - 1;
+        for (let y = 1; y < cols; y++) {
+          const j1 = lj + y - 1;
+          const at = x * cols + y;
+          const up = (x - 1) * cols + y;
+          const left = at - 1;
+          if (A.leftmost[i1] === li && B.leftmost[j1] === lj) {
+            const [structureCost, fullCost] = rename(A.nodes[i1], B.nodes[j1]);
+            const diagonal = up - 1;
+            structureForest[at] = structureDist[i1 * m + j1] = Math.min(structureForest[up] + 1, structureForest[left] + 1, structureForest[diagonal] + structureCost);
+            fullForest[at] = fullDist[i1 * m + j1] = Math.min(fullForest[up] + 1, fullForest[left] + 1, fullForest[diagonal] + fullCost);
+          } else {
+            const before = (A.leftmost[i1] - li) * cols + (B.leftmost[j1] - lj);
+            structureForest[at] = Math.min(structureForest[up] + 1, structureForest[left] + 1, structureForest[before] + structureDist[i1 * m + j1]);
+            fullForest[at] = Math.min(fullForest[up] + 1, fullForest[left] + 1, fullForest[before] + fullDist[i1 * m + j1]);
+          }
+        }
+      }
+      done += (rows - 1) * (cols - 1);
+      if (onProgress && done - reported >= total / 100) {
+        reported = done;
+        onProgress(done / total);
+      }
+    }
+  }
+  return [structureDist[structureDist.length - 1], fullDist[fullDist.length - 1]];
+};
+
+/**
+ * Relabelling costs of TEDS: different tags or cell spans cost 1; cells
+ * with the same span cost nothing for the structure score and the
+ * normalized edit distance of their text for the full score.
+ */
+const renameCosts: RenameCosts = (x, y) => {
+  if (x.label !== y.label) return [1, 1];
+  if (!x.cell || !y.cell) return [0, 0];
+  if (x.cell.colspan !== y.cell.colspan || x.cell.rowspan !== y.cell.rowspan) return [1, 1];
+  if (x.cell.text === y.cell.text) return [0, 0];
+  const a = Array.from(x.cell.text);
+  const b = Array.from(y.cell.text);
+  return [0, levenshteinDistance(a, b) / Math.max(a.length, b.length)];
+};
+
+const cellLabel = (cell: TableCell) =>
+  cell.text + (cell.colspan > 1 ? ` ↔${cell.colspan}` : '') + (cell.rowspan > 1 ? ` ↕${cell.rowspan}` : '');
+
+/**
+ * Aligns rows by their full text, then the cells of every aligned row, so
+ * a dropped row or a merged cell shows up where it happened.
+ */
+const diffTable = (truth: Table, ocr: Table): TableDiff => {
+  const rowKey = (row: TableCell[]) => row.map(cellLabel).join('\u0001');
+  let ti = 0;
+  let oi = 0;
+  return {
+    rows: alignSequences(truth.map(rowKey), ocr.map(rowKey)).diffs.map(item => {
+      const tRow = item.truth !== undefined ? truth[ti++].map(cellLabel) : [];
+      const oRow = item.ocr !== undefined ? ocr[oi++].map(cellLabel) : [];
+      const cells: TableCellDiff[] = alignSequences(tRow, oRow).diffs
+        .map(({ type, truth: t, ocr: o }) => ({ type, ...(t !== undefined && { truth: t }), ...(o !== undefined && { ocr: o }) }));
+      return { type: item.type, cells };
+    })
+  };
+};
+
+/**
+ * Table structure scores for one pair, or undefined when the truth has no
+ * table. Cell text goes through `normalize` before it is compared. Tables
+ * beyond MAX_TABLE_NODES keep their cell comparison but get no scores.
+ */
+export const evaluateTables = (
+  truth: string,
+  ocr: string,
+  normalize: (text: string) => string,
+  onProgress?: ProgressCallback
+): TableMetrics | undefined => {
+  const normalized = (tables: Table[]) => tables.map(rows => rows.map(cells => cells.map(cell => ({ ...cell, text: normalize(cell.text) }))));
+  const truthTables = normalized(parseTables(truth));
+  if (truthTables.length === 0) return undefined;
+  const ocrTables = normalized(parseTables(ocr));
+  const truthTree = toTree(truthTables);
+  const ocrTree = toTree(ocrTables);
+  const cells = (tables: Table[]) => tables.reduce((sum, rows) => sum + rows.reduce((n, cells) => n + cells.length, 0), 0);
+
+  // 1 - distance / size of the larger tree, leaving out the shared document root
+  const size = Math.max(countNodes(truthTree), countNodes(ocrTree)) - 1;
+  const tooLarge = size > MAX_TABLE_NODES;
+  const [structure, full] = tooLarge ? [] : size === 0 ? [0, 0] : treeEditDistances(truthTree, ocrTree, renameCosts, onProgress);
+  const score = (distance: number) => (size === 0 ? 1 : Math.max(0, 1 - distance / size));
+
+  return {
+    ...(tooLarge ? { tooLarge } : { structure: score(structure!), full: score(full!) }),
+    truthTables: truthTables.length,
+    ocrTables: ocrTables.length,
+    truthCells: cells(truthTables),
+    ocrCells: cells(ocrTables),
+    tables: Array.from({ length: Math.max(truthTables.length, ocrTables.length) }, (_, k) => diffTable(truthTables[k] ?? [], ocrTables[k] ?? []))
+  };
+};
@@ -0,0 +1,142 @@
+/**
+ * Minimal baseline TIFF decoder for page scans, since most browsers cannot
+ * display TIFF in an <img>. Reads the first image only: uncompressed or
+ * PackBits strips, 1- or 8-bit grayscale, 8-bit palette and 8-bit RGB(A).
+ * Anything else (CCITT, LZW, JPEG, tiles) throws.
+ */
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray<ArrayBuffer>; // RGBA, row-major
+}
+
+const TAG = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfiguration: 284,
+  colorMap: 320,
+} as const;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_PACKBITS = 32773;
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const readTags = (view: DataView, little: boolean): Map<number, number[]> => {
+  const tags = new Map<number, number[]>();
+  const ifd = view.getUint32(4, little);
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const n = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type] ?? 1;
+    // Values that fit in four bytes are stored inline
+    const offset = n * size <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+    const values: number[] = [];
+    for (let k = 0; k < n; k++) {
+      const at = offset + k * size;
+      if (type === 3) values.push(view.getUint16(at, little));
+      else if (type === 4) values.push(view.getUint32(at, little));
+      else if (size === 1) values.push(view.getUint8(at));
+      else break; // Rational and float tags are not needed for decoding
+    }
+    tags.set(tag, values);
+  }
+  return tags;
+};
+
+const unpackBits = (input: Uint8Array, expected: number): Uint8Array => {
+  const output = new Uint8Array(expected);
+  let i = 0, o = 0;
+  while (i < input.length && o < expected) {
+    const n = (input[i++] << 24) >> 24; // As a signed byte
+    if (n >= 0) {
+      output.set(input.subarray(i, i + n + 1), o);
+      i += n + 1;
+      o += n + 1;
+    } else if (n !== -128) {
+      output.fill(input[i++], o, o + 1 - n);
+      o += 1 - n;
+    }
+  }
+  return output;
+};
+
+export const decodeTiff = (buffer: ArrayBuffer): DecodedImage => {
+  const view = new DataView(buffer);
+  const order = view.getUint16(0, false);
+  if (order !== 0x4949 && order !== 0x4D4D) throw new Error('Not a TIFF file');
+  const little = order === 0x4949;
+  if (view.getUint16(2, little) !== 42) throw new Error('Unsupported TIFF variant');
+
+  const tags = readTags(view, little);
+  const first = (tag: number, fallback?: number) => {
+    const value = tags.get(tag)?.[0] ?? fallback;
+    if (value === undefined) throw new Error(`TIFF tag ${tag} is missing`);
+    return value;
+  };
+
+  const width = first(TAG.width);
+  const height = first(TAG.height);
+  const bits = first(TAG.bitsPerSample, 1);
+  const samples = first(TAG.samplesPerPixel, 1);
+  const compression = first(TAG.compression, COMPRESSION_NONE);
+  const photometric = first(TAG.photometric, 1);
+  const rowsPerStrip = first(TAG.rowsPerStrip, height);
+  const offsets = tags.get(TAG.stripOffsets) ?? [];
+  const counts = tags.get(TAG.stripByteCounts) ?? [];
+
+  if (compression !== COMPRESSION_NONE && compression !== COMPRESSION_PACKBITS) {
+    throw new Error(`TIFF compression ${compression} is not supported`);
+  }
+  if (first(TAG.planarConfiguration, 1) !== 1) throw new Error('Planar TIFF is not supported');
+  if (!(bits === 1 && samples === 1) && bits !== 8) throw new Error(`${bits}-bit TIFF is not supported`);
+
+  const rowBytes = Math.ceil((width * bits * samples) / 8);
+  const raw = new Uint8Array(rowBytes * height);
+  offsets.forEach((offset, s) => {
+    const rows = Math.min(rowsPerStrip, height - s * rowsPerStrip);
+    const strip = new Uint8Array(buffer, offset, counts[s] ?? rowBytes * rows);
+    raw.set(compression === COMPRESSION_PACKBITS ? unpackBits(strip, rowBytes * rows) : strip.subarray(0, rowBytes * rows), s * rowsPerStrip * rowBytes);
+  });
+
+  const colorMap = tags.get(TAG.colorMap);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      let r: number, g: number, b: number, a = 255;
+      if (bits === 1) {
+        const bit = (raw[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        r = g = b = (bit === 1) === (photometric === 1) ? 255 : 0;
+      } else if (samples >= 3) {
+        const at = y * rowBytes + x * samples;
+        [r, g, b] = [raw[at], raw[at + 1], raw[at + 2]];
+        if (samples === 4) a = raw[at + 3];
+      } else {
+        const v = raw[y * rowBytes + x * samples];
+        if (photometric === 3 && colorMap) {
+          // Palette entries are 16-bit: all reds, then all greens, then all blues
+          [r, g, b] = [colorMap[v] >> 8, colorMap[256 + v] >> 8, colorMap[512 + v] >> 8];
+        } else {
+          r = g = b = photometric === 0 ? 255 - v : v;
+        }
+      }
+      data[out] = r;
+      data[out + 1] = g;
+      data[out + 2] = b;
+      data[out + 3] = a;
+    }
+  }
+  return { width, height, data };
+};
@@ -0,0 +1,69 @@
+import { TokenizerId } from '../types';
+
+export interface TokenizerInfo {
+  id: TokenizerId;
+  label: string;
+  description: string;
+}
+
+export const TOKENIZERS: TokenizerInfo[] = [
+  { id: 'mixed', label: '混合文字', description: '中日韩字符逐字切分，拉丁字母/数字按词切分，标点单独成词' },
+  { id: 'intl-word', label: '智能分词 (Intl.Segmenter)', description: '使用浏览器内置的词典分词，适合中文按词评估' },
+  { id: 'cjk-char', label: '逐字符', description: '每个非空白字符都是一个词' },
+  { id: 'whitespace', label: '空格分词', description: '按空白切分，适合英文等以空格分词的语言' },
+];
+
+export const DEFAULT_TOKENIZER: TokenizerId = 'mixed';
+
+const CJK = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}';
+
+const NON_CJK_WORD_CHAR = `(?:(?![${CJK}])[\\p{L}\\p{N}\\p{M}])`;
+
+// One CJK character | a run of non-CJK letters/digits/marks (inner ' or -, decimal points) | any other visible character
+const MIXED_TOKEN_REGEX = new RegExp(
+  `[${CJK}]|${NON_CJK_WORD_CHAR}+(?:['’\\-]${NON_CJK_WORD_CHAR}+|\\.\\p{N}+)*|\\S`,
+  'gu'
+);
+
+export const tokenizerLabel = (id: TokenizerId): string =>
+  TOKENIZERS.find(t => t.id === id)?.label || id;
+
+/**
+ * Whether Intl.Segmenter is available in the current runtime.
+ */
+export const hasIntlSegmenter = (): boolean =>
+  typeof Intl !== 'undefined' && typeof Intl.Segmenter === 'function';
+
+/**
+ * Resolves the tokenizer that will actually run, falling back from
+ * Intl.Segmenter to mixed-script tokenization where it is unavailable.
+ */
+export const resolveTokenizer = (id: TokenizerId): TokenizerId =>
+  id === 'intl-word' && !hasIntlSegmenter() ? 'mixed' : id;
+
+/**
+ * Splits text into word tokens. Whitespace never produces a token.
+ */
+export const tokenize = (text: string, id: TokenizerId = DEFAULT_TOKENIZER): string[] => {
+  switch (resolveTokenizer(id)) {
+    case 'whitespace':
+      return text.trim().split(/\s+/).filter(t => t.length > 0);
+
+    case 'cjk-char':
+      return Array.from(text).filter(ch => !/\s/.test(ch));
+
+    case 'intl-word': {
+      const segmenter = new Intl.Segmenter('zh', { granularity: 'word' });
+      const tokens: string[] = [];
+      for (const { segment } of segmenter.segment(text)) {
+        const trimmed = segment.trim();
+        if (trimmed.length > 0) tokens.push(trimmed);
+      }
+      return tokens;
+    }
+
+    case 'mixed':
+    default:
+      return text.match(MIXED_TOKEN_REGEX) || [];
+  }
+};
@@ -0,0 +1,110 @@
+import { AnalysisSettings, Metrics } from '../types';
+
+export interface AnalysisTask {
+  id: string;
+  truth: string;
+  ocr: string;
+  settings: AnalysisSettings;
+}
+
+export interface AnalysisTaskResult {
+  id: string;
+  metrics?: Metrics;
+  error?: string;
+}
+
+export type WorkerRequest = { type: 'analyze'; task: AnalysisTask };
+
+export type WorkerResponse =
+  | { type: 'progress'; id: string; fraction: number }
+  | { type: 'done'; id: string; metrics: Metrics }
+  | { type: 'error'; id: string; message: string };
+
+export interface WorkerPoolCallbacks {
+  onProgress?: (id: string, fraction: number) => void;
+  onSettled?: (result: AnalysisTaskResult) => void;
+}
+
+// Leave one core for the UI thread; more workers than this rarely helps
+const MAX_WORKERS = 4;
+
+const defaultConcurrency = () => {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+};
+
+/**
+ * Analyzes pairs in a pool of Web Workers, keeping the UI thread free.
+ * A failing pair is reported through its result instead of rejecting the
+ * whole run, and a crashed worker is replaced. Results come back in task
+ * order; workers are terminated once the queue drains.
+ */
+export const analyzeInWorkers = (
+  tasks: AnalysisTask[],
+  { onProgress, onSettled }: WorkerPoolCallbacks = {},
+  concurrency: number = defaultConcurrency()
+): Promise<AnalysisTaskResult[]> => {
+  return new Promise((resolve) => {
+    const results = new Map<string, AnalysisTaskResult>();
+    const queue = [...tasks];
+    const workerCount = Math.min(concurrency, queue.length);
+    let active = 0;
+
+    if (workerCount === 0) {
+      resolve([]);
+      return;
+    }
+
+    const settle = (result: AnalysisTaskResult) => {
+      results.set(result.id, result);
+      onSettled?.(result);
+    };
+
+    const finish = () => {
+      resolve(tasks.map(t => results.get(t.id) || { id: t.id, error: '分析未完成' }));
+    };
+
+    const startWorker = () => {
+      const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+      let current: AnalysisTask | undefined;
+      active++;
+
+      const next = () => {
+        current = queue.shift();
+        if (!current) {
+          worker.terminate();
+          active--;
+          if (active === 0) finish();
+          return;
+        }
+        const request: WorkerRequest = { type: 'analyze', task: current };
+        worker.postMessage(request);
+      };
+
+      worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+        const msg = e.data;
+        if (msg.type === 'progress') {
+          onProgress?.(msg.id, msg.fraction);
+          return;
+        }
+        if (msg.type === 'done') settle({ id: msg.id, metrics: msg.metrics });
+        else settle({ id: msg.id, error: msg.message });
+        next();
+      };
+
+      // A worker that threw may never answer again, so it is replaced rather than handed the next task
+      worker.onerror = (e) => {
+        e.preventDefault();
+        worker.terminate();
+        active--;
+        if (current) settle({ id: current.id, error: e.message || 'Worker 运行出错' });
+        if (queue.length > 0) startWorker();
+        else if (active === 0) finish();
+      };
+
+      next();
+    };
+
+    for (let i = 0; i < workerCount; i++) startWorker();
+  });
+};